@@ -1,26 +1,38 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { fetchAkiMemePairDeepseek } from "../lib/akiMemeDeepseek.js";
+import { abortOnClientDisconnect } from "../lib/clientDisconnect.js";
+import { resolveLlmProvider } from "../lib/llmProvider.js";
+import { createUsageMeter } from "../lib/llmUsage.js";
+import { recordRequestUsage } from "../lib/usageLog.js";
+import { getQuotaStore } from "../lib/quotaStore.js";
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader("Access-Control-Allow-Origin", req.headers.origin || "*");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
   if (req.method === "OPTIONS") return res.status(204).end();
 
   if (req.method !== "POST") {
     return res.status(405).json({ error: "Method not allowed" });
   }
 
-  const DEEPSEEK_API_KEY = (process.env.DEEPSEEK_API_KEY || "").trim();
-  const placeholders = ["YOUR_DEEPSEEK_API_KEY", "你的DeepSeek密钥", "你的密钥"];
-  if (!DEEPSEEK_API_KEY || placeholders.some((p) => DEEPSEEK_API_KEY.includes(p))) {
+  const llm = resolveLlmProvider();
+  if (!llm) {
     return res.status(503).json({
-      error: "请先在 Vercel 项目设置中配置 DEEPSEEK_API_KEY 环境变量",
+      error: "请先在 Vercel 项目设置中配置 DEEPSEEK_API_KEY（或 LLM_PROVIDER / LLM_API_KEY）环境变量",
     });
   }
 
+  const quota = await getQuotaStore("neon");
+  if (quota && !(await quota.enforce(req, res, "meme"))) return;
+
+  const usage = createUsageMeter();
   try {
     const { text } = (req.body || {}) as { text?: string };
-    const pair = await fetchAkiMemePairDeepseek(String(text ?? ""), DEEPSEEK_API_KEY);
+    const pair = await fetchAkiMemePairDeepseek(String(text ?? ""), llm, {
+      signal: abortOnClientDisconnect(res),
+      onUsage: (u) => usage.record("meme", u),
+    });
+    await recordRequestUsage(req.headers.authorization, "aki-meme", llm, usage.summary());
     if (!pair) {
       return res.status(200).json({ eligible: false, zh: "", en: "" });
     }
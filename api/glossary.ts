@@ -0,0 +1,141 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { neon } from '@neondatabase/serverless';
+import { verifyToken } from '@clerk/backend';
+
+// 术语表与历史记录同库，按用户与语言对区分
+const GLOSSARY_TABLE_SQL = `CREATE TABLE IF NOT EXISTS glossary_terms (
+  id TEXT PRIMARY KEY,
+  username TEXT,
+  source_lang TEXT NOT NULL,
+  target_lang TEXT NOT NULL,
+  source_term TEXT NOT NULL,
+  target_term TEXT NOT NULL,
+  created_at_ms BIGINT NOT NULL
+)`;
+
+async function withGlossaryDb<T>(fn: (sql: Awaited<ReturnType<typeof neon>>) => Promise<T>): Promise<T | null> {
+  const url = (process.env.DATABASE_URL || '').trim();
+  if (!url) return null;
+  try {
+    const sql = neon(url);
+    await sql.query(GLOSSARY_TABLE_SQL);
+    return await fn(sql);
+  } catch {
+    return null;
+  }
+}
+
+type ClerkHistoryAuth = 'legacy' | { userId: string } | 'unauthorized';
+
+function getBearerToken(req: VercelRequest): string | null {
+  const raw = req.headers.authorization;
+  const h = Array.isArray(raw) ? raw[0] : raw;
+  return h?.startsWith('Bearer ') ? h.slice(7) : null;
+}
+
+async function resolveClerkHistoryUser(req: VercelRequest): Promise<ClerkHistoryAuth> {
+  const secret = (process.env.CLERK_SECRET_KEY || '').trim();
+  if (!secret) return 'legacy';
+  const token = getBearerToken(req);
+  if (!token) return 'unauthorized';
+  try {
+    const payload = await verifyToken(token, { secretKey: secret });
+    const sub = payload.sub;
+    if (typeof sub !== 'string' || !sub) return 'unauthorized';
+    return { userId: sub };
+  } catch {
+    return 'unauthorized';
+  }
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const origin = (req.headers.origin as string) || '*';
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  if (req.method === 'OPTIONS') return res.status(204).end();
+
+  const auth = await resolveClerkHistoryUser(req);
+  if (auth === 'unauthorized') {
+    return res.status(401).json({ error: '未登录或会话无效。请重新登录。' });
+  }
+
+  if (req.method === 'GET') {
+    const legacyUser = typeof req.query?.username === 'string' ? req.query.username : '';
+    const rows = await withGlossaryDb(async (sql) => {
+      const r =
+        auth !== 'legacy'
+          ? await sql`SELECT id, source_lang, target_lang, source_term, target_term, created_at_ms
+              FROM glossary_terms WHERE username = ${auth.userId} ORDER BY created_at_ms ASC`
+          : legacyUser
+            ? await sql`SELECT id, source_lang, target_lang, source_term, target_term, created_at_ms
+                FROM glossary_terms WHERE username = ${legacyUser} ORDER BY created_at_ms ASC`
+            : await sql`SELECT id, source_lang, target_lang, source_term, target_term, created_at_ms
+                FROM glossary_terms ORDER BY created_at_ms ASC`;
+      return r as Record<string, unknown>[];
+    });
+    if (rows === null) {
+      return res.status(503).json({ error: '术语表同步未配置。在 Vercel Storage 连接 Neon 或添加 DATABASE_URL。' });
+    }
+    return res.json(
+      rows.map((r) => ({
+        id: String(r.id),
+        sourceLang: String(r.source_lang ?? ''),
+        targetLang: String(r.target_lang ?? ''),
+        source: String(r.source_term ?? ''),
+        target: String(r.target_term ?? ''),
+        createdAt: Number(r.created_at_ms),
+      }))
+    );
+  }
+
+  if (req.method === 'POST') {
+    const body = (req.body || {}) as {
+      id?: string;
+      createdAt?: number;
+      username?: string;
+      sourceLang?: string;
+      targetLang?: string;
+      source?: string;
+      target?: string;
+    };
+    const id = (body?.id || crypto.randomUUID()) as string;
+    const createdAt = typeof body?.createdAt === 'number' ? body.createdAt : Date.now();
+    const source = String(body?.source ?? '').trim();
+    const target = String(body?.target ?? '').trim();
+    const sourceLang = String(body?.sourceLang ?? '').trim();
+    const targetLang = String(body?.targetLang ?? '').trim();
+    if (!source || !target || !sourceLang || !targetLang) {
+      return res.status(400).json({ error: '术语、译法与语言对均不能为空' });
+    }
+    const dbUsername = auth !== 'legacy' ? auth.userId : body?.username || null;
+    const ok = await withGlossaryDb(async (sql) => {
+      await sql.query(
+        `INSERT INTO glossary_terms (id, username, source_lang, target_lang, source_term, target_term, created_at_ms)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (id) DO UPDATE SET source_lang = EXCLUDED.source_lang, target_lang = EXCLUDED.target_lang,
+           source_term = EXCLUDED.source_term, target_term = EXCLUDED.target_term`,
+        [id, dbUsername, sourceLang, targetLang, source, target, createdAt]
+      );
+      return true;
+    });
+    if (ok === null) return res.status(503).json({ error: '术语表同步未配置。' });
+    return res.json({ id, createdAt });
+  }
+
+  if (req.method === 'DELETE') {
+    const id = (req.query?.id ?? (req.body as { id?: string })?.id) as string | undefined;
+    if (!id) return res.status(400).json({ error: '缺少 id' });
+    const ok = await withGlossaryDb(async (sql) => {
+      if (auth === 'legacy') {
+        await sql`DELETE FROM glossary_terms WHERE id = ${id}`;
+      } else {
+        await sql`DELETE FROM glossary_terms WHERE id = ${id} AND username = ${auth.userId}`;
+      }
+      return true;
+    });
+    if (ok === null) return res.status(503).json({ error: '术语表同步未配置。' });
+    return res.status(204).end();
+  }
+
+  return res.status(405).json({ error: 'Method not allowed' });
+}
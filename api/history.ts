@@ -2,6 +2,7 @@ import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { neon } from '@neondatabase/serverless';
 import { verifyToken } from '@clerk/backend';
 import { resolveOwnerDisplayNames } from '../lib/clerkUserDisplay.ts';
+import { normalizeUsageSummary } from '../lib/llmUsage.js';
 
 const TABLE_SQL = `CREATE TABLE IF NOT EXISTS translations (
   id TEXT PRIMARY KEY,
@@ -22,6 +23,10 @@ const MIGRATE_SQLS = [
   `ALTER TABLE translations ADD COLUMN IF NOT EXISTS username TEXT`,
   `ALTER TABLE translations ADD COLUMN IF NOT EXISTS source_lang TEXT`,
   `ALTER TABLE translations ADD COLUMN IF NOT EXISTS target_lang TEXT`,
+  `ALTER TABLE translations ADD COLUMN IF NOT EXISTS style TEXT`,
+  `ALTER TABLE translations ADD COLUMN IF NOT EXISTS style_instructions TEXT`,
+  `ALTER TABLE translations ADD COLUMN IF NOT EXISTS targets JSONB`,
+  `ALTER TABLE translations ADD COLUMN IF NOT EXISTS usage JSONB`,
 ];
 
 async function withHistoryDb<T>(fn: (sql: Awaited<ReturnType<typeof neon>>) => Promise<T>): Promise<T | null> {
@@ -89,12 +94,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const result = await withHistoryDb(async (sql) => {
       const rows =
         auth === 'legacy'
-          ? await sql`SELECT id, created_at_ms, title_zh, title_en, author_zh, author_en, content, analysis, annotations, username, source_lang, target_lang
+          ? await sql`SELECT id, created_at_ms, title_zh, title_en, author_zh, author_en, content, analysis, annotations, username, source_lang, target_lang, style, style_instructions, targets, usage
               FROM translations ORDER BY created_at_ms DESC LIMIT 100`
           : admin
-            ? await sql`SELECT id, created_at_ms, title_zh, title_en, author_zh, author_en, content, analysis, annotations, username, source_lang, target_lang
+            ? await sql`SELECT id, created_at_ms, title_zh, title_en, author_zh, author_en, content, analysis, annotations, username, source_lang, target_lang, style, style_instructions, targets, usage
                 FROM translations ORDER BY created_at_ms DESC LIMIT 500`
-            : await sql`SELECT id, created_at_ms, title_zh, title_en, author_zh, author_en, content, analysis, annotations, username, source_lang, target_lang
+            : await sql`SELECT id, created_at_ms, title_zh, title_en, author_zh, author_en, content, analysis, annotations, username, source_lang, target_lang, style, style_instructions, targets, usage
                 FROM translations WHERE username = ${auth.userId} ORDER BY created_at_ms DESC LIMIT 100`;
       return rows as Record<string, unknown>[];
     });
@@ -112,6 +117,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       username: r.username ? String(r.username) : undefined,
       sourceLang: r.source_lang ? String(r.source_lang) : undefined,
       targetLang: r.target_lang ? String(r.target_lang) : undefined,
+      style: r.style ? String(r.style) : undefined,
+      styleInstructions: r.style_instructions ? String(r.style_instructions) : undefined,
+      targets: (r.targets as Record<string, unknown>) ?? undefined,
+      usage: normalizeUsageSummary(r.usage) ?? undefined,
     }));
     const labelMap = await resolveOwnerDisplayNames(
       items.map((i) => i.username),
@@ -142,6 +151,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       username?: string;
       sourceLang?: string;
       targetLang?: string;
+      style?: string;
+      styleInstructions?: string;
+      targets?: Record<string, unknown> | null;
+      usage?: unknown;
     };
     const id = (body?.id || crypto.randomUUID()) as string;
     const createdAt = typeof body?.createdAt === 'number' ? body.createdAt : Date.now();
@@ -153,19 +166,26 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const dbUsername = auth !== 'legacy' ? auth.userId : body?.username || null;
     const dbSourceLang = body?.sourceLang || null;
     const dbTargetLang = body?.targetLang || null;
+    const dbStyle = body?.style || null;
+    const dbStyleInstructions = body?.styleInstructions || null;
+    const targets = body?.targets && typeof body.targets === 'object' ? body.targets : null;
+    const usage = normalizeUsageSummary(body?.usage);
     if (content.length === 0) return res.status(400).json({ error: 'content 不能为空' });
 
     const ok = await withHistoryDb(async (sql) => {
       const contentStr = JSON.stringify(content);
       const analysisStr = analysis ? JSON.stringify(analysis) : null;
       const annotationsStr = annotations ? JSON.stringify(annotations) : null;
+      const targetsStr = targets ? JSON.stringify(targets) : null;
+      const usageStr = usage ? JSON.stringify(usage) : null;
       await sql.query(
-        `INSERT INTO translations (id, created_at_ms, title_zh, title_en, author_zh, author_en, content, analysis, annotations, username, source_lang, target_lang)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        `INSERT INTO translations (id, created_at_ms, title_zh, title_en, author_zh, author_en, content, analysis, annotations, username, source_lang, target_lang, style, style_instructions, targets, usage)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
          ON CONFLICT (id) DO UPDATE SET created_at_ms = EXCLUDED.created_at_ms, title_zh = EXCLUDED.title_zh, title_en = EXCLUDED.title_en,
            author_zh = EXCLUDED.author_zh, author_en = EXCLUDED.author_en, content = EXCLUDED.content, analysis = EXCLUDED.analysis,
-           annotations = EXCLUDED.annotations, username = EXCLUDED.username, source_lang = EXCLUDED.source_lang, target_lang = EXCLUDED.target_lang`,
-        [id, createdAt, title.zh ?? '', title.en ?? '', author.zh ?? '', author.en ?? '', contentStr, analysisStr, annotationsStr, dbUsername, dbSourceLang, dbTargetLang]
+           annotations = EXCLUDED.annotations, username = EXCLUDED.username, source_lang = EXCLUDED.source_lang, target_lang = EXCLUDED.target_lang,
+           style = EXCLUDED.style, style_instructions = EXCLUDED.style_instructions, targets = EXCLUDED.targets, usage = EXCLUDED.usage`,
+        [id, createdAt, title.zh ?? '', title.en ?? '', author.zh ?? '', author.en ?? '', contentStr, analysisStr, annotationsStr, dbUsername, dbSourceLang, dbTargetLang, dbStyle, dbStyleInstructions, targetsStr, usageStr]
       );
       return true;
     });
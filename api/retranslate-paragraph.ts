@@ -0,0 +1,47 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { callLlmJson, resolveLlmProvider } from '../lib/llmProvider.js';
+import { isAbortError } from '../lib/llmScheduler.js';
+import { createUsageMeter } from '../lib/llmUsage.js';
+import { recordRequestUsage } from '../lib/usageLog.js';
+import { getQuotaStore } from '../lib/quotaStore.js';
+import { abortOnClientDisconnect } from '../lib/clientDisconnect.js';
+import { parseParagraphRevisionRequest, retranslateParagraph } from '../lib/paragraphRevision.js';
+
+// 单段按要求重译：结合前后段落与改译要求重译一段
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  if (req.method === 'OPTIONS') return res.status(204).end();
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const llm = resolveLlmProvider();
+  if (!llm) {
+    return res.status(503).json({
+      error: '请先在 Vercel 项目设置中配置 DEEPSEEK_API_KEY（或 LLM_PROVIDER / LLM_API_KEY）环境变量',
+    });
+  }
+
+  const request = parseParagraphRevisionRequest(req.body);
+  if ('error' in request) return res.status(400).json({ error: request.error });
+  const quota = await getQuotaStore('neon');
+  if (quota && !(await quota.enforce(req, res, 'paragraph'))) return;
+
+  const usage = createUsageMeter();
+  try {
+    const translation = await retranslateParagraph(
+      request,
+      (prompt, opts) => callLlmJson(llm, { system: request.systemPrompt, user: prompt }, opts),
+      { signal: abortOnClientDisconnect(res), usage }
+    );
+    await recordRequestUsage(req.headers.authorization, 'retranslate-paragraph', llm, usage.summary());
+    return res.status(200).json({ translation, usage: usage.summary() });
+  } catch (err: unknown) {
+    await recordRequestUsage(req.headers.authorization, 'retranslate-paragraph', llm, usage.summary());
+    if (isAbortError(err)) return;
+    const msg = err instanceof Error ? err.message : 'Internal error';
+    return res.status(500).json({ error: msg });
+  }
+}
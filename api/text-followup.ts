@@ -1,30 +1,12 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import JSON5 from 'json5';
+import { callLlmJson, resolveLlmProvider, type LlmCallOptions, type LlmProvider } from '../lib/llmProvider.js';
+import { createUsageMeter } from '../lib/llmUsage.js';
+import { recordRequestUsage } from '../lib/usageLog.js';
+import { getQuotaStore } from '../lib/quotaStore.js';
 
 const FOLLOWUP_CONTEXT_MAX = 28000;
 const FOLLOWUP_ANALYSIS_MAX = 12000;
 
-const sanitizeJson = (s: string) => s.replace(/,(\s*[\]}])/g, '$1');
-
-function parseDeepSeekJson(content: string): Record<string, unknown> {
-  try {
-    return JSON.parse(content || '{}');
-  } catch {}
-  try {
-    return JSON.parse(sanitizeJson(content));
-  } catch {}
-  try {
-    return JSON5.parse(content);
-  } catch {}
-  const m = content.match(/```(?:json)?\s*([\s\S]*?)```/) || content.match(/\{[\s\S]*\}/);
-  const extracted = m ? (m[1] ?? m[0]) : '{}';
-  try {
-    return JSON5.parse(extracted);
-  } catch {
-    return {};
-  }
-}
-
 function truncateFollowupContext(s: string, max: number): string {
   if (s.length <= max) return s;
   return `${s.slice(0, max)}\n\n[... 内容已截断 ...]`;
@@ -79,43 +61,17 @@ function buildFollowupHistoryText(history: FollowupHistoryItem[] | undefined): s
   return lines.join('\n\n');
 }
 
-async function callDeepSeekTextFollowup(userPrompt: string, apiKey: string): Promise<{ zh: string; en: string }> {
-  const response = await fetch('https://api.deepseek.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'deepseek-chat',
-      messages: [
-        {
-          role: 'system',
-          content:
-            '你是专业的中英双语文学编辑助手。用户会提供文章正文（含英中对照）、可选的结构化分析摘要、以及此前的对话摘录。你必须仅依据这些内容回答用户关于文本的深度追问，不要编造文中不存在的情节或引用。若问题与文本明显无关，请礼貌说明并引导回到文本。\n请始终只输出一个 JSON 对象，且必须包含键 "zh"（简体中文）与 "en"（英文），两者语义一致，风格为文学评论。',
-        },
-        { role: 'user', content: userPrompt },
-      ],
-      response_format: { type: 'json_object' },
-      max_tokens: 4096,
-    }),
-  });
-
-  if (!response.ok) {
-    const text = await response.text();
-    let userMsg = 'DeepSeek API 调用失败';
-    try {
-      const errJson = JSON.parse(text);
-      const apiErr = errJson?.error?.message || errJson?.message || errJson?.error;
-      if (apiErr) userMsg = typeof apiErr === 'string' ? apiErr : String(apiErr);
-      if (response.status === 401) userMsg = 'API Key 无效或已过期，请在 Vercel 中检查 DEEPSEEK_API_KEY';
-      else if (response.status === 429) userMsg = '请求过于频繁，请稍后再试';
-    } catch {}
-    throw new Error(userMsg);
-  }
-
-  const data = await response.json();
-  const obj = parseDeepSeekJson(data.choices?.[0]?.message?.content ?? '');
+async function callLlmTextFollowup(
+  userPrompt: string,
+  llm: LlmProvider,
+  opts?: LlmCallOptions
+): Promise<{ zh: string; en: string }> {
+  const obj = await callLlmJson(llm, {
+    system:
+      '你是专业的中英双语文学编辑助手。用户会提供文章正文（含英中对照）、可选的结构化分析摘要、以及此前的对话摘录。你必须仅依据这些内容回答用户关于文本的深度追问，不要编造文中不存在的情节或引用。若问题与文本明显无关，请礼貌说明并引导回到文本。\n请始终只输出一个 JSON 对象，且必须包含键 "zh"（简体中文）与 "en"（英文），两者语义一致，风格为文学评论。',
+    user: userPrompt,
+    maxTokens: 4096,
+  }, opts);
   const zh = typeof obj.zh === 'string' ? obj.zh.trim() : '';
   const en = typeof obj.en === 'string' ? obj.en.trim() : '';
   if (!zh && !en) throw new Error('模型未返回有效回答');
@@ -124,18 +80,17 @@ async function callDeepSeekTextFollowup(userPrompt: string, apiKey: string): Pro
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
   if (req.method === 'OPTIONS') return res.status(204).end();
 
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const DEEPSEEK_API_KEY = (process.env.DEEPSEEK_API_KEY || '').trim();
-  const placeholders = ['YOUR_DEEPSEEK_API_KEY', '你的DeepSeek密钥', '你的密钥'];
-  if (!DEEPSEEK_API_KEY || placeholders.some((p) => DEEPSEEK_API_KEY.includes(p))) {
+  const llm = resolveLlmProvider();
+  if (!llm) {
     return res.status(503).json({
-      error: '请先在 Vercel 项目设置中配置 DEEPSEEK_API_KEY 环境变量',
+      error: '请先在 Vercel 项目设置中配置 DEEPSEEK_API_KEY（或 LLM_PROVIDER / LLM_API_KEY）环境变量',
     });
   }
 
@@ -152,6 +107,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     if (!question) return res.status(400).json({ error: 'question 不能为空' });
     const content = Array.isArray(body?.content) ? body.content : [];
     if (content.length === 0) return res.status(400).json({ error: 'content 不能为空' });
+    const quota = await getQuotaStore('neon');
+    if (quota && !(await quota.enforce(req, res, 'followup'))) return;
 
     const articleCtx = buildFollowupArticleContext(
       content,
@@ -164,7 +121,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       .filter(Boolean)
       .join('\n\n');
 
-    const reply = await callDeepSeekTextFollowup(userPrompt, DEEPSEEK_API_KEY);
+    const usage = createUsageMeter();
+    const reply = await callLlmTextFollowup(userPrompt, llm, { onUsage: (u) => usage.record('followup', u) });
+    await recordRequestUsage(req.headers.authorization, 'text-followup', llm, usage.summary());
     return res.status(200).json({ reply });
   } catch (err: unknown) {
     const msg = err instanceof Error ? err.message : 'Internal error';
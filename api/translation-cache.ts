@@ -0,0 +1,68 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { verifyToken } from '@clerk/backend';
+import { getParagraphCache } from '../lib/paragraphCache.js';
+import { ADMIN_TOKEN_HEADER, ADMIN_TOKEN_REQUIRED_MESSAGE, hasAdminToken } from '../lib/adminToken.js';
+
+type ClerkHistoryAuth = 'legacy' | { userId: string } | 'unauthorized';
+
+function getBearerToken(req: VercelRequest): string | null {
+  const raw = req.headers.authorization;
+  const h = Array.isArray(raw) ? raw[0] : raw;
+  return h?.startsWith('Bearer ') ? h.slice(7) : null;
+}
+
+async function resolveClerkHistoryUser(req: VercelRequest): Promise<ClerkHistoryAuth> {
+  const secret = (process.env.CLERK_SECRET_KEY || '').trim();
+  if (!secret) return 'legacy';
+  const token = getBearerToken(req);
+  if (!token) return 'unauthorized';
+  try {
+    const payload = await verifyToken(token, { secretKey: secret });
+    const sub = payload.sub;
+    if (typeof sub !== 'string' || !sub) return 'unauthorized';
+    return { userId: sub };
+  } catch {
+    return 'unauthorized';
+  }
+}
+
+function isClerkHistoryAdmin(userId: string): boolean {
+  const raw = (process.env.CLERK_ADMIN_USER_IDS || '').trim();
+  return raw.split(',').map((s) => s.trim()).filter(Boolean).includes(userId);
+}
+
+// 段落缓存统计 / 清空：配置 Clerk 时仅管理员可用；未配置时须带 ADMIN_TOKEN（见 adminToken.ts）
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const origin = (req.headers.origin as string) || '*';
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Access-Control-Allow-Headers', `Content-Type, Authorization, ${ADMIN_TOKEN_HEADER}`);
+  if (req.method === 'OPTIONS') return res.status(204).end();
+
+  const auth = await resolveClerkHistoryUser(req);
+  if (auth === 'unauthorized') {
+    return res.status(401).json({ error: '未登录或会话无效。请重新登录。' });
+  }
+  if (auth !== 'legacy' && !isClerkHistoryAdmin(auth.userId)) {
+    return res.status(403).json({ error: '仅管理员可查看翻译缓存。' });
+  }
+  if (auth === 'legacy' && !hasAdminToken(req)) {
+    return res.status(403).json({ error: ADMIN_TOKEN_REQUIRED_MESSAGE });
+  }
+
+  const cache = await getParagraphCache('neon');
+  if (!cache) {
+    return res.status(503).json({ error: '段落缓存未启用。在 Vercel Storage 连接 Neon 或添加 DATABASE_URL。' });
+  }
+
+  try {
+    if (req.method === 'GET') return res.json(await cache.stats());
+    if (req.method === 'DELETE') {
+      await cache.clear();
+      return res.status(204).end();
+    }
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (err: unknown) {
+    console.error(err);
+    return res.status(500).json({ error: err instanceof Error ? err.message : 'Internal error' });
+  }
+}
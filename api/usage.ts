@@ -0,0 +1,74 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { verifyToken } from '@clerk/backend';
+import { resolveOwnerDisplayNames } from '../lib/clerkUserDisplay.js';
+import { summarizeUsage } from '../lib/usageLog.js';
+import { ADMIN_TOKEN_HEADER, ADMIN_TOKEN_REQUIRED_MESSAGE, hasAdminToken } from '../lib/adminToken.js';
+
+type ClerkHistoryAuth = 'legacy' | { userId: string } | 'unauthorized';
+
+function getBearerToken(req: VercelRequest): string | null {
+  const raw = req.headers.authorization;
+  const h = Array.isArray(raw) ? raw[0] : raw;
+  return h?.startsWith('Bearer ') ? h.slice(7) : null;
+}
+
+async function resolveClerkHistoryUser(req: VercelRequest): Promise<ClerkHistoryAuth> {
+  const secret = (process.env.CLERK_SECRET_KEY || '').trim();
+  if (!secret) return 'legacy';
+  const token = getBearerToken(req);
+  if (!token) return 'unauthorized';
+  try {
+    const payload = await verifyToken(token, { secretKey: secret });
+    const sub = payload.sub;
+    if (typeof sub !== 'string' || !sub) return 'unauthorized';
+    return { userId: sub };
+  } catch {
+    return 'unauthorized';
+  }
+}
+
+function isClerkHistoryAdmin(userId: string): boolean {
+  const raw = (process.env.CLERK_ADMIN_USER_IDS || '').trim();
+  return raw.split(',').map((s) => s.trim()).filter(Boolean).includes(userId);
+}
+
+// 各用户的模型用量汇总：配置 Clerk 时仅管理员可用，未配置时须带 ADMIN_TOKEN（见 adminToken.ts）；?days= 指定统计最近几天（默认 30，最多 365）
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const origin = (req.headers.origin as string) || '*';
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Access-Control-Allow-Headers', `Content-Type, Authorization, ${ADMIN_TOKEN_HEADER}`);
+  if (req.method === 'OPTIONS') return res.status(204).end();
+  if (req.method !== 'GET') return res.status(405).json({ error: 'Method not allowed' });
+
+  const auth = await resolveClerkHistoryUser(req);
+  if (auth === 'unauthorized') {
+    return res.status(401).json({ error: '未登录或会话无效。请重新登录。' });
+  }
+  if (auth !== 'legacy' && !isClerkHistoryAdmin(auth.userId)) {
+    return res.status(403).json({ error: '仅管理员可查看用量统计。' });
+  }
+  if (auth === 'legacy' && !hasAdminToken(req)) {
+    return res.status(403).json({ error: ADMIN_TOKEN_REQUIRED_MESSAGE });
+  }
+
+  const rawDays = Array.isArray(req.query.days) ? req.query.days[0] : req.query.days;
+  const days = Math.min(Math.max(parseInt(String(rawDays ?? ''), 10) || 30, 1), 365);
+  try {
+    const report = await summarizeUsage(Date.now() - days * 24 * 60 * 60 * 1000);
+    if (!report) {
+      return res.status(503).json({ error: '用量统计未配置。在 Vercel Storage 连接 Neon 或添加 DATABASE_URL。' });
+    }
+    const labelMap = await resolveOwnerDisplayNames(
+      report.users.map((u) => u.userId ?? undefined),
+      (process.env.CLERK_SECRET_KEY || '').trim()
+    );
+    return res.json({
+      ...report,
+      days,
+      users: report.users.map((u) => ({ ...u, displayName: u.userId ? (labelMap.get(u.userId) ?? u.userId) : '访客' })),
+    });
+  } catch (err: unknown) {
+    console.error(err);
+    return res.status(500).json({ error: err instanceof Error ? err.message : 'Internal error' });
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * 未配置 Clerk（legacy 模式）时管理接口的口令：段落缓存统计与清空、用量统计须在 X-Admin-Token 请求头带上 ADMIN_TOKEN。
+ * 未设置 ADMIN_TOKEN 时这些接口在 legacy 模式下一律返回 403。配置 Clerk 后改按 CLERK_ADMIN_USER_IDS 判断，不看本口令。
+ */
+import crypto from 'crypto';
+import type { IncomingMessage } from 'http';
+
+export const ADMIN_TOKEN_HEADER = 'X-Admin-Token';
+
+export const ADMIN_TOKEN_REQUIRED_MESSAGE = `未配置 Clerk 时，管理接口须在 ${ADMIN_TOKEN_HEADER} 请求头提供 ADMIN_TOKEN。`;
+
+export function hasAdminToken(req: IncomingMessage): boolean {
+  const expected = (process.env.ADMIN_TOKEN || '').trim();
+  const raw = req.headers[ADMIN_TOKEN_HEADER.toLowerCase()];
+  const given = ((Array.isArray(raw) ? raw[0] : raw) ?? '').trim();
+  if (!expected || !given) return false;
+  // 先取摘要再比较，长度不同也不会提前返回
+  const a = crypto.createHash('sha256').update(given).digest();
+  const b = crypto.createHash('sha256').update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
@@ -0,0 +1,48 @@
+/**
+ * 段落对齐校验：模型偶尔少返回、合并或拆分段落，译文会整体错位到别的原文下。
+ * 这里按返回条数与「译文/原文长度比」找出可疑段落，由 translationJob 逐段重译修复。
+ */
+
+/** 原文太短（标题、对白）时长度比没有参考价值 */
+const MIN_CHARS_FOR_RATIO = 40;
+/** 相对本块长度比中位数的偏离阈值：合并段落约为 2 倍，拆分后的残段明显偏短 */
+const RATIO_HIGH = 2.2;
+const RATIO_LOW = 0.4;
+/** 每块最多逐段重译的段落数，超出部分直接标记为未修复 */
+export const MAX_REPAIRS_PER_CHUNK = 24;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid]! : (sorted[mid - 1]! + sorted[mid]!) / 2;
+}
+
+/**
+ * 返回本块中需要重译的段落下标（块内下标）。
+ * - 条数一致：只挑出译文为空或长度比明显异常的段落
+ * - 条数不一致：从第一个异常段落起，之后的译文都已错位，全部返回
+ */
+export function findMisalignedParagraphs(sources: string[], translations: string[], rawCount: number): number[] {
+  const ratios = sources.map((src, i) => {
+    const s = src.trim();
+    const t = (translations[i] ?? '').trim();
+    return s.length >= MIN_CHARS_FOR_RATIO && t ? t.length / s.length : null;
+  });
+  const known = ratios.filter((r): r is number => r !== null);
+  const mid = known.length >= 3 ? median(known) : 0;
+
+  const isAnomalous = (i: number): boolean => {
+    if (!sources[i]!.trim()) return false;
+    if (!(translations[i] ?? '').trim()) return true;
+    const r = ratios[i];
+    if (r == null || mid <= 0) return false;
+    return r / mid > RATIO_HIGH || r / mid < RATIO_LOW;
+  };
+
+  if (rawCount !== sources.length) {
+    const first = sources.findIndex((_, i) => isAnomalous(i));
+    if (first === -1) return [];
+    return sources.map((_, i) => i).filter((i) => i >= first && sources[i]!.trim());
+  }
+  return sources.map((_, i) => i).filter(isAnomalous);
+}
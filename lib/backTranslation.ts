@@ -0,0 +1,179 @@
+/**
+ * 回译质检：把译文逐段译回原文语言，用 chrF（字符 n-gram F 值，不依赖向量模型）与原文比对，
+ * 分数低的段落多半漏译、误译或与原文错位。前端据分数在阅读器左侧显示色条并可只看低分段落。
+ * 评分与分档不依赖 Node 模块，前端也会引用。
+ */
+import { CHUNK_SIZE, normalizeTranslationToArray, stripParagraphMarkers } from './translationPipeline.js';
+import { getLanguage, isExtraTargetLanguage, isSourceLanguage, languagePromptName } from './languages.js';
+import { isAbortError } from './llmScheduler.js';
+import type { CallModel } from './translationJob.js';
+import type { UsageMeter } from './llmUsage.js';
+
+/** 单段质检结果；score 为 0–100 的 chrF */
+export type ParagraphQa = { score: number; backTranslation: string };
+
+export type QaLevel = 'good' | 'fair' | 'low';
+
+/** 回译难免换词，完好的段落 chrF 通常在 45 以上；低于 30 基本可以判定意思走样 */
+export const QA_SCORE_GOOD = 45;
+export const QA_SCORE_LOW = 30;
+
+export function qaLevel(score: number): QaLevel {
+  if (score >= QA_SCORE_GOOD) return 'good';
+  return score >= QA_SCORE_LOW ? 'fair' : 'low';
+}
+
+/** 单次质检的段落数与字数（原文 + 译文）上限：一次请求只扣一次配额，不能无限分批调用模型 */
+const MAX_QA_PAIRS = 1000;
+const MAX_QA_CHARS = 200_000;
+
+const CHRF_MAX_N = 6;
+/** 中日韩文一字即一词，6-gram 对语序过于敏感，改用 3-gram */
+const CJK_CHRF_MAX_N = 3;
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]/g;
+/** β=2：召回率权重为精确率的两倍，漏译比多译扣分更重 */
+const CHRF_BETA = 2;
+
+function charNgrams(chars: string[], n: number): Map<string, number> {
+  const grams = new Map<string, number>();
+  for (let i = 0; i + n <= chars.length; i++) {
+    const g = chars.slice(i, i + n).join('');
+    grams.set(g, (grams.get(g) ?? 0) + 1);
+  }
+  return grams;
+}
+
+/** chrF（忽略空白与大小写），返回 0–100；两段都为空时视为一致 */
+export function chrF(reference: string, hypothesis: string): number {
+  const ref = [...reference.toLowerCase().replace(/\s+/g, '')];
+  const hyp = [...hypothesis.toLowerCase().replace(/\s+/g, '')];
+  if (ref.length === 0 && hyp.length === 0) return 100;
+  if (ref.length === 0 || hyp.length === 0) return 0;
+  const cjk = (reference.match(CJK_CHAR) ?? []).length / ref.length > 0.3;
+  const maxN = cjk ? CJK_CHRF_MAX_N : CHRF_MAX_N;
+  let precisionSum = 0;
+  let recallSum = 0;
+  let orders = 0;
+  for (let n = 1; n <= maxN; n++) {
+    const refGrams = charNgrams(ref, n);
+    const hypGrams = charNgrams(hyp, n);
+    if (refGrams.size === 0 || hypGrams.size === 0) break;
+    let overlap = 0;
+    for (const [g, count] of hypGrams) overlap += Math.min(count, refGrams.get(g) ?? 0);
+    precisionSum += overlap / (hyp.length - n + 1);
+    recallSum += overlap / (ref.length - n + 1);
+    orders++;
+  }
+  const p = precisionSum / orders;
+  const r = recallSum / orders;
+  if (p === 0 && r === 0) return 0;
+  const b2 = CHRF_BETA * CHRF_BETA;
+  return Math.round(((1 + b2) * p * r) / (b2 * p + r) * 1000) / 10;
+}
+
+/** 回译要求直译：不润色、不纠正译文中的错误，这样与原文的差异才能反映译文问题 */
+export function buildBackTranslationPrompt(translations: string[], fromLang: string, toLang: string): string {
+  const target = getLanguage(toLang);
+  const targetName = target?.targetName ?? target?.name ?? '原文语言';
+  return `以下是一段译文的各个段落，请逐段直译回${targetName}，用于与原文比对质量。
+要求：忠实于译文字面，不要润色，不要补全或纠正译文中可能的错误、遗漏，不要解释。
+仅输出 JSON，格式如下（不要多余文字）。translation 数组顺序与输入一一对应：
+{
+  "translation": ["第 1 段回译", "第 2 段回译", "..."]
+}
+
+待回译的${languagePromptName(fromLang, '译文')}段落（保持顺序）：
+${translations.map((t, i) => `# Paragraph ${i + 1}\n${t}`).join('\n\n')}`.trim();
+}
+
+export type BackTranslationRequest = {
+  /** 与阅读器 content 逐行对应；译文为空的段落不质检 */
+  pairs: { source: string; translation: string }[];
+  sourceLang: string;
+  targetLang: string;
+};
+
+/** 校验 /api/back-translate 请求体；失败时返回面向用户的错误信息（HTTP 400） */
+export function parseBackTranslationRequest(body: unknown): BackTranslationRequest | { error: string } {
+  const { pairs, sourceLang, targetLang } = (body || {}) as { pairs?: unknown; sourceLang?: unknown; targetLang?: unknown };
+  if (!Array.isArray(pairs) || pairs.length === 0) return { error: 'pairs is required' };
+  if (pairs.length > MAX_QA_PAIRS) return { error: `回译质检一次最多 ${MAX_QA_PAIRS} 段，请分篇质检` };
+  const src = String(sourceLang ?? '').trim();
+  const tgt = String(targetLang ?? '').trim();
+  if (!isSourceLanguage(src)) return { error: '不支持的原文语言' };
+  if (!isExtraTargetLanguage(tgt)) return { error: '该译文语言不支持回译质检' };
+  if (src === tgt) return { error: '原文与译文语言相同，无需回译质检' };
+  const normalized = pairs.map((p) => {
+    const o = (p || {}) as { source?: unknown; translation?: unknown };
+    return { source: String(o.source ?? ''), translation: String(o.translation ?? '') };
+  });
+  const totalChars = normalized.reduce((n, p) => n + p.source.length + p.translation.length, 0);
+  if (totalChars > MAX_QA_CHARS) return { error: `回译质检一次最多 ${MAX_QA_CHARS} 字（原文与译文合计），请分篇质检` };
+  return {
+    pairs: normalized,
+    sourceLang: src,
+    targetLang: tgt,
+  };
+}
+
+/** 按字数把待回译的段落下标分批（不拆段，保证结果与段落一一对应） */
+function groupForBackTranslation(indexes: number[], lengthOf: (i: number) => number): number[][] {
+  const groups: number[][] = [];
+  let current: number[] = [];
+  let size = 0;
+  for (const i of indexes) {
+    const len = lengthOf(i);
+    if (size + len > CHUNK_SIZE && current.length > 0) {
+      groups.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(i);
+    size += len;
+  }
+  if (current.length > 0) groups.push(current);
+  return groups;
+}
+
+/**
+ * 分批并行回译并评分，结果与 pairs 逐项对应；译文为空、该批失败或返回条数不符的段落为 null。
+ * 全部批次都失败时抛出第一个错误；取消时抛出 AbortError。
+ */
+export async function runBackTranslation(
+  request: BackTranslationRequest,
+  callModel: CallModel,
+  { signal, usage }: { signal?: AbortSignal; usage?: UsageMeter } = {}
+): Promise<(ParagraphQa | null)[]> {
+  const { pairs, sourceLang, targetLang } = request;
+  const results: (ParagraphQa | null)[] = pairs.map(() => null);
+  const indexes = pairs.map((_, i) => i).filter((i) => pairs[i]!.translation.trim() && pairs[i]!.source.trim());
+  const groups = groupForBackTranslation(indexes, (i) => pairs[i]!.translation.length);
+  const errors: unknown[] = [];
+
+  await Promise.all(
+    groups.map(async (group) => {
+      try {
+        const prompt = buildBackTranslationPrompt(
+          group.map((i) => pairs[i]!.translation),
+          targetLang,
+          sourceLang
+        );
+        const json = await callModel(prompt, { signal, onUsage: (u) => usage?.record('qa', u) });
+        const back = normalizeTranslationToArray(json.translation, group.length);
+        // 条数不符时无法确定对应关系，整批不评分
+        if (back.length !== group.length) return;
+        group.forEach((paraIndex, j) => {
+          const text = stripParagraphMarkers(String(back[j] ?? ''));
+          results[paraIndex] = { score: chrF(pairs[paraIndex]!.source, text), backTranslation: text };
+        });
+      } catch (err: unknown) {
+        errors.push(err);
+      }
+    })
+  );
+
+  const aborted = errors.find(isAbortError);
+  if (aborted) throw aborted;
+  if (groups.length > 0 && errors.length === groups.length) throw errors[0];
+  return results;
+}
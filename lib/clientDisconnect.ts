@@ -0,0 +1,13 @@
+import type { ServerResponse } from 'http';
+
+/**
+ * 客户端在响应结束前断开（关闭页面、点击取消）时中止返回的 signal，
+ * 用于停止剩余的模型调用。正常结束后的 close 不会触发。
+ */
+export function abortOnClientDisconnect(res: ServerResponse): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+}
@@ -0,0 +1,97 @@
+/**
+ * 用户术语表：原文术语 → 指定译法，按语言对区分。
+ * 前端按当前语言对筛选后随翻译请求发送；服务端注入提示词并在合并后检查是否按术语表译出。
+ * 前端也用 checkGlossaryCompliance 对已有正文（含历史记录）做同样的标记。
+ */
+
+export type GlossaryEntry = { source: string; target: string };
+
+/** 存储用的完整条目（localStorage / Neon glossary_terms 表） */
+export type GlossaryTerm = GlossaryEntry & {
+  id: string;
+  sourceLang: string;
+  targetLang: string;
+  createdAt: number;
+};
+
+export type GlossaryIssue = { paraIndex: number; source: string; target: string };
+
+/** 单次请求最多携带的术语数，避免提示词膨胀 */
+export const MAX_GLOSSARY_ENTRIES = 300;
+
+/** 校验请求体中的术语表：去空白、去重（同一原文以先出现者为准） */
+export function normalizeGlossary(raw: unknown): GlossaryEntry[] {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  const out: GlossaryEntry[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') continue;
+    const source = String((item as GlossaryEntry).source ?? '').trim();
+    const target = String((item as GlossaryEntry).target ?? '').trim();
+    if (!source || !target || seen.has(source.toLowerCase())) continue;
+    seen.add(source.toLowerCase());
+    out.push({ source, target });
+    if (out.length >= MAX_GLOSSARY_ENTRIES) break;
+  }
+  return out;
+}
+
+/** 不以空格分词的文字（中日韩、泰文等）：术语常紧贴前后文字，只能按子串匹配 */
+const UNSPACED_CHAR =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+const WORD_CHAR = /[\p{L}\p{M}\p{N}_]/u;
+
+const isSpacedWordChar = (ch: string | undefined): boolean => ch !== undefined && WORD_CHAR.test(ch) && !UNSPACED_CHAR.test(ch);
+
+/**
+ * 不区分大小写。拉丁、西里尔等以空格分词的术语须整词出现（cat 不匹配 category），
+ * 两侧紧邻的是中日韩文字或标点时仍算词界；中日韩等术语按子串匹配。
+ */
+function containsTerm(text: string, term: string): boolean {
+  const haystack = text.toLowerCase();
+  const needle = term.toLowerCase();
+  if (!needle) return false;
+  const checkStart = isSpacedWordChar(needle[0]);
+  const checkEnd = isSpacedWordChar(needle[needle.length - 1]);
+  for (let at = haystack.indexOf(needle); at !== -1; at = haystack.indexOf(needle, at + 1)) {
+    if (checkStart && isSpacedWordChar(haystack[at - 1])) continue;
+    if (checkEnd && isSpacedWordChar(haystack[at + needle.length])) continue;
+    return true;
+  }
+  return false;
+}
+
+/** 只保留在这些段落中出现过的术语，每块提示词只带相关条目 */
+export function selectGlossaryForParagraphs(glossary: GlossaryEntry[], paragraphs: string[]): GlossaryEntry[] {
+  if (glossary.length === 0) return [];
+  const text = paragraphs.join('\n');
+  return glossary.filter((g) => containsTerm(text, g.source));
+}
+
+export function buildGlossaryPromptBlock(entries: GlossaryEntry[]): string {
+  if (entries.length === 0) return '';
+  return `【术语表】以下术语必须严格按指定译法翻译，不得改写或音译为其他形式：
+${entries.map((g) => `- ${g.source} → ${g.target}`).join('\n')}`;
+}
+
+/**
+ * 检查译文是否按术语表译出：原文含某术语而对应译文不含指定译法即记为问题。
+ * paraIndexOffset 用于分块检查时换算为全文下标。
+ */
+export function checkGlossaryCompliance(
+  pairs: { source: string; translation: string }[],
+  glossary: GlossaryEntry[],
+  paraIndexOffset = 0
+): GlossaryIssue[] {
+  if (glossary.length === 0) return [];
+  const issues: GlossaryIssue[] = [];
+  pairs.forEach((p, i) => {
+    if (!p.translation.trim()) return;
+    for (const g of glossary) {
+      if (containsTerm(p.source, g.source) && !containsTerm(p.translation, g.target)) {
+        issues.push({ paraIndex: paraIndexOffset + i, source: g.source, target: g.target });
+      }
+    }
+  });
+  return issues;
+}
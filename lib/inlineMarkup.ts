@@ -0,0 +1,124 @@
+/**
+ * 段内格式（加粗、斜体、链接、脚注标记等）随译文保留：导入 docx / PDF 时把格式写成占位标签，
+ * 如 `<b>…</b>`、`<a2>…</a2>`（链接地址存于请求的 links 表，第 2 条），提示词要求模型原样保留；
+ * 服务端把标签从原文与译文中剥离为纯文本 + 偏移（marks），阅读器与 docx 导出据此还原格式。
+ * 搜索、批注与句子对齐都基于纯文本，不受标签影响。本文件不依赖 Node 模块，前端也会引用。
+ */
+
+export type InlineMarkType = 'b' | 'i' | 'u' | 'sup' | 'sub' | 'fn' | 'a';
+
+/** 纯文本中 [start, end) 区间的格式；a 为链接，附 href */
+export type InlineMark = { type: InlineMarkType; start: number; end: number; href?: string };
+
+/** 原文栏与译文栏各自的格式（偏移相对各栏纯文本） */
+export type InlineMarks = { source: InlineMark[]; target: InlineMark[] };
+
+/** 单次请求最多携带的链接数 */
+export const MAX_INLINE_LINKS = 500;
+
+const TAG_PATTERN = /<(\/?)(b|i|u|sup|sub|fn|a(\d{1,3}))>/g;
+/** 非全局版本，供 test 使用（全局正则的 test 会改动 lastIndex，进而影响 matchAll） */
+const TAG_TEST = new RegExp(TAG_PATTERN.source);
+
+export function hasInlineMarkup(text: string): boolean {
+  return TAG_TEST.test(text);
+}
+
+export function stripInlineMarkup(text: string): string {
+  return text.replace(TAG_PATTERN, '');
+}
+
+/** 只接受 http(s) 与 mailto 链接，其余（javascript: 等）丢弃 */
+export function normalizeInlineLinks(raw: unknown): string[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.slice(0, MAX_INLINE_LINKS).map((v) => {
+    const href = String(v ?? '').trim();
+    return /^(https?:\/\/|mailto:)/i.test(href) ? href : '';
+  });
+}
+
+/**
+ * 剥离占位标签，返回纯文本与格式偏移。容错：未闭合、多余的闭合标签直接丢弃，
+ * 交错嵌套（模型偶尔写成 `<b><i>x</b></i>`）按各自的起止处理；链接编号在 links 中找不到时不保留链接。
+ */
+export function parseInlineMarkup(tagged: string, links: string[] = []): { text: string; marks: InlineMark[] } {
+  const open: { name: string; start: number }[] = [];
+  const marks: InlineMark[] = [];
+  let text = '';
+  let last = 0;
+  for (const m of tagged.matchAll(TAG_PATTERN)) {
+    text += tagged.slice(last, m.index);
+    last = m.index! + m[0].length;
+    const name = m[2]!;
+    if (!m[1]) {
+      open.push({ name, start: text.length });
+      continue;
+    }
+    const at = open.map((o) => o.name).lastIndexOf(name);
+    if (at === -1) continue;
+    const { start } = open.splice(at, 1)[0]!;
+    if (start === text.length) continue;
+    if (m[3]) {
+      const href = links[Number(m[3]) - 1];
+      if (href) marks.push({ type: 'a', start, end: text.length, href });
+    } else {
+      marks.push({ type: name as InlineMarkType, start, end: text.length });
+    }
+  }
+  text += tagged.slice(last);
+  return { text, marks: marks.sort((a, b) => a.start - b.start || b.end - a.end) };
+}
+
+/**
+ * parseInlineMarkup 的逆过程：把纯文本与格式重新写成占位标签（用于补译、换译文语言时重发原文）。
+ * 链接追加到 links（相同地址复用编号）。
+ */
+export function serializeInlineMarkup(text: string, marks: InlineMark[] | undefined, links: string[]): string {
+  const valid = (marks ?? []).filter((m) => m.start >= 0 && m.start < m.end && m.end <= text.length);
+  if (valid.length === 0) return text;
+  const tagOf = (m: InlineMark): string | null => {
+    if (m.type !== 'a') return m.type;
+    if (!m.href) return null;
+    let n = links.indexOf(m.href);
+    if (n === -1) n = links.push(m.href) - 1;
+    return `a${n + 1}`;
+  };
+  const tagged = valid.map((m) => ({ ...m, tag: tagOf(m) })).filter((m) => m.tag);
+  let out = '';
+  let cursor = 0;
+  const points = [...new Set(tagged.flatMap((m) => [m.start, m.end]))].sort((a, b) => a - b);
+  for (const p of points) {
+    out += text.slice(cursor, p);
+    cursor = p;
+    // 先闭合（后开的先闭合），再开启（长的先开），尽量保持嵌套
+    tagged.filter((m) => m.end === p).sort((a, b) => b.start - a.start).forEach((m) => (out += `</${m.tag}>`));
+    tagged.filter((m) => m.start === p).sort((a, b) => b.end - a.end).forEach((m) => (out += `<${m.tag}>`));
+  }
+  return out + text.slice(cursor);
+}
+
+/** 把 [from, to) 按格式边界切段，每段附带覆盖它的格式；breaks 为额外切点（如批注、搜索命中边界） */
+export function splitByInlineMarks(
+  marks: InlineMark[] | undefined,
+  from: number,
+  to: number,
+  breaks: number[] = []
+): { start: number; end: number; marks: InlineMark[] }[] {
+  const inRange = (marks ?? []).filter((m) => m.start < to && m.end > from);
+  const points = [
+    ...new Set([from, to, ...breaks, ...inRange.flatMap((m) => [m.start, m.end])].filter((p) => p >= from && p <= to)),
+  ].sort((a, b) => a - b);
+  const out: { start: number; end: number; marks: InlineMark[] }[] = [];
+  for (let k = 0; k + 1 < points.length; k++) {
+    const start = points[k]!;
+    const end = points[k + 1]!;
+    out.push({ start, end, marks: inRange.filter((m) => m.start <= start && m.end >= end) });
+  }
+  return out;
+}
+
+/** 译文提示词中的格式说明；仅当本块原文含占位标签时加入 */
+export const INLINE_MARKUP_PROMPT_BLOCK = `【格式标签】原文中的 <b> </b>（加粗）、<i> </i>（斜体）、<u> </u>（下划线）、<sup> </sup> / <sub> </sub>（上下标）、<a1> </a1> 等（链接，数字为编号）、<fn> </fn>（脚注标记）是格式占位标签：
+- 译文中须保留同样的标签，包住与原文对应的词语，不增不减，编号不变
+- <fn> 内的脚注编号原样照抄，不要翻译
+- 标签之外的文字正常翻译`;
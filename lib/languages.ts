@@ -0,0 +1,393 @@
+/**
+ * 语言注册表：原文 / 译文可选语言、界面名称、提示词写法、原文语种识别与段落对布局都由这一张表生成。
+ * 新增语言只需在 LANGUAGES 中加一行；服务端（translationPipeline）与前端（App、导出）共用。
+ */
+
+/** 段落对布局：to_en 时译文存于 en 字段、原文存于 zh 字段；其余译文存于 zh 字段（历史数据格式，不可改） */
+export type PairLayout = 'to_cjk' | 'to_en';
+
+/**
+ * 原文语种识别线索，二者任选：
+ * - chars：特征字符（文字系统或专有字母），数量 ≥ minChars 或占比 > minRatio 即命中；
+ *   refines 表示只在另一语言已命中时用于细分（如繁体之于中文）
+ * - words：高频虚词，拉丁字母语言按命中率比较
+ */
+type DetectHint = {
+  chars?: RegExp;
+  minChars?: number;
+  minRatio?: number;
+  refines?: string;
+  /** 越小越先判断；汉字与日文共用，须排在假名之后 */
+  priority?: number;
+  words?: string[];
+};
+
+type LanguageEntry = {
+  code: string;
+  /** 界面显示名（该语言自己的写法） */
+  label: string;
+  /** 提示词中的中文名称 */
+  name: string;
+  /** 作为译文语言时提示词里的写法，缺省同 name */
+  targetName?: string;
+  /** 译为该语言时追加的书写要求 */
+  targetRule?: string;
+  /** 提示词 JSON 示例中的占位词 */
+  sample: string;
+  layout: PairLayout;
+  source: boolean;
+  target: boolean;
+  rtl?: boolean;
+  /** 先译成该语言再由服务端编码（摩斯 / AKI码） */
+  pivot?: string;
+  detect?: DetectHint;
+};
+
+const TRADITIONAL_CHARS =
+  /[與個從來為說這還種麼對應學關點開國問題數經現實請過當無電業長門時書車東見發會費買義馬區陽連運達邊選識護機號環傳聞製紐統際談變農術認觀議質輸辦導歡歷齊齒壞搖損撥擊則競級約臺灣匯整資訊]/g;
+
+export const LANGUAGES = [
+  {
+    code: 'zh',
+    label: '简体中文',
+    name: '中文',
+    targetName: '简体中文',
+    sample: '中文',
+    layout: 'to_cjk',
+    source: true,
+    target: true,
+    detect: { chars: /[\u4e00-\u9fff\u3400-\u4dbf]/g, minRatio: 0.12, priority: 1 },
+  },
+  {
+    code: 'zh-TW',
+    label: '繁體中文',
+    name: '繁体中文',
+    targetName: '繁体中文（台湾正体）',
+    targetRule:
+      '必须使用台湾常用繁体字形（如「臺灣、資訊、匯整」），严禁使用大陆简体字（如「台湾、信息、汇总」）；译文中的汉字不得采用简体中文写法。',
+    sample: '繁體',
+    layout: 'to_cjk',
+    source: true,
+    target: true,
+    detect: { chars: TRADITIONAL_CHARS, minChars: 4, refines: 'zh' },
+  },
+  {
+    code: 'en',
+    label: 'English',
+    name: '英文',
+    sample: 'English',
+    layout: 'to_en',
+    source: true,
+    target: true,
+    detect: { words: ['the', 'and', 'of', 'to', 'is', 'was', 'that', 'with', 'for', 'it', 'he', 'she', 'you', 'not', 'but'] },
+  },
+  {
+    code: 'ja',
+    label: '日本語',
+    name: '日文',
+    targetName: '日文（自然、地道的现代日语）',
+    sample: '日本語',
+    layout: 'to_cjk',
+    source: true,
+    target: true,
+    detect: { chars: /[\u3040-\u309f\u30a0-\u30ff]/g, minChars: 8, minRatio: 0.04 },
+  },
+  {
+    code: 'ko',
+    label: '한국어',
+    name: '韩文',
+    targetName: '韩文（自然的现代韩语，使用谚文书写）',
+    sample: '한국어',
+    layout: 'to_cjk',
+    source: true,
+    target: true,
+    detect: { chars: /[\uac00-\ud7af\u1100-\u11ff]/g, minChars: 8, minRatio: 0.04 },
+  },
+  {
+    code: 'fr',
+    label: 'Français',
+    name: '法文',
+    targetName: '法语',
+    sample: 'Français',
+    layout: 'to_cjk',
+    source: true,
+    target: true,
+    detect: { words: ['le', 'les', 'des', 'est', 'et', 'une', 'dans', 'pour', 'pas', 'qui', 'avec', 'sur', 'du', 'au', 'je', 'il', 'elle', 'ce', 'ne'] },
+  },
+  {
+    code: 'de',
+    label: 'Deutsch',
+    name: '德文',
+    targetName: '德语',
+    sample: 'Deutsch',
+    layout: 'to_cjk',
+    source: true,
+    target: true,
+    detect: { words: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'zu', 'den', 'mit', 'sich', 'auf', 'ich', 'dem', 'sie', 'war'] },
+  },
+  {
+    code: 'es',
+    label: 'Español',
+    name: '西班牙文',
+    targetName: '西班牙语',
+    sample: 'Español',
+    layout: 'to_cjk',
+    source: true,
+    target: true,
+    detect: { words: ['el', 'los', 'las', 'que', 'y', 'en', 'por', 'con', 'una', 'para', 'es', 'del', 'pero', 'se', 'lo', 'su', 'como', 'muy'] },
+  },
+  {
+    code: 'it',
+    label: 'Italiano',
+    name: '意大利文',
+    targetName: '意大利语',
+    sample: 'Italiano',
+    layout: 'to_cjk',
+    source: true,
+    target: true,
+    detect: { words: ['il', 'che', 'di', 'e', 'un', 'una', 'per', 'non', 'con', 'sono', 'della', 'gli', 'nel', 'è', 'si', 'ma', 'anche'] },
+  },
+  {
+    code: 'pt',
+    label: 'Português',
+    name: '葡萄牙文',
+    targetName: '葡萄牙语',
+    sample: 'Português',
+    layout: 'to_cjk',
+    source: true,
+    target: true,
+    detect: { words: ['o', 'os', 'que', 'não', 'um', 'uma', 'para', 'com', 'em', 'do', 'da', 'são', 'é', 'você', 'mas', 'ao', 'das'] },
+  },
+  {
+    code: 'nl',
+    label: 'Nederlands',
+    name: '荷兰文',
+    targetName: '荷兰语',
+    sample: 'Nederlands',
+    layout: 'to_cjk',
+    source: true,
+    target: true,
+    detect: { words: ['het', 'een', 'en', 'van', 'ik', 'niet', 'dat', 'op', 'te', 'zijn', 'met', 'je', 'maar', 'ook', 'wat', 'er'] },
+  },
+  {
+    code: 'pl',
+    label: 'Polski',
+    name: '波兰文',
+    targetName: '波兰语',
+    sample: 'Polski',
+    layout: 'to_cjk',
+    source: true,
+    target: true,
+    detect: { chars: /[ąćęłńśźżĄĆĘŁŃŚŹŻ]/g, minRatio: 0.008 },
+  },
+  {
+    code: 'ru',
+    label: 'Русский',
+    name: '俄文',
+    targetName: '俄语',
+    sample: 'Русский',
+    layout: 'to_cjk',
+    source: true,
+    target: true,
+    detect: { chars: /[\u0400-\u04ff]/g, minChars: 8, minRatio: 0.04 },
+  },
+  {
+    code: 'uk',
+    label: 'Українська',
+    name: '乌克兰文',
+    targetName: '乌克兰语',
+    sample: 'Українська',
+    layout: 'to_cjk',
+    source: true,
+    target: true,
+    detect: { chars: /[іїєґІЇЄҐ]/g, minChars: 3, refines: 'ru' },
+  },
+  {
+    code: 'tr',
+    label: 'Türkçe',
+    name: '土耳其文',
+    targetName: '土耳其语',
+    sample: 'Türkçe',
+    layout: 'to_cjk',
+    source: true,
+    target: true,
+    detect: { chars: /[ğışİĞŞ]/g, minRatio: 0.008 },
+  },
+  {
+    code: 'vi',
+    label: 'Tiếng Việt',
+    name: '越南文',
+    targetName: '越南语',
+    sample: 'Tiếng Việt',
+    layout: 'to_cjk',
+    source: true,
+    target: true,
+    detect: { chars: /[ăđơưạảấầẩẫậắằẳẵặẹẻẽếềểễệỉịọỏốồổỗộớờởỡợụủứừửữựỳỵỷỹĂĐƠƯ]/g, minRatio: 0.02 },
+  },
+  {
+    code: 'id',
+    label: 'Bahasa Indonesia',
+    name: '印尼文',
+    targetName: '印度尼西亚语',
+    sample: 'Indonesia',
+    layout: 'to_cjk',
+    source: true,
+    target: true,
+    detect: { words: ['yang', 'dan', 'di', 'itu', 'dengan', 'untuk', 'tidak', 'ini', 'dari', 'dalam', 'akan', 'ke', 'ada', 'saya'] },
+  },
+  {
+    code: 'th',
+    label: 'ไทย',
+    name: '泰文',
+    targetName: '泰语',
+    sample: 'ไทย',
+    layout: 'to_cjk',
+    source: true,
+    target: true,
+    detect: { chars: /[\u0e00-\u0e7f]/g, minChars: 8, minRatio: 0.04 },
+  },
+  {
+    code: 'hi',
+    label: 'हिन्दी',
+    name: '印地文',
+    targetName: '印地语（天城文书写）',
+    sample: 'हिन्दी',
+    layout: 'to_cjk',
+    source: true,
+    target: true,
+    detect: { chars: /[\u0900-\u097f]/g, minChars: 8, minRatio: 0.04 },
+  },
+  {
+    code: 'ar',
+    label: 'العربية',
+    name: '阿拉伯文',
+    targetName: '现代标准阿拉伯语',
+    targetRule: '使用阿拉伯字母书写。',
+    sample: 'العربية',
+    layout: 'to_cjk',
+    source: true,
+    target: true,
+    rtl: true,
+    detect: { chars: /[\u0600-\u06ff]/g, minChars: 8, minRatio: 0.04 },
+  },
+  {
+    code: 'morse',
+    label: '摩斯密码',
+    name: '摩斯密码',
+    sample: 'English',
+    layout: 'to_cjk',
+    source: false,
+    target: true,
+    pivot: 'en',
+  },
+  {
+    code: 'aki',
+    label: 'AKI码',
+    name: 'AKI码',
+    sample: 'English',
+    layout: 'to_cjk',
+    source: false,
+    target: true,
+    pivot: 'en',
+  },
+] as const satisfies readonly LanguageEntry[];
+
+type RegisteredLanguage = (typeof LANGUAGES)[number];
+export type LanguageCode = RegisteredLanguage['code'];
+export type SourceLanguageCode = Extract<RegisteredLanguage, { source: true }>['code'];
+export type TargetLanguageCode = Extract<RegisteredLanguage, { target: true }>['code'];
+
+/** 一次任务除主译文外最多同时译成的语言数（阅读器最多显示原文 + 3 栏译文） */
+export const MAX_EXTRA_TARGETS = 2;
+
+/** 按宽类型遍历，便于读取可选字段 */
+const ENTRIES: readonly LanguageEntry[] = LANGUAGES;
+const BY_CODE = new Map<string, LanguageEntry>(ENTRIES.map((l) => [l.code, l]));
+
+export const SOURCE_LANGUAGE_CODES = LANGUAGES.filter((l) => l.source).map((l) => l.code) as SourceLanguageCode[];
+export const TARGET_LANGUAGE_CODES = LANGUAGES.filter((l) => l.target).map((l) => l.code) as TargetLanguageCode[];
+
+export function getLanguage(code: string): LanguageEntry | undefined {
+  return BY_CODE.get(code);
+}
+
+export function isSourceLanguage(code: string): code is SourceLanguageCode {
+  return BY_CODE.get(code)?.source === true;
+}
+
+export function isTargetLanguage(code: string): code is TargetLanguageCode {
+  return BY_CODE.get(code)?.target === true;
+}
+
+/** 界面显示名表（原文或译文可选项） */
+export function languageLabels(kind: 'source' | 'target'): Record<string, string> {
+  return Object.fromEntries(ENTRIES.filter((l) => l[kind]).map((l) => [l.code, l.label]));
+}
+
+/** 提示词中的语言名；未知代码按「外文」处理 */
+export function languagePromptName(code: string, fallback = '外文'): string {
+  return BY_CODE.get(code)?.name ?? fallback;
+}
+
+/** 实际送模型的译文语言：摩斯 / AKI码先译成 pivot 语言 */
+export function promptTargetLanguage(code: string): string {
+  return BY_CODE.get(code)?.pivot ?? code;
+}
+
+export function pairLayoutFor(targetCode: string): PairLayout {
+  return BY_CODE.get(targetCode)?.layout ?? 'to_cjk';
+}
+
+/** 可作为「同时译成」附加目标的语言：需经服务端编码的摩斯 / AKI码除外 */
+export function isExtraTargetLanguage(code: string): code is TargetLanguageCode {
+  const lang = BY_CODE.get(code);
+  return lang?.target === true && !lang.pivot;
+}
+
+export function isRtlLanguage(code: string): boolean {
+  return BY_CODE.get(code)?.rtl === true;
+}
+
+function countMatches(text: string, re: RegExp): number {
+  return (text.match(re) ?? []).length;
+}
+
+function hintMatches(hint: DetectHint, sample: string, total: number): boolean {
+  if (!hint.chars) return false;
+  const n = countMatches(sample, hint.chars);
+  return (hint.minChars !== undefined && n >= hint.minChars) || (hint.minRatio !== undefined && n / total > hint.minRatio);
+}
+
+/** 拉丁字母语言的虚词命中率下限，低于此值时回落为英文 */
+const MIN_WORD_HIT_RATIO = 0.05;
+
+/**
+ * 根据正文抽样推断原文语种：先按特征字符（文字系统、专有字母）判断，
+ * 再对拉丁字母文本比较各语言高频虚词的命中率；都不明显时视为英文。
+ */
+export function detectSourceLanguage(text: string): SourceLanguageCode {
+  const sample = text.slice(0, 6000);
+  const total = sample.replace(/\s/g, '').length;
+  if (total === 0) return 'en';
+
+  const byChars = ENTRIES.filter((l) => l.source && l.detect?.chars);
+  const primary = byChars
+    .filter((l) => !l.detect!.refines)
+    .sort((a, b) => (a.detect!.priority ?? 0) - (b.detect!.priority ?? 0));
+  for (const lang of primary) {
+    if (!hintMatches(lang.detect!, sample, total)) continue;
+    const variant = byChars.find((v) => v.detect!.refines === lang.code && hintMatches(v.detect!, sample, total));
+    return (variant ?? lang).code as SourceLanguageCode;
+  }
+
+  const words = sample.toLowerCase().match(/\p{L}+/gu) ?? [];
+  if (words.length === 0) return 'en';
+  let best: { code: string; ratio: number } = { code: 'en', ratio: 0 };
+  for (const lang of ENTRIES) {
+    if (!lang.source || !lang.detect?.words) continue;
+    const vocab = new Set(lang.detect.words);
+    const ratio = words.filter((w) => vocab.has(w)).length / words.length;
+    if (ratio > best.ratio) best = { code: lang.code, ratio };
+  }
+  return (best.ratio >= MIN_WORD_HIT_RATIO ? best.code : 'en') as SourceLanguageCode;
+}
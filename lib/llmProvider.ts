@@ -0,0 +1,242 @@
+/**
+ * LLM 提供方抽象：DeepSeek / 任意 OpenAI 兼容地址 / 本地 Ollama、llama.cpp。
+ * 所有端点（本地 server.ts 与 Vercel api/*）经此调用模型，换供应商只改环境变量。
+ *
+ * 环境变量：
+ *   LLM_PROVIDER   deepseek（默认）| openai | ollama
+ *   LLM_BASE_URL   OpenAI 兼容地址，需含 /v1（openai / ollama 必要时填写）
+ *   LLM_MODEL      模型名；未填时按 provider 取默认
+ *   LLM_API_KEY    密钥；deepseek 未填时回落 DEEPSEEK_API_KEY，ollama 可留空
+ *   LLM_JSON_MODE  设为 0 时不发送 response_format（部分本地服务不支持）
+ *   LLM_STREAM     设为 0 时不使用流式输出（逐字推送译文需要流式，部分本地服务不支持）
+ * 并发与重试见 llmScheduler.ts，用量统计见 llmUsage.ts。
+ */
+import JSON5 from "json5";
+import { parseRetryAfter, scheduleLlmCall, type ScheduleOptions } from "./llmScheduler.js";
+import { parseTokenUsage, type TokenUsage } from "./llmUsage.js";
+
+export type LlmProviderKind = "deepseek" | "openai" | "ollama";
+
+export interface LlmProvider {
+  kind: LlmProviderKind;
+  /** 展示在错误信息里的名称 */
+  label: string;
+  /** 不含结尾斜杠，形如 https://api.deepseek.com/v1 */
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+  jsonMode: boolean;
+  /** 调用方要求逐字输出（onText）时是否以 stream: true 请求 */
+  stream: boolean;
+  /** 密钥所在的环境变量名，用于 401 提示 */
+  keyEnvName: string;
+}
+
+export interface LlmJsonRequest {
+  system: string;
+  user: string;
+  maxTokens?: number;
+}
+
+/**
+ * 调度选项之外，onUsage 在调用成功后收到该次的 token 用量（响应不含 usage 时不回调）；
+ * onText 传入时以流式请求模型，每收到一段增量回调一次目前累计的原始文本；
+ * 调度器重试时新的一次从空文本重新累计，调用方需自行避免已显示的内容倒退
+ */
+export type LlmCallOptions = ScheduleOptions & {
+  onUsage?: (usage: TokenUsage) => void;
+  onText?: (text: string) => void;
+};
+
+const PROVIDER_DEFAULTS: Record<LlmProviderKind, { label: string; baseUrl: string; model: string; needsKey: boolean }> = {
+  deepseek: { label: "DeepSeek", baseUrl: "https://api.deepseek.com/v1", model: "deepseek-chat", needsKey: true },
+  openai: { label: "OpenAI 兼容接口", baseUrl: "https://api.openai.com/v1", model: "gpt-4o-mini", needsKey: true },
+  ollama: { label: "本地模型", baseUrl: "http://localhost:11434/v1", model: "qwen2.5:7b", needsKey: false },
+};
+
+const KEY_PLACEHOLDERS = ["YOUR_DEEPSEEK_API_KEY", "你的DeepSeek密钥", "你的密钥"];
+
+function normalizeProviderKind(raw: string | undefined): LlmProviderKind {
+  const r = (raw || "").trim().toLowerCase();
+  if (r === "openai" || r === "openai-compatible") return "openai";
+  if (r === "ollama" || r === "llamacpp" || r === "llama.cpp" || r === "local") return "ollama";
+  return "deepseek";
+}
+
+/**
+ * 按环境变量解析当前提供方；需要密钥却未配置（或仍是示例占位符）时返回 null，
+ * 由调用方返回各自的 503 提示。
+ */
+export function resolveLlmProvider(env: NodeJS.ProcessEnv = process.env): LlmProvider | null {
+  const kind = normalizeProviderKind(env.LLM_PROVIDER);
+  const defaults = PROVIDER_DEFAULTS[kind];
+  const explicitKey = (env.LLM_API_KEY || "").trim();
+  const deepseekKey = (env.DEEPSEEK_API_KEY || "").trim();
+  const apiKey = explicitKey || (kind === "deepseek" ? deepseekKey : "");
+  const keyEnvName = explicitKey || kind !== "deepseek" ? "LLM_API_KEY" : "DEEPSEEK_API_KEY";
+  if (defaults.needsKey && (!apiKey || KEY_PLACEHOLDERS.some((p) => apiKey.includes(p)))) return null;
+
+  const baseUrl = ((env.LLM_BASE_URL || "").trim() || defaults.baseUrl).replace(/\/+$/, "");
+  const model = (env.LLM_MODEL || "").trim() || defaults.model;
+  const jsonMode = (env.LLM_JSON_MODE || "").trim() !== "0";
+  const stream = (env.LLM_STREAM || "").trim() !== "0";
+  return { kind, label: defaults.label, baseUrl, model, apiKey, jsonMode, stream, keyEnvName };
+}
+
+/** 供缓存键等使用：同一提示词在不同模型下结果不同 */
+export function describeLlmProvider(provider: LlmProvider): string {
+  return `${provider.kind}:${provider.model}@${provider.baseUrl}`;
+}
+
+const sanitizeJson = (s: string) => s.replace(/,(\s*[\]}])/g, "$1");
+
+/** 容错解析模型输出的 JSON：裸 JSON → 去尾逗号 → JSON5 → 代码块 / 首个花括号 */
+export function parseModelJson(content: string): Record<string, unknown> {
+  try {
+    return JSON.parse(content || "{}");
+  } catch {}
+  try {
+    return JSON.parse(sanitizeJson(content));
+  } catch {}
+  try {
+    return JSON5.parse(content);
+  } catch {}
+  const m = content.match(/```(?:json)?\s*([\s\S]*?)```/) || content.match(/\{[\s\S]*\}/);
+  const extracted = m ? (m[1] ?? m[0]) : "{}";
+  try {
+    return JSON5.parse(extracted);
+  } catch {
+    return {};
+  }
+}
+
+/** 将提供方的 HTTP 错误转成面向用户的中文信息 */
+function describeLlmHttpError(provider: LlmProvider, status: number, text: string): string {
+  let userMsg = `${provider.label} API 调用失败`;
+  try {
+    const errJson = JSON.parse(text);
+    const apiErr = errJson?.error?.message || errJson?.message || errJson?.error;
+    if (apiErr) userMsg = typeof apiErr === "string" ? apiErr : String(apiErr);
+  } catch {}
+  if (status === 401) userMsg = `API Key 无效或已过期，请检查 ${provider.keyEnvName}`;
+  else if (status === 429) userMsg = "请求过于频繁，请稍后再试";
+  return userMsg;
+}
+
+/**
+ * 发送一次 chat completion，返回模型原始文本。经共享调度器排队，429 / 5xx 自动退避重试；
+ * 最终失败时抛出带用户提示的 Error（附 status / retryAfterMs）。
+ */
+export async function callLlmText(provider: LlmProvider, req: LlmJsonRequest, opts?: LlmCallOptions): Promise<string> {
+  const onText = provider.stream ? opts?.onText : undefined;
+  const { content, usage } = await scheduleLlmCall(() => requestChatCompletion(provider, req, opts?.signal, onText), opts);
+  if (usage) opts?.onUsage?.(usage);
+  return content;
+}
+
+async function requestChatCompletion(
+  provider: LlmProvider,
+  req: LlmJsonRequest,
+  signal?: AbortSignal,
+  onText?: (text: string) => void
+): Promise<{ content: string; usage: TokenUsage | null }> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (provider.apiKey) headers.Authorization = `Bearer ${provider.apiKey}`;
+  const response = await fetch(`${provider.baseUrl}/chat/completions`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({
+      model: provider.model,
+      messages: [
+        { role: "system", content: req.system },
+        { role: "user", content: req.user },
+      ],
+      ...(provider.jsonMode ? { response_format: { type: "json_object" } } : {}),
+      max_tokens: req.maxTokens ?? 8192,
+      ...(onText ? { stream: true, stream_options: { include_usage: true } } : {}),
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    console.error(`${provider.label} API error:`, response.status, text);
+    throw Object.assign(new Error(describeLlmHttpError(provider, response.status, text)), {
+      status: response.status,
+      retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+    });
+  }
+
+  if (onText && response.body) return readChatCompletionStream(provider, response.body, onText);
+  const data = (await response.json()) as { choices?: { message?: { content?: string } }[]; usage?: unknown };
+  return { content: data.choices?.[0]?.message?.content ?? "", usage: parseTokenUsage(data.usage) };
+}
+
+type ChatCompletionStreamChunk = {
+  choices?: { delta?: { content?: string | null } }[];
+  usage?: unknown;
+  error?: { message?: string } | string;
+};
+
+/**
+ * 读取 stream: true 的 SSE 响应：逐条累加 delta.content 并回调 onText；
+ * usage 在最后一条（stream_options.include_usage）中返回，不支持的服务视为无用量。
+ */
+async function readChatCompletionStream(
+  provider: LlmProvider,
+  body: ReadableStream<Uint8Array>,
+  onText: (text: string) => void
+): Promise<{ content: string; usage: TokenUsage | null }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let content = "";
+  let usage: TokenUsage | null = null;
+  const handleLine = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith("data:")) return;
+    const data = trimmed.slice(5).trim();
+    if (!data || data === "[DONE]") return;
+    let chunk: ChatCompletionStreamChunk;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      return;
+    }
+    // 流中途的错误（如上游过载）以 error 字段返回，按 503 交给调度器重试
+    if (chunk.error) {
+      const msg = typeof chunk.error === "string" ? chunk.error : chunk.error.message;
+      throw Object.assign(new Error(msg || `${provider.label} API 调用失败`), { status: 503 });
+    }
+    usage = parseTokenUsage(chunk.usage) ?? usage;
+    const delta = chunk.choices?.[0]?.delta?.content;
+    if (delta) {
+      content += delta;
+      onText(content);
+    }
+  };
+  // 解析出错、流中途报错或取消时释放连接
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      lines.forEach(handleLine);
+    }
+    handleLine(buffer + decoder.decode());
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+  return { content, usage };
+}
+
+/** 发送一次 chat completion 并按 JSON 解析 */
+export async function callLlmJson(
+  provider: LlmProvider,
+  req: LlmJsonRequest,
+  opts?: LlmCallOptions
+): Promise<Record<string, unknown>> {
+  return parseModelJson(await callLlmText(provider, req, opts));
+}
@@ -0,0 +1,146 @@
+/**
+ * 模型请求调度：进程内共享的并发上限，429 / 5xx / 网络错误时指数退避重试（带抖动，优先遵循 Retry-After）。
+ * 本地 server.ts 所有端点共用一个队列；Vercel 上每个函数实例各自一个队列。
+ *
+ * 环境变量：
+ *   LLM_MAX_CONCURRENCY  同时进行的模型请求数（默认 4）
+ *   LLM_MAX_RETRIES      可重试错误的最多重试次数（默认 4，设为 0 关闭重试）
+ */
+
+export interface ScheduleOptions {
+  /** 排队位置变化时回调：1 表示下一个执行，0 表示已开始执行 */
+  onQueuePosition?: (position: number) => void;
+  /** 任务取消（如客户端断开）：排队中的请求出队，进行中的请求中止，不再重试 */
+  signal?: AbortSignal;
+}
+
+/** callLlmText 抛出的 Error 上附带的 HTTP 信息（见 llmProvider.ts） */
+type LlmErrorInfo = { status?: number; retryAfterMs?: number };
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30_000;
+const MAX_RETRY_AFTER_MS = 60_000;
+
+function readIntEnv(name: string, fallback: number, min: number): number {
+  const n = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(n) && n >= min ? n : fallback;
+}
+
+type Waiter = { start: () => void; onQueuePosition?: (position: number) => void };
+
+/** 取消时抛出的错误；调用方用 isAbortError 区分取消与真正的失败 */
+export function createAbortError(): Error {
+  return Object.assign(new Error('翻译已取消'), { name: 'AbortError' });
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof Error && err.name === 'AbortError';
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw createAbortError();
+}
+
+const waiting: Waiter[] = [];
+let running = 0;
+
+function notifyQueuePositions() {
+  waiting.forEach((w, i) => w.onQueuePosition?.(i + 1));
+}
+
+function acquireSlot(onQueuePosition?: (position: number) => void, signal?: AbortSignal): Promise<void> {
+  throwIfAborted(signal);
+  if (running < readIntEnv('LLM_MAX_CONCURRENCY', 4, 1)) {
+    running++;
+    onQueuePosition?.(0);
+    return Promise.resolve();
+  }
+  return new Promise((resolve, reject) => {
+    const waiter: Waiter = {
+      start: () => {
+        signal?.removeEventListener('abort', onAbort);
+        onQueuePosition?.(0);
+        resolve();
+      },
+      onQueuePosition,
+    };
+    // 排队中被取消：直接出队，不占用槽位
+    function onAbort() {
+      const idx = waiting.indexOf(waiter);
+      if (idx === -1) return;
+      waiting.splice(idx, 1);
+      notifyQueuePositions();
+      reject(createAbortError());
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+    waiting.push(waiter);
+    onQueuePosition?.(waiting.length);
+  });
+}
+
+function releaseSlot() {
+  running--;
+  const next = waiting.shift();
+  if (next) {
+    running++;
+    next.start();
+    notifyQueuePositions();
+  }
+}
+
+/** 解析 Retry-After 响应头（秒数或 HTTP 日期），无法解析时返回 undefined */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const secs = Number(header.trim());
+  if (Number.isFinite(secs) && secs >= 0) return Math.min(secs * 1000, MAX_RETRY_AFTER_MS);
+  const at = Date.parse(header);
+  if (Number.isNaN(at)) return undefined;
+  return Math.min(Math.max(at - Date.now(), 0), MAX_RETRY_AFTER_MS);
+}
+
+/** 第 attempt 次失败后应等待的毫秒数；不可重试或次数用尽时返回 null */
+function retryDelayMs(err: unknown, attempt: number): number | null {
+  if (attempt >= readIntEnv('LLM_MAX_RETRIES', 4, 0)) return null;
+  const { status, retryAfterMs } = (err || {}) as LlmErrorInfo;
+  // 无 status 为 fetch 本身失败（连接重置等），同样重试
+  const retryable = status === undefined ? err instanceof TypeError : status === 429 || status >= 500;
+  if (!retryable) return null;
+  const cap = Math.min(BASE_DELAY_MS * 2 ** attempt, MAX_DELAY_MS);
+  const jittered = cap / 2 + Math.random() * (cap / 2);
+  return Math.max(jittered, retryAfterMs ?? 0);
+}
+
+/** 退避等待；取消时提前结束并抛出 AbortError */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/** 在并发上限内执行 task，可重试错误按退避策略重试；重试期间保持占用槽位，避免放大限流 */
+export async function scheduleLlmCall<T>(task: () => Promise<T>, opts: ScheduleOptions = {}): Promise<T> {
+  await acquireSlot(opts.onQueuePosition, opts.signal);
+  try {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await task();
+      } catch (err) {
+        if (opts.signal?.aborted) throw createAbortError();
+        const delay = retryDelayMs(err, attempt);
+        if (delay === null) throw err;
+        console.warn(`LLM request failed, retry ${attempt + 1} in ${Math.round(delay)}ms:`, err instanceof Error ? err.message : err);
+        await sleep(delay, opts.signal);
+      }
+    }
+  } finally {
+    releaseSlot();
+  }
+}
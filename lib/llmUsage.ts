@@ -0,0 +1,114 @@
+/**
+ * 模型用量统计：累计各次调用返回的 usage（prompt / completion tokens），按用途分类汇总。
+ * 翻译任务的汇总随 done 事件返回并存入历史记录；服务端另按用户记入用量日志（见 usageLog.ts）。
+ * 前端也会合并多次翻译的用量，因此本文件不依赖 Node 模块。
+ */
+
+/** 一次模型调用的用量 */
+export type TokenUsage = { promptTokens: number; completionTokens: number };
+
+export type UsageKind = 'translation' | 'analysis' | 'meme' | 'refine' | 'followup' | 'qa';
+
+export const USAGE_KINDS: UsageKind[] = ['translation', 'analysis', 'meme', 'refine', 'followup', 'qa'];
+
+export const USAGE_KIND_LABELS: Record<UsageKind, string> = {
+  translation: '翻译',
+  analysis: '分析',
+  meme: '梗',
+  refine: '润色',
+  followup: '追问',
+  qa: '回译质检',
+};
+
+export type UsageTotals = TokenUsage & { calls: number };
+
+export type UsageSummary = UsageTotals & {
+  totalTokens: number;
+  byKind: Partial<Record<UsageKind, UsageTotals>>;
+};
+
+export type UsageMeter = {
+  record(kind: UsageKind, usage: TokenUsage): void;
+  /** 并入另一份汇总（如续传时已存档块的用量） */
+  add(summary: UsageSummary | null | undefined): void;
+  summary(): UsageSummary;
+};
+
+const toCount = (v: unknown): number => {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? Math.round(n) : 0;
+};
+
+/** 读取 OpenAI 兼容响应中的 usage 字段；缺失时返回 null（部分本地服务不返回） */
+export function parseTokenUsage(raw: unknown): TokenUsage | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const u = raw as { prompt_tokens?: unknown; completion_tokens?: unknown };
+  if (u.prompt_tokens == null && u.completion_tokens == null) return null;
+  return { promptTokens: toCount(u.prompt_tokens), completionTokens: toCount(u.completion_tokens) };
+}
+
+export function createUsageMeter(): UsageMeter {
+  const byKind: Partial<Record<UsageKind, UsageTotals>> = {};
+  const addTotals = (kind: UsageKind, t: UsageTotals) => {
+    const cur = (byKind[kind] ??= { promptTokens: 0, completionTokens: 0, calls: 0 });
+    cur.promptTokens += t.promptTokens;
+    cur.completionTokens += t.completionTokens;
+    cur.calls += t.calls;
+  };
+  return {
+    record(kind, usage) {
+      addTotals(kind, { ...usage, calls: 1 });
+    },
+    add(summary) {
+      for (const kind of USAGE_KINDS) {
+        const t = summary?.byKind?.[kind];
+        if (t) addTotals(kind, t);
+      }
+    },
+    summary() {
+      const out: UsageSummary = { promptTokens: 0, completionTokens: 0, totalTokens: 0, calls: 0, byKind: {} };
+      for (const kind of USAGE_KINDS) {
+        const t = byKind[kind];
+        if (!t) continue;
+        out.byKind[kind] = { ...t };
+        out.promptTokens += t.promptTokens;
+        out.completionTokens += t.completionTokens;
+        out.calls += t.calls;
+      }
+      out.totalTokens = out.promptTokens + out.completionTokens;
+      return out;
+    },
+  };
+}
+
+/** 合并多份汇总；全部为空时返回 undefined */
+export function mergeUsage(...summaries: (UsageSummary | null | undefined)[]): UsageSummary | undefined {
+  if (!summaries.some(Boolean)) return undefined;
+  const meter = createUsageMeter();
+  summaries.forEach((s) => meter.add(s));
+  return meter.summary();
+}
+
+/** 校验请求体 / 数据库中的汇总，丢弃无法识别的字段 */
+export function normalizeUsageSummary(raw: unknown): UsageSummary | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const byKindRaw = (raw as { byKind?: unknown }).byKind;
+  if (!byKindRaw || typeof byKindRaw !== 'object') return null;
+  const meter = createUsageMeter();
+  const byKind: Partial<Record<UsageKind, UsageTotals>> = {};
+  for (const kind of USAGE_KINDS) {
+    const t = (byKindRaw as Record<string, { promptTokens?: unknown; completionTokens?: unknown; calls?: unknown } | undefined>)[kind];
+    if (!t || typeof t !== 'object') continue;
+    byKind[kind] = { promptTokens: toCount(t.promptTokens), completionTokens: toCount(t.completionTokens), calls: toCount(t.calls) };
+  }
+  meter.add({ promptTokens: 0, completionTokens: 0, totalTokens: 0, calls: 0, byKind });
+  const summary = meter.summary();
+  return summary.calls > 0 || summary.totalTokens > 0 ? summary : null;
+}
+
+/** 紧凑显示：1234 → 1.2k，1234567 → 1.23M */
+export function formatTokenCount(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(2)}M`;
+  if (n >= 1000) return `${(n / 1000).toFixed(1)}k`;
+  return String(n);
+}
@@ -0,0 +1,260 @@
+/**
+ * 段落级持久翻译缓存：按（段落原文、原文语言、译文语言、模型、提示词版本、文体、相关术语）命中，
+ * 重新导入改过的文档时只为改动的段落付费。本地 server 用 SQLite（better-sqlite3），Vercel 用 Neon。
+ *
+ * 环境变量：
+ *   PARAGRAPH_CACHE              sqlite | neon | off（默认：本地 sqlite，Vercel 有 DATABASE_URL 时 neon）
+ *   PARAGRAPH_CACHE_PATH         SQLite 文件路径（默认 .cache/paragraph-cache.db）
+ *   PARAGRAPH_CACHE_MAX_ENTRIES  最多保留条数，超出按最近命中时间淘汰（默认 50000）
+ *   PARAGRAPH_CACHE_TTL_DAYS     超过该天数未命中的条目淘汰（默认 90）
+ */
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { neon } from '@neondatabase/serverless';
+import { TRANSLATION_PROMPT_VERSION } from './translationPipeline.js';
+import type { GlossaryEntry } from './glossary.js';
+
+export type ParagraphCacheStats = {
+  backend: 'sqlite' | 'neon';
+  entries: number;
+  /** 所有条目累计命中次数（持久化） */
+  totalHits: number;
+  /** 本进程启动以来的命中 / 未命中段落数 */
+  sessionHits: number;
+  sessionMisses: number;
+  oldestEntryAt: number | null;
+  maxEntries: number;
+  ttlDays: number;
+};
+
+export interface ParagraphCache {
+  getMany(keys: string[]): Promise<Map<string, string>>;
+  putMany(entries: { key: string; translation: string }[]): Promise<void>;
+  stats(): Promise<ParagraphCacheStats>;
+  clear(): Promise<void>;
+}
+
+/** 底层存储只负责读写，统计与淘汰节流由 withCachePolicy 统一处理 */
+interface CacheBackend {
+  kind: 'sqlite' | 'neon';
+  get(keys: string[], now: number): Promise<Map<string, string>>;
+  put(entries: { key: string; translation: string }[], now: number): Promise<void>;
+  evict(maxEntries: number, expireBefore: number): Promise<void>;
+  counts(): Promise<{ entries: number; totalHits: number; oldestEntryAt: number | null }>;
+  clear(): Promise<void>;
+}
+
+const TABLE_SQL = `CREATE TABLE IF NOT EXISTS paragraph_cache (
+  key TEXT PRIMARY KEY,
+  translation TEXT NOT NULL,
+  created_at_ms BIGINT NOT NULL,
+  last_hit_at_ms BIGINT NOT NULL,
+  hit_count INTEGER NOT NULL DEFAULT 0
+)`;
+
+/** 两次淘汰之间至少间隔，避免每次写入都扫表 */
+const EVICT_INTERVAL_MS = 10 * 60 * 1000;
+
+function readIntEnv(name: string, fallback: number): number {
+  const n = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+/**
+ * 缓存键。glossary 只应包含在该段出现的术语（见 selectGlossaryForParagraphs），
+ * 这样改动术语表只会让相关段落失效。
+ */
+export function paragraphCacheKey(parts: {
+  text: string;
+  sourceLang: string;
+  targetLang: string;
+  model: string;
+  /** 文体预设与自定义要求 */
+  style: string;
+  glossary: GlossaryEntry[];
+}): string {
+  const payload = JSON.stringify([
+    TRANSLATION_PROMPT_VERSION,
+    parts.model,
+    parts.sourceLang,
+    parts.targetLang,
+    parts.style,
+    parts.glossary.map((g) => [g.source, g.target]),
+    parts.text,
+  ]);
+  return crypto.createHash('sha256').update(payload).digest('hex');
+}
+
+function withCachePolicy(backend: CacheBackend): ParagraphCache {
+  const maxEntries = readIntEnv('PARAGRAPH_CACHE_MAX_ENTRIES', 50000);
+  const ttlDays = readIntEnv('PARAGRAPH_CACHE_TTL_DAYS', 90);
+  let sessionHits = 0;
+  let sessionMisses = 0;
+  let lastEvictAt = 0;
+
+  return {
+    async getMany(keys) {
+      if (keys.length === 0) return new Map();
+      const found = await backend.get([...new Set(keys)], Date.now());
+      const hits = keys.filter((k) => found.has(k)).length;
+      sessionHits += hits;
+      sessionMisses += keys.length - hits;
+      return found;
+    },
+    async putMany(entries) {
+      if (entries.length === 0) return;
+      const now = Date.now();
+      await backend.put(entries, now);
+      if (now - lastEvictAt > EVICT_INTERVAL_MS) {
+        lastEvictAt = now;
+        await backend.evict(maxEntries, now - ttlDays * 24 * 60 * 60 * 1000);
+      }
+    },
+    async stats() {
+      const counts = await backend.counts();
+      return { backend: backend.kind, ...counts, sessionHits, sessionMisses, maxEntries, ttlDays };
+    },
+    async clear() {
+      await backend.clear();
+    },
+  };
+}
+
+/** better-sqlite3 为原生模块，按需加载；加载或建库失败时返回 null（退化为不缓存） */
+async function createSqliteBackend(filePath: string): Promise<CacheBackend | null> {
+  try {
+    const { default: Database } = await import('better-sqlite3');
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const db = new Database(filePath);
+    db.pragma('journal_mode = WAL');
+    db.exec(TABLE_SQL);
+    db.exec('CREATE INDEX IF NOT EXISTS paragraph_cache_last_hit ON paragraph_cache (last_hit_at_ms)');
+    const selectOne = db.prepare('SELECT translation FROM paragraph_cache WHERE key = ?');
+    const touch = db.prepare('UPDATE paragraph_cache SET last_hit_at_ms = ?, hit_count = hit_count + 1 WHERE key = ?');
+    const upsert = db.prepare(
+      `INSERT INTO paragraph_cache (key, translation, created_at_ms, last_hit_at_ms, hit_count) VALUES (?, ?, ?, ?, 0)
+       ON CONFLICT (key) DO UPDATE SET translation = excluded.translation, last_hit_at_ms = excluded.last_hit_at_ms`
+    );
+    return {
+      kind: 'sqlite',
+      async get(keys, now) {
+        const found = new Map<string, string>();
+        db.transaction(() => {
+          for (const key of keys) {
+            const row = selectOne.get(key) as { translation: string } | undefined;
+            if (!row) continue;
+            found.set(key, row.translation);
+            touch.run(now, key);
+          }
+        })();
+        return found;
+      },
+      async put(entries, now) {
+        db.transaction(() => {
+          for (const e of entries) upsert.run(e.key, e.translation, now, now);
+        })();
+      },
+      async evict(maxEntries, expireBefore) {
+        db.prepare('DELETE FROM paragraph_cache WHERE last_hit_at_ms < ?').run(expireBefore);
+        db.prepare(
+          `DELETE FROM paragraph_cache WHERE key IN (
+             SELECT key FROM paragraph_cache ORDER BY last_hit_at_ms DESC LIMIT -1 OFFSET ?
+           )`
+        ).run(maxEntries);
+      },
+      async counts() {
+        const row = db
+          .prepare('SELECT COUNT(*) AS entries, COALESCE(SUM(hit_count), 0) AS hits, MIN(created_at_ms) AS oldest FROM paragraph_cache')
+          .get() as { entries: number; hits: number; oldest: number | null };
+        return { entries: row.entries, totalHits: row.hits, oldestEntryAt: row.oldest };
+      },
+      async clear() {
+        db.exec('DELETE FROM paragraph_cache');
+      },
+    };
+  } catch (err: unknown) {
+    console.warn('段落缓存（SQLite）不可用，将不使用持久缓存：', err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+function createNeonBackend(url: string): CacheBackend {
+  const sql = neon(url);
+  let ready: Promise<unknown> | null = null;
+  const ensureTable = () => {
+    ready ??= sql.query(TABLE_SQL).catch((err: unknown) => {
+      ready = null;
+      throw err;
+    });
+    return ready;
+  };
+  return {
+    kind: 'neon',
+    async get(keys, now) {
+      await ensureTable();
+      const rows = (await sql.query(
+        `UPDATE paragraph_cache SET last_hit_at_ms = $1, hit_count = hit_count + 1
+         WHERE key = ANY($2::text[]) RETURNING key, translation`,
+        [now, keys]
+      )) as { key: string; translation: string }[];
+      return new Map(rows.map((r) => [r.key, r.translation]));
+    },
+    async put(entries, now) {
+      await ensureTable();
+      await sql.query(
+        `INSERT INTO paragraph_cache (key, translation, created_at_ms, last_hit_at_ms, hit_count)
+         SELECT k, t, $3, $3, 0 FROM UNNEST($1::text[], $2::text[]) AS u(k, t)
+         ON CONFLICT (key) DO UPDATE SET translation = EXCLUDED.translation, last_hit_at_ms = EXCLUDED.last_hit_at_ms`,
+        [entries.map((e) => e.key), entries.map((e) => e.translation), now]
+      );
+    },
+    async evict(maxEntries, expireBefore) {
+      await ensureTable();
+      await sql.query('DELETE FROM paragraph_cache WHERE last_hit_at_ms < $1', [expireBefore]);
+      await sql.query(
+        `DELETE FROM paragraph_cache WHERE key IN (
+           SELECT key FROM paragraph_cache ORDER BY last_hit_at_ms DESC OFFSET $1
+         )`,
+        [maxEntries]
+      );
+    },
+    async counts() {
+      await ensureTable();
+      const rows = (await sql.query(
+        'SELECT COUNT(*)::int AS entries, COALESCE(SUM(hit_count), 0)::bigint AS hits, MIN(created_at_ms) AS oldest FROM paragraph_cache'
+      )) as { entries: number; hits: number | string; oldest: number | string | null }[];
+      const r = rows[0];
+      return {
+        entries: Number(r?.entries ?? 0),
+        totalHits: Number(r?.hits ?? 0),
+        oldestEntryAt: r?.oldest != null ? Number(r.oldest) : null,
+      };
+    },
+    async clear() {
+      await ensureTable();
+      await sql.query('DELETE FROM paragraph_cache');
+    },
+  };
+}
+
+let cachePromise: Promise<ParagraphCache | null> | null = null;
+
+/**
+ * 按环境变量创建（并复用）段落缓存；defaultBackend 为未设置 PARAGRAPH_CACHE 时的选择。
+ * 未配置或初始化失败时返回 null，翻译照常进行。
+ */
+export function getParagraphCache(defaultBackend: 'sqlite' | 'neon'): Promise<ParagraphCache | null> {
+  cachePromise ??= (async () => {
+    const mode = (process.env.PARAGRAPH_CACHE || '').trim().toLowerCase() || defaultBackend;
+    if (mode === 'off') return null;
+    if (mode === 'neon') {
+      const url = (process.env.DATABASE_URL || '').trim();
+      return url ? withCachePolicy(createNeonBackend(url)) : null;
+    }
+    const filePath = (process.env.PARAGRAPH_CACHE_PATH || '').trim() || path.join('.cache', 'paragraph-cache.db');
+    const backend = await createSqliteBackend(filePath);
+    return backend ? withCachePolicy(backend) : null;
+  })();
+  return cachePromise;
+}
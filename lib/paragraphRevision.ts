@@ -0,0 +1,217 @@
+/**
+ * 单段改译：不重译全文，只针对阅读器中的某一段。
+ * - 候选译法：一次请求 3–5 种不同译法，供并排比较后择一替换（/api/alternatives）
+ * - 按要求重译：带一句改译要求（如「更正式」「保留双关」）重译该段（/api/retranslate-paragraph）
+ * 请求都带上前后相邻段落作语境，并沿用文体、术语表，保证结果与全文风格一致。
+ */
+import { buildGlossaryPromptBlock, normalizeGlossary, selectGlossaryForParagraphs, type GlossaryEntry } from './glossary.js';
+import { getLanguage, isExtraTargetLanguage, isSourceLanguage, languagePromptName } from './languages.js';
+import {
+  buildStylePromptBlock,
+  buildTranslationSystemPrompt,
+  normalizeStyleInstructions,
+  normalizeTranslationStyle,
+  type TranslationStyle,
+} from './translationStyle.js';
+import { stripParagraphMarkers } from './translationPipeline.js';
+import { VERSE_REVISION_PROMPT_BLOCK } from './verse.js';
+import type { CallModel } from './translationJob.js';
+import type { UsageMeter } from './llmUsage.js';
+
+export const MIN_ALTERNATIVES = 3;
+export const MAX_ALTERNATIVES = 5;
+export const DEFAULT_ALTERNATIVES = 4;
+
+/** 相邻段落只作语境，过长时截取靠近本段的一侧 */
+const NEIGHBOUR_CONTEXT_CHARS = 800;
+/** 单段原文上限，超出请用整篇翻译 */
+const MAX_PARAGRAPH_CHARS = 6000;
+export const MAX_REVISION_INSTRUCTION_CHARS = 300;
+
+export type AlternativeTranslation = {
+  translation: string;
+  /** 该译法的取舍，如「直译，保留原文语序」 */
+  note: string;
+};
+
+export type ParagraphNeighbour = { source: string; translation: string };
+
+export type ParagraphRevisionRequest = {
+  source: string;
+  /** 当前译文：候选需与之不同，按要求重译时作为修改基础 */
+  current: string;
+  /** 改译要求，可为空 */
+  instruction: string;
+  previous: ParagraphNeighbour | null;
+  next: ParagraphNeighbour | null;
+  sourceLang: string;
+  targetLang: string;
+  /** 候选译法条数（仅 /api/alternatives 使用） */
+  count: number;
+  style: TranslationStyle;
+  styleInstructions: string;
+  glossary: GlossaryEntry[];
+  /** 本段是诗歌模式下的一节，译文须逐行对应 */
+  verse: boolean;
+  /** 按文体生成的系统提示词，由调用方传给模型 */
+  systemPrompt: string;
+};
+
+function clip(text: string, max: number, keep: 'head' | 'tail'): string {
+  if (text.length <= max) return text;
+  return keep === 'head' ? `${text.slice(0, max)}…` : `…${text.slice(-max)}`;
+}
+
+function normalizeNeighbour(raw: unknown, keep: 'head' | 'tail'): ParagraphNeighbour | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const o = raw as { source?: unknown; translation?: unknown };
+  const source = clip(String(o.source ?? '').trim(), NEIGHBOUR_CONTEXT_CHARS, keep);
+  const translation = clip(String(o.translation ?? '').trim(), NEIGHBOUR_CONTEXT_CHARS, keep);
+  return source || translation ? { source, translation } : null;
+}
+
+/** 校验单段改译请求体；失败时返回面向用户的错误信息（HTTP 400） */
+export function parseParagraphRevisionRequest(body: unknown): ParagraphRevisionRequest | { error: string } {
+  const o = (body || {}) as {
+    source?: unknown;
+    current?: unknown;
+    instruction?: unknown;
+    previous?: unknown;
+    next?: unknown;
+    sourceLang?: unknown;
+    targetLang?: unknown;
+    count?: unknown;
+    style?: unknown;
+    styleInstructions?: unknown;
+    glossary?: unknown;
+    verse?: unknown;
+  };
+  const source = String(o.source ?? '').trim();
+  if (!source) return { error: 'source is required' };
+  if (source.length > MAX_PARAGRAPH_CHARS) return { error: `单段原文超过 ${MAX_PARAGRAPH_CHARS} 字，请使用整篇翻译` };
+  const sourceLang = String(o.sourceLang ?? '').trim();
+  const targetLang = String(o.targetLang ?? '').trim();
+  if (!isSourceLanguage(sourceLang)) return { error: '不支持的原文语言' };
+  if (!isExtraTargetLanguage(targetLang)) return { error: '该译文语言不支持单段改译' };
+  if (sourceLang === targetLang) return { error: '原文语言与译文语言不能相同' };
+  const n = Math.round(Number(o.count));
+  const style = normalizeTranslationStyle(o.style);
+  return {
+    source,
+    current: String(o.current ?? '').trim(),
+    instruction: String(o.instruction ?? '').trim().slice(0, MAX_REVISION_INSTRUCTION_CHARS),
+    // 上一段取结尾、下一段取开头，离本段最近的部分最有用
+    previous: normalizeNeighbour(o.previous, 'tail'),
+    next: normalizeNeighbour(o.next, 'head'),
+    sourceLang,
+    targetLang,
+    count: Number.isFinite(n) ? Math.min(Math.max(n, MIN_ALTERNATIVES), MAX_ALTERNATIVES) : DEFAULT_ALTERNATIVES,
+    style,
+    styleInstructions: normalizeStyleInstructions(o.styleInstructions),
+    glossary: normalizeGlossary(o.glossary),
+    verse: o.verse === true,
+    systemPrompt: buildTranslationSystemPrompt(style),
+  };
+}
+
+function neighbourBlock(label: string, n: ParagraphNeighbour | null): string {
+  if (!n) return '';
+  const lines = [`【${label}（仅供语境，不要翻译、不要输出）】`];
+  if (n.source) lines.push(`原文：${n.source}`);
+  if (n.translation) lines.push(`现有译文：${n.translation}`);
+  return lines.join('\n');
+}
+
+/** 两种改译共用的书写要求、文体、术语与前后文，插在待翻译段落之前 */
+function buildRevisionContext(req: ParagraphRevisionRequest, currentLabel: string): string {
+  const target = getLanguage(req.targetLang);
+  const blocks = [
+    target?.targetRule ? `【书写要求】${target.targetRule}` : '',
+    buildStylePromptBlock(req.style, req.styleInstructions),
+    req.verse ? VERSE_REVISION_PROMPT_BLOCK : '',
+    buildGlossaryPromptBlock(selectGlossaryForParagraphs(req.glossary, [req.source])),
+    neighbourBlock('上一段', req.previous),
+    neighbourBlock('下一段', req.next),
+    req.current ? `【${currentLabel}】\n${req.current}` : '',
+  ].filter(Boolean);
+  return blocks.length > 0 ? `${blocks.join('\n\n')}\n\n` : '';
+}
+
+function targetNameOf(code: string): string {
+  const target = getLanguage(code);
+  return target?.targetName ?? target?.name ?? '目标语言';
+}
+
+export function buildAlternativesPrompt(req: ParagraphRevisionRequest): string {
+  const targetName = targetNameOf(req.targetLang);
+  return `请为下面这段${languagePromptName(req.sourceLang)}原文给出 ${req.count} 种不同的${targetName}译法，供译者比较挑选。
+各译法须忠实原意、与上下文衔接，但在措辞、语序、节奏或直译 / 意译的取舍上明显不同，不要只换一两个词。
+每种译法附一句简短说明（用中文，不超过 20 字），点明它的取舍。
+仅输出 JSON，格式如下（不要多余文字）：
+{
+  "alternatives": [
+    { "translation": "译法 1", "note": "说明" },
+    { "translation": "译法 2", "note": "说明" }
+  ]
+}
+
+${buildRevisionContext(req, '现有译文（候选须与之不同）')}【待翻译段落】
+${req.source}`.trim();
+}
+
+export function buildParagraphRetranslatePrompt(req: ParagraphRevisionRequest): string {
+  const task = req.instruction
+    ? `请按以下要求重新翻译，要求与文体设定冲突时以本要求为准：${req.instruction}`
+    : '请重新翻译，在忠实原意的前提下改进现有译文的准确度与流畅度。';
+  return `将下面这段${languagePromptName(req.sourceLang)}原文重新翻译为${targetNameOf(req.targetLang)}，须与上下文衔接。
+${task}
+仅输出 JSON，格式如下（不要多余文字，不要回显原文）：
+{ "translation": "新译文" }
+
+${buildRevisionContext(req, '现有译文（供参考修改）')}【待翻译段落】
+${req.source}`.trim();
+}
+
+/** 整理模型返回的候选：去空、去重、去掉与现有译文相同的，最多 count 条 */
+export function normalizeAlternatives(raw: unknown, current: string, count: number): AlternativeTranslation[] {
+  const list = Array.isArray(raw) ? raw : [];
+  const seen = new Set<string>([current.trim()]);
+  const out: AlternativeTranslation[] = [];
+  for (const item of list) {
+    const translation = (typeof item === 'string' ? item : String((item as { translation?: unknown })?.translation ?? '')).trim();
+    if (!translation || seen.has(translation)) continue;
+    seen.add(translation);
+    const note = typeof item === 'object' && item ? String((item as { note?: unknown }).note ?? '').trim() : '';
+    out.push({ translation, note });
+    if (out.length >= count) break;
+  }
+  return out;
+}
+
+/** 请求候选译法；模型没有给出任何可用候选时抛出 Error */
+export async function fetchParagraphAlternatives(
+  req: ParagraphRevisionRequest,
+  callModel: CallModel,
+  { signal, usage }: { signal?: AbortSignal; usage?: UsageMeter } = {}
+): Promise<AlternativeTranslation[]> {
+  const json = await callModel(buildAlternativesPrompt(req), { signal, onUsage: (u) => usage?.record('translation', u) });
+  const alternatives = normalizeAlternatives(json.alternatives, req.current, req.count);
+  if (alternatives.length === 0) throw new Error('模型没有返回可用的候选译法，请重试');
+  return alternatives;
+}
+
+/** 按要求重译单段；模型返回空译文时抛出 Error */
+export async function retranslateParagraph(
+  req: ParagraphRevisionRequest,
+  callModel: CallModel,
+  { signal, usage }: { signal?: AbortSignal; usage?: UsageMeter } = {}
+): Promise<string> {
+  const json = await callModel(buildParagraphRetranslatePrompt(req), {
+    signal,
+    onUsage: (u) => usage?.record('translation', u),
+  });
+  const raw = Array.isArray(json.translation) ? json.translation[0] : json.translation;
+  const translation = stripParagraphMarkers(String(raw ?? ''));
+  if (!translation) throw new Error('模型没有返回译文，请重试');
+  return translation;
+}
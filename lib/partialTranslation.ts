@@ -0,0 +1,83 @@
+/**
+ * 逐字流式：模型以流式返回 JSON 时，从尚未写完的文本中解析 translation 数组已生成的部分，
+ * 供 translationJob 推送 chunk_partial 事件。只认数组写法（字符串或诗歌模式的行数组），
+ * 其余写法等整块返回后由 normalizeTranslationToArray 处理。
+ */
+
+const TRANSLATION_ARRAY_START = /"translation"\s*:\s*\[/;
+
+const SIMPLE_ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+/** 从 start（开引号之后）读一个 JSON 字符串；写到一半时 complete 为 false，value 为已生成的部分 */
+function readString(text: string, start: number): { value: string; end: number; complete: boolean } {
+  let value = '';
+  let i = start;
+  while (i < text.length) {
+    const ch = text[i]!;
+    if (ch === '"') return { value, end: i + 1, complete: true };
+    if (ch !== '\\') {
+      value += ch;
+      i++;
+      continue;
+    }
+    const esc = text[i + 1];
+    if (esc === undefined) break;
+    if (esc === 'u') {
+      const hex = text.slice(i + 2, i + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 6;
+    } else {
+      value += SIMPLE_ESCAPES[esc] ?? esc;
+      i += 2;
+    }
+  }
+  return { value, end: text.length, complete: false };
+}
+
+const skipSeparators = (text: string, i: number): number => {
+  while (i < text.length && /[\s,]/.test(text[i]!)) i++;
+  return i;
+};
+
+/**
+ * 已生成的各段译文（最后一项可能还没写完）；诗歌模式按行返回的数组拼成一节。
+ * 还没写到 translation 数组时返回空数组。
+ */
+export function parsePartialTranslation(text: string): string[] {
+  const m = TRANSLATION_ARRAY_START.exec(text);
+  if (!m) return [];
+  const out: string[] = [];
+  let i = m.index + m[0].length;
+  for (;;) {
+    i = skipSeparators(text, i);
+    const ch = text[i];
+    if (ch === '"') {
+      const s = readString(text, i + 1);
+      out.push(s.value);
+      if (!s.complete) return out;
+      i = s.end;
+    } else if (ch === '[') {
+      const lines: string[] = [];
+      i++;
+      for (;;) {
+        i = skipSeparators(text, i);
+        if (text[i] !== '"') break;
+        const s = readString(text, i + 1);
+        lines.push(s.value);
+        i = s.end;
+        if (!s.complete) break;
+      }
+      out.push(lines.map((line) => line.trim()).join('\n'));
+      if (text[i] !== ']') return out;
+      i++;
+    } else {
+      return out;
+    }
+  }
+}
+
+/** 去掉末尾写到一半的占位符（⟦1）与格式标签（</su），以免推送给客户端 */
+export function trimIncompleteMarkers(text: string): string {
+  return text.replace(/⟦\s*\d*\s*$/, '').replace(/<\/?[a-z]*\d*$/, '');
+}
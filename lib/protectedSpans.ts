@@ -0,0 +1,103 @@
+/**
+ * 不译内容的保护：送模型前把网址、邮箱、行内代码、带单位的数字以及用户用 {{…}} 标记的名称
+ * 换成占位符 ⟦1⟧、⟦2⟧ …（每段从 1 编号），模型返回后再换回原文，并校验占位符是否都保留下来。
+ * 本文件不依赖 Node 模块，前端也会引用（检查译文是否原样保留了这些内容）。
+ */
+
+/** 一段原文打码后的文本与占位符表：spans[n - 1] 为 ⟦n⟧ 代表的原文 */
+export type MaskedText = { text: string; spans: string[] };
+
+/** 单段最多替换的占位符数，超出部分按普通文字送模型 */
+const MAX_SPANS_PER_PARAGRAPH = 999;
+
+/** 可带空格的单位（多字母或符号）；按长度倒序，避免 km 抢先匹配 km/h */
+const SPACED_UNITS = [
+  'km/h', 'kWh', 'mAh', 'GHz', 'MHz', 'kHz', 'rpm', 'mph', 'lbs', 'USD', 'EUR', 'RMB', 'CNY', 'JPY', 'GBP',
+  'km', 'cm', 'mm', 'kg', 'mg', 'lb', 'oz', 'ft', 'ml', 'mL', 'GB', 'MB', 'KB', 'kB', 'TB', 'Hz', 'kW', 'px', 'pt', 'ms', 'dB',
+  '°C', '°F', '%', '‰', '°',
+];
+/**
+ * 单字母单位只在紧贴数字时识别（「5 m」「3 s」容易与普通单词混淆）。
+ * 不含 s / h：1990s、20s 是年代与年龄、4th 是序数，都需要翻译
+ */
+const TIGHT_UNITS = ['m', 'g', 'L', 'V', 'W', 'K'];
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+/** 千分位逗号只出现在数字之间，句中逗号不算数字的一部分 */
+const NUMBER = String.raw`\d(?:[\d,]*\d)?(?:\.\d+)?`;
+
+/** 依次为：原文中已有的占位符写法、用户标记、行内代码、网址、邮箱、带单位或货币符号的数字 */
+const SPAN_PATTERN = new RegExp(
+  [
+    String.raw`(?<literal>⟦\s*\d{1,3}\s*⟧)`,
+    String.raw`\{\{(?<marked>[^{}\n]+?)\}\}`,
+    '(?<code>`[^`\\n]+`)',
+    String.raw`(?<url>(?:https?:\/\/|www\.)[^\s<>"'“”‘’（）「」《》，。！？、；]+)`,
+    String.raw`(?<email>[\w.+-]+@[\w-]+(?:\.[\w-]+)+)`,
+    String.raw`(?<number>(?<![\w.])(?:[$€£¥￥]\s?${NUMBER}|${NUMBER}(?:\s?(?:${SPACED_UNITS.map(escapeRegExp).join('|')})|(?:${TIGHT_UNITS.join('|')})))(?![A-Za-z0-9]))`,
+  ].join('|'),
+  'g'
+);
+
+const PLACEHOLDER_PATTERN = /⟦\s*(\d{1,3})\s*⟧/g;
+
+/** 网址末尾的标点多半属于句子而非链接；右括号只在没有配对的左括号时去掉 */
+function trimUrl(url: string): string {
+  let end = url.length;
+  for (;;) {
+    const ch = url[end - 1];
+    if (ch && '.,;:!?\'"'.includes(ch)) end--;
+    else if (ch === ')' && url.slice(0, end).split('(').length < url.slice(0, end).split(')').length) end--;
+    else break;
+  }
+  return url.slice(0, end);
+}
+
+/** 把需要保护的内容换成占位符；用户标记的 {{…}} 换回时去掉花括号 */
+export function maskProtectedSpans(text: string): MaskedText {
+  const spans: string[] = [];
+  let out = '';
+  let last = 0;
+  for (const m of text.matchAll(SPAN_PATTERN)) {
+    if (spans.length >= MAX_SPANS_PER_PARAGRAPH) break;
+    const g = m.groups!;
+    const raw = g.url !== undefined ? trimUrl(g.url) : m[0];
+    if (!raw) continue;
+    out += text.slice(last, m.index);
+    last = m.index! + raw.length;
+    spans.push(g.marked !== undefined ? g.marked.trim() : raw);
+    out += `⟦${spans.length}⟧`;
+  }
+  return spans.length > 0 ? { text: out + text.slice(last), spans } : { text, spans };
+}
+
+export function hasProtectedPlaceholders(text: string): boolean {
+  return text.includes('⟦');
+}
+
+/** 占位符换回原文；编号超出占位符表的（模型臆造的）直接删去 */
+export function restoreProtectedSpans(text: string, spans: string[]): string {
+  if (!hasProtectedPlaceholders(text)) return text;
+  return text.replace(PLACEHOLDER_PATTERN, (_, n: string) => spans[Number(n) - 1] ?? '');
+}
+
+/** 原文中出现、译文中丢失的占位符编号 */
+export function findLostPlaceholders(masked: string, translated: string): number[] {
+  const kept = new Set([...translated.matchAll(PLACEHOLDER_PATTERN)].map((m) => Number(m[1])));
+  const lost = [...masked.matchAll(PLACEHOLDER_PATTERN)].map((m) => Number(m[1])).filter((n) => !kept.has(n));
+  return [...new Set(lost)];
+}
+
+/**
+ * 前端检查：原文中会被保护的网址、代码、数字等没有原样出现在译文里的（去重）。
+ * 用户标记的 {{…}} 在原文栏中已去掉花括号，无从检查。
+ */
+export function findUnpreservedSpans(source: string, translation: string): string[] {
+  const { spans } = maskProtectedSpans(source);
+  return [...new Set(spans)].filter((s) => !translation.includes(s));
+}
+
+/** 译文提示词中的占位符说明；仅当本块原文含占位符时加入 */
+export const PROTECTED_SPANS_PROMPT_BLOCK = `【占位符】原文中的 ⟦1⟧、⟦2⟧ 等是占位符，代表网址、代码、带单位的数字或不译的名称：
+- 译文中须原样保留每个占位符（含编号），放在语义对应的位置，不增不减、不改编号
+- 不要猜测或补写占位符代表的内容，也不要给占位符加引号`;
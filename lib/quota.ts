@@ -0,0 +1,56 @@
+/**
+ * 服务端配额的共享定义：各接口按用途计次，超出时返回 429 与结构化的 quota 字段，前端据此提示登录或等待次日。
+ * 计数与校验见 quotaStore.ts；本文件不依赖 Node 模块，前端可直接引用。
+ */
+
+export type QuotaBucket = 'translation' | 'meme' | 'followup' | 'qa' | 'paragraph';
+
+/** guest：未登录（按签名 Cookie 的匿名会话计）；user：Clerk 登录用户；admin：CLERK_ADMIN_USER_IDS 中的用户 */
+export type QuotaRole = 'guest' | 'user' | 'admin';
+
+export const QUOTA_BUCKETS: QuotaBucket[] = ['translation', 'meme', 'followup', 'qa', 'paragraph'];
+
+export const QUOTA_BUCKET_LABELS: Record<QuotaBucket, string> = {
+  translation: '翻译',
+  meme: '动态梗',
+  followup: '追问',
+  qa: '回译质检',
+  paragraph: '单段改译',
+};
+
+export const QUOTA_EXCEEDED_CODE = 'quota_exceeded';
+
+/** 429 响应体中的 quota 字段 */
+export type QuotaExceeded = {
+  bucket: QuotaBucket;
+  role: QuotaRole;
+  /** 每日上限 */
+  limit: number;
+  /** 配额次日（UTC 零点）重置的时间戳 */
+  resetAt: number;
+};
+
+export function quotaExceededMessage(q: QuotaExceeded): string {
+  const label = QUOTA_BUCKET_LABELS[q.bucket];
+  if (q.limit === 0) return `当前账号不可使用${label}功能${q.role === 'guest' ? '，请登录后再试' : ''}。`;
+  const reset = new Date(q.resetAt).toLocaleString('zh-CN', { hour12: false });
+  if (q.role === 'guest') {
+    return `今日免费${label}次数已用完（访客每天 ${q.limit} 次）。请通过右上角登录后继续，或于 ${reset} 后再试。`;
+  }
+  return `今日${label}次数已达上限（每天 ${q.limit} 次），将于 ${reset} 重置。`;
+}
+
+/** 从错误响应体读取配额信息；不是配额错误时返回 null */
+export function readQuotaExceeded(body: unknown): QuotaExceeded | null {
+  if (!body || typeof body !== 'object') return null;
+  const b = body as { code?: unknown; quota?: Partial<QuotaExceeded> };
+  if (b.code !== QUOTA_EXCEEDED_CODE || !b.quota || typeof b.quota !== 'object') return null;
+  const { bucket, role, limit, resetAt } = b.quota;
+  if (!bucket || !(QUOTA_BUCKETS as string[]).includes(bucket)) return null;
+  return {
+    bucket,
+    role: role === 'user' || role === 'admin' ? role : 'guest',
+    limit: typeof limit === 'number' && limit >= 0 ? limit : 0,
+    resetAt: typeof resetAt === 'number' ? resetAt : Date.now(),
+  };
+}
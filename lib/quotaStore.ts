@@ -0,0 +1,372 @@
+/**
+ * 服务端每日配额：翻译、动态梗、追问、回译质检、单段改译（候选译法等）接口按用途计次，超出时直接返回 429（结构见 quota.ts）。
+ * 登录用户按 Clerk 用户计；未登录访客按签名 Cookie 的匿名会话计，同一 IP 另有总上限，清除 Cookie 无法重置额度。
+ * 未配置 Clerk（本地 / legacy 模式）时访客按 user 档位计。本地 server 用 SQLite（better-sqlite3），Vercel 用 Neon。
+ *
+ * 环境变量：
+ *   QUOTAS                       sqlite | neon | off（默认：本地 sqlite，Vercel 有 DATABASE_URL 时 neon）
+ *   QUOTAS_PATH                  SQLite 文件路径（默认 .cache/quotas.db）
+ *   QUOTA_GUEST / QUOTA_USER / QUOTA_ADMIN
+ *                                各档每日上限，如 translation=2,meme=100,followup=10,qa=2,paragraph=10；unlimited 表示不限，未写的用途用默认值
+ *   QUOTA_GUEST_SESSIONS_PER_IP  同一 IP 的访客总额度为单个会话的几倍（默认 5，照顾共用出口 IP 的网络）
+ *   QUOTA_COOKIE_SECRET          匿名会话 Cookie 的签名密钥；部署时务必设置，未设置时每次启动随机生成
+ *   TRUST_PROXY                  本地 server 部署在反向代理之后时设为 1，按 x-forwarded-for 识别访客 IP（Vercel 无需设置）
+ */
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { neon } from '@neondatabase/serverless';
+import { verifyToken } from '@clerk/backend';
+import {
+  QUOTA_BUCKETS,
+  QUOTA_EXCEEDED_CODE,
+  quotaExceededMessage,
+  type QuotaBucket,
+  type QuotaExceeded,
+  type QuotaRole,
+} from './quota.js';
+
+export interface QuotaStore {
+  /**
+   * 为本次请求扣减一次 bucket 配额；超出时写出 429 响应并返回 false，调用方直接结束处理。
+   * 需要时顺带下发匿名会话 Cookie。计数存储出错时放行（只打日志），不影响正常使用。
+   */
+  enforce(req: IncomingMessage, res: ServerResponse, bucket: QuotaBucket): Promise<boolean>;
+}
+
+/** 底层存储只负责计数，身份解析、上限与清理节流由 withQuotaPolicy 统一处理 */
+interface QuotaBackend {
+  /** 当日计数小于 limit 时加一并返回 true，否则不变并返回 false */
+  take(key: string, day: string, limit: number): Promise<boolean>;
+  /** 撤回一次 take（同一请求的另一项配额不足时） */
+  giveBack(key: string, day: string): Promise<void>;
+  evict(beforeDay: string): Promise<void>;
+}
+
+/** null 表示不限 */
+type RoleLimits = Record<QuotaBucket, number | null>;
+
+const DEFAULT_LIMITS: Record<QuotaRole, RoleLimits> = {
+  guest: { translation: 2, meme: 100, followup: 10, qa: 2, paragraph: 10 },
+  user: { translation: 50, meme: 1000, followup: 200, qa: 50, paragraph: 300 },
+  admin: { translation: null, meme: null, followup: null, qa: null, paragraph: null },
+};
+
+const TABLE_SQL = `CREATE TABLE IF NOT EXISTS quota_counters (
+  key TEXT NOT NULL,
+  day TEXT NOT NULL,
+  count INTEGER NOT NULL,
+  PRIMARY KEY (key, day)
+)`;
+
+const SESSION_COOKIE = 'quota_sid';
+const SESSION_COOKIE_MAX_AGE_S = 365 * 24 * 60 * 60;
+
+/** 两次清理之间至少间隔，避免每次计数都扫表 */
+const EVICT_INTERVAL_MS = 10 * 60 * 1000;
+
+function readIntEnv(name: string, fallback: number): number {
+  const n = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+function readRoleLimits(name: string, defaults: RoleLimits): RoleLimits {
+  const limits = { ...defaults };
+  for (const part of (process.env[name] || '').split(',')) {
+    const [bucket, value] = part.split('=').map((s) => s.trim());
+    if (!bucket || !(QUOTA_BUCKETS as string[]).includes(bucket) || !value) continue;
+    if (value.toLowerCase() === 'unlimited') {
+      limits[bucket as QuotaBucket] = null;
+      continue;
+    }
+    const n = parseInt(value, 10);
+    if (Number.isFinite(n) && n >= 0) limits[bucket as QuotaBucket] = n;
+  }
+  return limits;
+}
+
+/** UTC 日期，如 2026-01-31；配额在 UTC 零点重置 */
+function utcDay(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+function nextUtcMidnight(ms: number): number {
+  const d = new Date(ms);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + 1);
+}
+
+function headerValue(raw: string | string[] | undefined): string {
+  return (Array.isArray(raw) ? raw[0] : raw) ?? '';
+}
+
+/**
+ * 访客的 IP。转发头可由客户端任意伪造，默认只用连接的对端地址；
+ * Vercel 上由平台覆盖 x-real-ip / x-forwarded-for，可直接采用；
+ * 自建反向代理时设置 TRUST_PROXY，取代理追加在 x-forwarded-for 末尾的地址。
+ */
+function clientIp(req: IncomingMessage): string | null {
+  const socketIp = req.socket?.remoteAddress || null;
+  if (process.env.VERCEL) {
+    const forwarded = headerValue(req.headers['x-forwarded-for']).split(',')[0]?.trim();
+    return headerValue(req.headers['x-real-ip']).trim() || forwarded || socketIp;
+  }
+  if (isTruthyEnv(process.env.TRUST_PROXY)) {
+    const forwarded = headerValue(req.headers['x-forwarded-for']).split(',').map((s) => s.trim()).filter(Boolean);
+    return forwarded[forwarded.length - 1] || socketIp;
+  }
+  return socketIp;
+}
+
+function isTruthyEnv(raw: string | undefined): boolean {
+  const v = (raw || '').trim().toLowerCase();
+  return v !== '' && v !== '0' && v !== 'false' && v !== 'off';
+}
+
+function readCookie(req: IncomingMessage, name: string): string | null {
+  for (const part of headerValue(req.headers.cookie).split(';')) {
+    const eq = part.indexOf('=');
+    if (eq > 0 && part.slice(0, eq).trim() === name) return decodeURIComponent(part.slice(eq + 1).trim());
+  }
+  return null;
+}
+
+/** 未登录或未配置 Clerk 时返回 null */
+async function resolveQuotaUserId(req: IncomingMessage): Promise<string | null> {
+  const secret = (process.env.CLERK_SECRET_KEY || '').trim();
+  const raw = headerValue(req.headers.authorization);
+  const token = raw.startsWith('Bearer ') ? raw.slice(7) : null;
+  if (!secret || !token) return null;
+  try {
+    const payload = await verifyToken(token, { secretKey: secret });
+    return typeof payload.sub === 'string' && payload.sub ? payload.sub : null;
+  } catch {
+    return null;
+  }
+}
+
+function isQuotaAdmin(userId: string): boolean {
+  const raw = (process.env.CLERK_ADMIN_USER_IDS || '').trim();
+  return raw.split(',').map((s) => s.trim()).filter(Boolean).includes(userId);
+}
+
+let randomCookieSecret: string | null = null;
+
+function cookieSecret(): string {
+  const configured = (process.env.QUOTA_COOKIE_SECRET || '').trim();
+  if (configured) return configured;
+  if (!randomCookieSecret) {
+    randomCookieSecret = crypto.randomBytes(32).toString('hex');
+    console.warn('QUOTA_COOKIE_SECRET 未设置，匿名会话 Cookie 使用随机密钥，重启后访客会话失效。');
+  }
+  return randomCookieSecret;
+}
+
+function signSessionId(id: string): string {
+  return crypto.createHmac('sha256', cookieSecret()).update(id).digest('base64url');
+}
+
+/** 同一请求内新建的会话，避免配额与任务归属各自新建、先后下发不同的 Cookie */
+const newSessions = new WeakMap<IncomingMessage, string>();
+
+/** 读取并校验匿名会话 Cookie；没有或签名不符时新建会话并下发 Cookie */
+function ensureGuestSession(req: IncomingMessage, res: ServerResponse): string {
+  const created = newSessions.get(req);
+  if (created) return created;
+  const raw = readCookie(req, SESSION_COOKIE);
+  const dot = raw ? raw.lastIndexOf('.') : -1;
+  if (raw && dot > 0) {
+    const id = raw.slice(0, dot);
+    const sig = Buffer.from(raw.slice(dot + 1));
+    const expected = Buffer.from(signSessionId(id));
+    if (sig.length === expected.length && crypto.timingSafeEqual(sig, expected)) return id;
+  }
+  const id = crypto.randomUUID();
+  newSessions.set(req, id);
+  const secure = req.headers['x-forwarded-proto'] === 'https' || Boolean((req.socket as { encrypted?: boolean }).encrypted);
+  res.setHeader(
+    'Set-Cookie',
+    `${SESSION_COOKIE}=${id}.${signSessionId(id)}; Path=/; Max-Age=${SESSION_COOKIE_MAX_AGE_S}; HttpOnly; SameSite=Lax${secure ? '; Secure' : ''}`
+  );
+  return id;
+}
+
+/**
+ * 请求者的标识：登录用户为 user:<Clerk ID>，其余为 session:<匿名会话 ID>（需要时下发会话 Cookie）。
+ * 用于核对可续传任务的归属，不受 QUOTAS=off 影响。
+ */
+export async function resolveRequesterKey(req: IncomingMessage, res: ServerResponse): Promise<string> {
+  const userId = await resolveQuotaUserId(req);
+  return userId ? `user:${userId}` : `session:${ensureGuestSession(req, res)}`;
+}
+
+function sendQuotaExceeded(res: ServerResponse, quota: QuotaExceeded, now: number): void {
+  res.statusCode = 429;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.setHeader('Retry-After', String(Math.max(1, Math.ceil((quota.resetAt - now) / 1000))));
+  res.end(JSON.stringify({ error: quotaExceededMessage(quota), code: QUOTA_EXCEEDED_CODE, quota }));
+}
+
+function withQuotaPolicy(backend: QuotaBackend): QuotaStore {
+  const limits: Record<QuotaRole, RoleLimits> = {
+    guest: readRoleLimits('QUOTA_GUEST', DEFAULT_LIMITS.guest),
+    user: readRoleLimits('QUOTA_USER', DEFAULT_LIMITS.user),
+    admin: readRoleLimits('QUOTA_ADMIN', DEFAULT_LIMITS.admin),
+  };
+  const sessionsPerIp = readIntEnv('QUOTA_GUEST_SESSIONS_PER_IP', 5);
+  let lastEvictAt = 0;
+
+  return {
+    async enforce(req, res, bucket) {
+      const userId = await resolveQuotaUserId(req);
+      const clerkEnabled = Boolean((process.env.CLERK_SECRET_KEY || '').trim());
+      const role: QuotaRole = userId ? (isQuotaAdmin(userId) ? 'admin' : 'user') : clerkEnabled ? 'guest' : 'user';
+      const limit = limits[role][bucket];
+      if (limit == null) return true;
+
+      const now = Date.now();
+      const day = utcDay(now);
+      const denied: QuotaExceeded = { bucket, role, limit, resetAt: nextUtcMidnight(now) };
+      if (limit === 0) {
+        sendQuotaExceeded(res, denied, now);
+        return false;
+      }
+      try {
+        if (now - lastEvictAt > EVICT_INTERVAL_MS) {
+          lastEvictAt = now;
+          await backend.evict(utcDay(now - 24 * 60 * 60 * 1000));
+        }
+        if (userId) {
+          if (await backend.take(`${bucket}:user:${userId}`, day, limit)) return true;
+        } else {
+          // 未登录：先扣同一 IP 的总额度，再扣会话额度；会话额度不足时撤回 IP 计数
+          const ip = clientIp(req);
+          const ipKey = ip ? `${bucket}:ip:${ip}` : null;
+          if (!ipKey || (await backend.take(ipKey, day, limit * sessionsPerIp))) {
+            const sessionKey = `${bucket}:session:${ensureGuestSession(req, res)}`;
+            if (await backend.take(sessionKey, day, limit)) return true;
+            if (ipKey) await backend.giveBack(ipKey, day);
+          }
+        }
+      } catch (err: unknown) {
+        console.error('quota check failed:', err instanceof Error ? err.message : err);
+        return true;
+      }
+      sendQuotaExceeded(res, denied, now);
+      return false;
+    },
+  };
+}
+
+/** better-sqlite3 为原生模块，按需加载；加载或建库失败时返回 null（退化为进程内计数） */
+async function createSqliteBackend(filePath: string): Promise<QuotaBackend | null> {
+  try {
+    const { default: Database } = await import('better-sqlite3');
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const db = new Database(filePath);
+    db.pragma('journal_mode = WAL');
+    db.exec(TABLE_SQL);
+    const take = db.prepare(
+      `INSERT INTO quota_counters (key, day, count) VALUES (?, ?, 1)
+       ON CONFLICT (key, day) DO UPDATE SET count = count + 1 WHERE quota_counters.count < ?
+       RETURNING count`
+    );
+    const giveBack = db.prepare('UPDATE quota_counters SET count = count - 1 WHERE key = ? AND day = ? AND count > 0');
+    const evict = db.prepare('DELETE FROM quota_counters WHERE day < ?');
+    return {
+      async take(key, day, limit) {
+        return take.get(key, day, limit) !== undefined;
+      },
+      async giveBack(key, day) {
+        giveBack.run(key, day);
+      },
+      async evict(beforeDay) {
+        evict.run(beforeDay);
+      },
+    };
+  } catch (err: unknown) {
+    console.warn('配额计数（SQLite）不可用，将改用进程内计数：', err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+function createNeonBackend(url: string): QuotaBackend {
+  const sql = neon(url);
+  let ready: Promise<unknown> | null = null;
+  const ensureTable = () => {
+    ready ??= sql.query(TABLE_SQL).catch((err: unknown) => {
+      ready = null;
+      throw err;
+    });
+    return ready;
+  };
+  return {
+    async take(key, day, limit) {
+      await ensureTable();
+      const rows = (await sql.query(
+        `INSERT INTO quota_counters (key, day, count) VALUES ($1, $2, 1)
+         ON CONFLICT (key, day) DO UPDATE SET count = quota_counters.count + 1 WHERE quota_counters.count < $3
+         RETURNING count`,
+        [key, day, limit]
+      )) as { count: number }[];
+      return rows.length > 0;
+    },
+    async giveBack(key, day) {
+      await ensureTable();
+      await sql.query('UPDATE quota_counters SET count = count - 1 WHERE key = $1 AND day = $2 AND count > 0', [key, day]);
+    },
+    async evict(beforeDay) {
+      await ensureTable();
+      await sql.query('DELETE FROM quota_counters WHERE day < $1', [beforeDay]);
+    },
+  };
+}
+
+/** 进程内计数：SQLite 不可用时的本地退路，重启即清零 */
+function createMemoryBackend(): QuotaBackend {
+  const counts = new Map<string, number>();
+  const keyOf = (key: string, day: string) => `${day}|${key}`;
+  return {
+    async take(key, day, limit) {
+      const k = keyOf(key, day);
+      const n = counts.get(k) ?? 0;
+      if (n >= limit) return false;
+      counts.set(k, n + 1);
+      return true;
+    },
+    async giveBack(key, day) {
+      const k = keyOf(key, day);
+      const n = counts.get(k) ?? 0;
+      if (n > 0) counts.set(k, n - 1);
+    },
+    async evict(beforeDay) {
+      for (const k of counts.keys()) {
+        if (k.slice(0, k.indexOf('|')) < beforeDay) counts.delete(k);
+      }
+    },
+  };
+}
+
+let storePromise: Promise<QuotaStore | null> | null = null;
+
+/**
+ * 按环境变量创建（并复用）配额计数；defaultBackend 为未设置 QUOTAS 时的选择。
+ * QUOTAS=off 或 neon 模式缺少 DATABASE_URL 时返回 null，接口不限次数。
+ */
+export function getQuotaStore(defaultBackend: 'sqlite' | 'neon'): Promise<QuotaStore | null> {
+  storePromise ??= (async () => {
+    const mode = (process.env.QUOTAS || '').trim().toLowerCase() || defaultBackend;
+    if (mode === 'off') return null;
+    if (mode === 'neon') {
+      const url = (process.env.DATABASE_URL || '').trim();
+      if (!url) {
+        console.warn('配额计数需要 DATABASE_URL（QUOTAS=neon），当前接口不限次数。');
+        return null;
+      }
+      return withQuotaPolicy(createNeonBackend(url));
+    }
+    const filePath = (process.env.QUOTAS_PATH || '').trim() || path.join('.cache', 'quotas.db');
+    return withQuotaPolicy((await createSqliteBackend(filePath)) ?? createMemoryBackend());
+  })();
+  return storePromise;
+}
@@ -0,0 +1,206 @@
+/**
+ * 段内句子对齐：把一对段落各自切句，再按句长做动态规划（Gale–Church 思路）求出原文句与译文句的对应，
+ * 阅读器据此在悬停 / 点按某句时高亮另一栏的对应句，页内搜索也可按句跳转。
+ * 只看句长、不调用模型：服务端随译文返回，前端在译文改动后就地重算，因此本文件不依赖 Node 模块。
+ */
+
+/** 句子在段落文本中的 [起, 止) 字符偏移（不含句间空白） */
+export type SentenceSpan = [number, number];
+
+export type SentenceAlignment = {
+  source: SentenceSpan[];
+  target: SentenceSpan[];
+  /** 对齐组，按顺序覆盖两侧全部句子；每组为 [原文句下标, 译文句下标]，一侧可为空（漏译或增译） */
+  groups: [number[], number[]][];
+};
+
+/** 句点后不断句的常见英文缩写 */
+const ABBREVIATIONS = new Set(['mr', 'mrs', 'ms', 'dr', 'st', 'prof', 'jr', 'sr', 'vs', 'etc', 'no', 'vol', 'fig', 'e.g', 'i.e', 'a.m', 'p.m']);
+/** 全角句末标点：其后无需空格即可断句 */
+const CJK_TERMINATORS = '。！？';
+/** 半角句末标点：其后须有空白才断句（紧跟中日韩文字时按全角处理）；另含天城文与阿拉伯文句号 */
+const LATIN_TERMINATORS = '.!?…।؟';
+/** 句末标点之后仍属于本句的引号与括号 */
+const CLOSERS = '"\'”’」』）)】》';
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uff00-\uffef]/;
+
+/** 超过此句数时不做对齐，避免异常长段的 O(n·m) 计算 */
+const MAX_SENTENCES = 200;
+
+function isAbbreviation(text: string, dot: number): boolean {
+  const m = text.slice(0, dot).match(/([A-Za-z]+(?:\.[A-Za-z]+)*)$/);
+  if (!m) return false;
+  const word = m[1]!;
+  // 单个大写字母多为姓名缩写（J. K. Rowling）
+  return (word.length === 1 && /[A-Z]/.test(word)) || ABBREVIATIONS.has(word.toLowerCase());
+}
+
+/** 切句，返回各句的偏移；换行总是断句 */
+export function splitSentences(text: string): SentenceSpan[] {
+  const spans: SentenceSpan[] = [];
+  let start = -1;
+  const push = (end: number) => {
+    if (start === -1) return;
+    let e = end;
+    while (e > start && /\s/.test(text[e - 1]!)) e--;
+    if (e > start) spans.push([start, e]);
+    start = -1;
+  };
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+    if (ch === '\n') {
+      push(i);
+      continue;
+    }
+    if (start === -1) {
+      if (/\s/.test(ch)) continue;
+      start = i;
+    }
+    const latin = LATIN_TERMINATORS.includes(ch);
+    if (!latin && !CJK_TERMINATORS.includes(ch)) continue;
+    const cjk = !latin || CJK_CHAR.test(text[i - 1] ?? '');
+    // 连续标点（?!、……）与收尾引号并入本句
+    let end = i + 1;
+    while (end < text.length && (CJK_TERMINATORS.includes(text[end]!) || LATIN_TERMINATORS.includes(text[end]!))) end++;
+    const closerStart = end;
+    while (end < text.length && CLOSERS.includes(text[end]!)) end++;
+    // 「“为什么？”她问。」：引语后紧接叙述时仍是同一句
+    if (cjk && end > closerStart && end < text.length && !/[\s“「『（(]/.test(text[end]!)) continue;
+    if (!cjk) {
+      if (end < text.length && !/\s/.test(text[end]!)) continue;
+      if (ch === '.' && isAbbreviation(text, i)) continue;
+      // 「etc. and」「"Why?" she asked」之类：下一词小写开头时视为句中
+      const nextWord = text.slice(end).match(/^\s+(\S)/);
+      if (nextWord && /[a-z]/.test(nextWord[1]!)) continue;
+    }
+    push(end);
+    i = end - 1;
+  }
+  push(text.length);
+  return spans;
+}
+
+/** 一组句子的长度（不计空白） */
+function spanLength(text: string, spans: SentenceSpan[], from: number, to: number): number {
+  let n = 0;
+  for (let k = from; k < to; k++) {
+    const [s, e] = spans[k]!;
+    n += text.slice(s, e).replace(/\s+/g, '').length;
+  }
+  return n;
+}
+
+/** 允许的对齐形态与其先验代价（约为 −log 概率，取自 Gale–Church 的统计并补上汉语常见的三句并一句） */
+const MOVES: { s: number; t: number; penalty: number }[] = [
+  { s: 1, t: 1, penalty: 0 },
+  { s: 1, t: 2, penalty: 2.3 },
+  { s: 2, t: 1, penalty: 2.3 },
+  { s: 2, t: 2, penalty: 4.5 },
+  { s: 1, t: 3, penalty: 5 },
+  { s: 3, t: 1, penalty: 5 },
+  { s: 1, t: 0, penalty: 4.6 },
+  { s: 0, t: 1, penalty: 4.6 },
+];
+/** 句长偏差的方差系数：越大越容忍长度不符 */
+const LENGTH_VARIANCE = 2.5;
+
+/**
+ * 对齐一对段落的句子。任一侧为空或句数过多时返回 null；
+ * 任一侧只有一句时整段为一组，不做动态规划。
+ */
+export function alignSentences(source: string, target: string): SentenceAlignment | null {
+  return alignSpans(source, target, splitSentences(source), splitSentences(target));
+}
+
+/** 按行切分（诗歌模式，见 verse.ts）：每个非空行为一「句」 */
+export function splitLines(text: string): SentenceSpan[] {
+  const spans: SentenceSpan[] = [];
+  let start = 0;
+  for (const line of text.split('\n')) {
+    const lead = line.length - line.trimStart().length;
+    const body = line.trim();
+    if (body) spans.push([start + lead, start + lead + body.length]);
+    start += line.length + 1;
+  }
+  return spans;
+}
+
+/** 诗歌模式按行对齐：行数相同时逐行一一对应，否则与句子一样按长度求对应 */
+export function alignLines(source: string, target: string): SentenceAlignment | null {
+  const src = splitLines(source);
+  const tgt = splitLines(target);
+  if (src.length > 0 && src.length === tgt.length && src.length <= MAX_SENTENCES) {
+    return { source: src, target: tgt, groups: src.map((_, i) => [[i], [i]]) };
+  }
+  return alignSpans(source, target, src, tgt);
+}
+
+function alignSpans(source: string, target: string, src: SentenceSpan[], tgt: SentenceSpan[]): SentenceAlignment | null {
+  if (src.length === 0 || tgt.length === 0 || src.length > MAX_SENTENCES || tgt.length > MAX_SENTENCES) return null;
+  if (src.length === 1 || tgt.length === 1) {
+    return { source: src, target: tgt, groups: [[src.map((_, i) => i), tgt.map((_, j) => j)]] };
+  }
+
+  // 按整段长度比换算「期望译文长度」，不同文字的字数差异由此抵消
+  const ratio = spanLength(target, tgt, 0, tgt.length) / Math.max(1, spanLength(source, src, 0, src.length));
+  const cost = (ls: number, lt: number): number => {
+    const expected = ls * ratio;
+    const d = (lt - expected) / Math.sqrt(LENGTH_VARIANCE * Math.max(1, (expected + lt) / 2));
+    return (d * d) / 2;
+  };
+
+  const n = src.length;
+  const m = tgt.length;
+  const best: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(Infinity));
+  const back: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(-1));
+  best[0]![0] = 0;
+  for (let i = 0; i <= n; i++) {
+    for (let j = 0; j <= m; j++) {
+      if (i === 0 && j === 0) continue;
+      MOVES.forEach((move, k) => {
+        const pi = i - move.s;
+        const pj = j - move.t;
+        if (pi < 0 || pj < 0 || best[pi]![pj] === Infinity) return;
+        const c =
+          best[pi]![pj]! + move.penalty + cost(spanLength(source, src, pi, i), spanLength(target, tgt, pj, j));
+        if (c < best[i]![j]!) {
+          best[i]![j] = c;
+          back[i]![j] = k;
+        }
+      });
+    }
+  }
+
+  const groups: [number[], number[]][] = [];
+  for (let i = n, j = m; i > 0 || j > 0; ) {
+    const move = MOVES[back[i]![j]!]!;
+    const range = (from: number, to: number) => Array.from({ length: to - from }, (_, k) => from + k);
+    groups.unshift([range(i - move.s, i), range(j - move.t, j)]);
+    i -= move.s;
+    j -= move.t;
+  }
+  return { source: src, target: tgt, groups };
+}
+
+/** 校验存档或接口返回的对齐：偏移须落在当前文本内，段落改动后视为失效 */
+export function isAlignmentFor(alignment: unknown, source: string, target: string): alignment is SentenceAlignment {
+  if (!alignment || typeof alignment !== 'object') return false;
+  const a = alignment as Partial<SentenceAlignment>;
+  if (!Array.isArray(a.source) || !Array.isArray(a.target) || !Array.isArray(a.groups)) return false;
+  const fits = (spans: SentenceSpan[], text: string) =>
+    spans.length > 0 &&
+    spans.every((s) => Array.isArray(s) && s[0] >= 0 && s[0] < s[1] && s[1] <= text.length) &&
+    spans[spans.length - 1]![1] === text.trimEnd().length;
+  return fits(a.source, source) && fits(a.target, target);
+}
+
+/** 某句所在的对齐组下标；找不到时返回 -1 */
+export function sentenceGroupOf(alignment: SentenceAlignment, side: 'source' | 'target', sentence: number): number {
+  const k = side === 'source' ? 0 : 1;
+  return alignment.groups.findIndex((g) => g[k].includes(sentence));
+}
+
+/** 偏移所在的句子下标；落在句间空白时返回 -1 */
+export function sentenceAt(spans: SentenceSpan[], offset: number): number {
+  return spans.findIndex(([s, e]) => offset >= s && offset < e);
+}
@@ -1,14 +1,21 @@
 /**
- * 翻译 / AKI 解码前移除 http(s) 网址。
- * 从本站复制 AKI 时会在末尾附带站点链接，粘贴进输入框时不应参与解码或送模型。
+ * 整理输入文本：统一换行、压缩行内多余空白、去掉空行。
+ * 网址在送模型时由服务端换成占位符保护（见 protectedSpans.ts），这里不再删除。
  */
-export function stripUrlsForTranslation(raw: string): string {
-  let t = raw.replace(/\r\n/g, "\n");
-  t = t.replace(/https?:\/\/\S+/gi, "");
-  t = t
+export function normalizeTranslationInput(raw: string): string {
+  return raw
+    .replace(/\r\n/g, "\n")
     .split("\n")
     .map((line) => line.replace(/\s{2,}/g, " ").trim())
     .filter((line) => line.length > 0)
-    .join("\n");
-  return t.trim();
+    .join("\n")
+    .trim();
+}
+
+/**
+ * AKI 解码前移除 http(s) 网址。
+ * 从本站复制 AKI 时会在末尾附带站点链接，粘贴进输入框时不应参与解码。
+ */
+export function stripUrlsForTranslation(raw: string): string {
+  return normalizeTranslationInput(raw.replace(/\r\n/g, "\n").replace(/https?:\/\/\S+/gi, ""));
 }
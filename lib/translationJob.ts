@@ -0,0 +1,738 @@
+/**
+ * 一次翻译任务的编排：分块并行请求模型、按段落偏移推送结果、汇总标题/作者/分析。
+ * /api/translate 与 /api/translate-stream（本地与 Vercel）共用，通过 emit 回调输出 NDJSON 事件。
+ */
+import { applyMorseEncodingToPairs } from './morseEncode.js';
+import { applyAkiEncodingToPairsAsync } from './akiTranslatedColumn.js';
+import { fetchAkiMemePairDeepseek } from './akiMemeDeepseek.js';
+import { describeLlmProvider, type LlmCallOptions, type LlmProvider } from './llmProvider.js';
+import { paragraphCacheKey, type ParagraphCache } from './paragraphCache.js';
+import { throwIfAborted } from './llmScheduler.js';
+import { createUsageMeter, mergeUsage, type UsageKind, type UsageMeter, type UsageSummary } from './llmUsage.js';
+import { MAX_REPAIRS_PER_CHUNK, findMisalignedParagraphs } from './alignment.js';
+import { alignLines, alignSentences } from './sentenceAlignment.js';
+import { normalizeInlineLinks, parseInlineMarkup, stripInlineMarkup } from './inlineMarkup.js';
+import { findLostPlaceholders, maskProtectedSpans, restoreProtectedSpans, type MaskedText } from './protectedSpans.js';
+import { countVerseLines, normalizeVerseNotes } from './verse.js';
+import { parsePartialTranslation, trimIncompleteMarkers } from './partialTranslation.js';
+import { MAX_EXTRA_TARGETS, isExtraTargetLanguage } from './languages.js';
+import {
+  checkGlossaryCompliance,
+  normalizeGlossary,
+  selectGlossaryForParagraphs,
+  type GlossaryEntry,
+  type GlossaryIssue,
+} from './glossary.js';
+import { normalizeMemoryMatches } from './translationMemory.js';
+import {
+  buildTranslationSystemPrompt,
+  normalizeStyleInstructions,
+  normalizeTranslationStyle,
+  type TranslationStyle,
+} from './translationStyle.js';
+import {
+  CHUNK_SIZE,
+  PREVIOUS_TAIL_CHARS,
+  buildAnalysisOnlyPrompt,
+  buildConsistencyContextPrompt,
+  mergeTranslation,
+  normalizeAnalysis,
+  normalizeChunkContext,
+  normalizeTargetLang,
+  normalizeTranslationToArray,
+  resolveTitleAuthor,
+  resolveTranslationFlow,
+  splitIntoChunks,
+  type ChunkContext,
+  type PairLayout,
+  type ParagraphPair,
+  type PromptOptions,
+  type TargetLang,
+} from './translationPipeline.js';
+
+/** 失败块：原文仍保留在 translation 对应位置（译文为空），客户端可只重发这些段落 */
+export type FailedChunk = { chunkIndex: number; offset: number; count: number; message: string };
+
+export type TranslationJobResult = {
+  title: ParagraphPair;
+  author: ParagraphPair;
+  translation: ParagraphPair[];
+  analysis: ReturnType<typeof normalizeAnalysis>;
+  failedChunks: FailedChunk[];
+  /** 未按术语表译出的段落（下标对应 translation） */
+  glossaryIssues: GlossaryIssue[];
+  /** 对齐校验发现错位、逐段重译后仍未修复的段落下标 */
+  unalignedParagraphs: number[];
+  /** 命中段落缓存、未调用模型的段落数 */
+  cachedParagraphs: number;
+  /** 「同时译成」的附加语言，译文见各段 extra */
+  extraTargets: TargetLang[];
+  /** 本任务的 token 用量（续传时包含已存档块的用量） */
+  usage: UsageSummary;
+};
+
+/**
+ * 流式事件。chunk_done 带 offset（该块首段在 sources 中的下标），
+ * 客户端据此把每块放进正确位置，而不是按到达顺序追加。
+ * chunk_partial 为该块模型正在生成的译文（纯文本，texts 与块内段落一一对应，未写到的为空串），
+ * 只用于先行显示，以随后的 chunk_done 为准。
+ */
+export type TranslationStreamEvent =
+  | {
+      type: 'start';
+      /** 可续传任务的 ID；连接中断后带着它重新请求，已完成的块会直接重放 */
+      jobId?: string;
+      total: number;
+      layout: PairLayout;
+      extraTargets: TargetLang[];
+      /** 实际送模型的原文段落（超长段落已在句界拆分），客户端据此生成占位 */
+      sources: string[];
+      chunks: { chunkIndex: number; offset: number; count: number }[];
+    }
+  | {
+      type: 'progress';
+      chunk: number;
+      total: number;
+      percent: number;
+      step: string;
+      /** 本任务最靠前的等待块在共享队列中的位置（1 = 下一个执行）；0 表示没有块在排队 */
+      queuePosition?: number;
+    }
+  | {
+      type: 'chunk_done';
+      chunkIndex: number;
+      offset: number;
+      count: number;
+      pairs: ParagraphPair[];
+      glossaryIssues: GlossaryIssue[];
+      unaligned: number[];
+    }
+  | { type: 'chunk_partial'; chunkIndex: number; offset: number; texts: string[] }
+  | ({ type: 'chunk_error' } & FailedChunk)
+  | { type: 'done'; result: TranslationJobResult }
+  | { type: 'error'; message: string };
+
+/** 已完成块的存档，续传时原样重放，不再调用模型 */
+export type ChunkCheckpoint = {
+  /** 从 1 开始，与 chunk_done 的 chunkIndex 一致 */
+  chunkIndex: number;
+  pairs: ParagraphPair[];
+  /** 摩斯 / AKI 目标编码前的译文，续传时用于回退标题与作者 */
+  plainPairs?: ParagraphPair[];
+  glossaryIssues: GlossaryIssue[];
+  unaligned: number[];
+  cachedParagraphs: number;
+  /** 该块（含附加语言、对齐修复与梗）的用量 */
+  usage?: UsageSummary;
+};
+
+/** 任务进度的持久化（见 translationJobStore.ts）：已完成的块与分析直接复用，新完成的块先存档再推送 */
+export type JobCheckpoint = {
+  jobId: string;
+  chunks: Map<number, ChunkCheckpoint>;
+  /** 已保存的全文分析；null 表示尚未完成 */
+  analysis: Record<string, unknown> | null;
+  saveChunk(chunk: ChunkCheckpoint): Promise<void>;
+  saveAnalysis(analysis: Record<string, unknown>): Promise<void>;
+};
+
+/** 由调用方注入的模型调用（本地 server 使用带缓存的版本），opts 透传给调度器与用量回调 */
+export type CallModel = (prompt: string, opts?: LlmCallOptions) => Promise<Record<string, unknown>>;
+
+export type RunTranslationJobOptions = {
+  /** 段落缓存：每块只把未命中的段落发给模型 */
+  cache?: ParagraphCache | null;
+  /** 取消时（如客户端断开）排队中的块直接出队、进行中的请求中止，最后抛出 AbortError */
+  signal?: AbortSignal;
+  /** 可续传任务的存档 */
+  checkpoint?: JobCheckpoint;
+  /** 本次连接实际发生的模型用量（不含续传重放的块），调用方据此按用户记账 */
+  usage?: UsageMeter;
+  /** 以流式请求模型，边生成边推送 chunk_partial（仅流式接口需要） */
+  partial?: boolean;
+};
+
+/** 同一块两次 chunk_partial 的最小间隔，避免每个 token 都解析、推送一次 */
+const PARTIAL_INTERVAL_MS = 300;
+
+/** 附加译文语言：与主译文共用分块、缓存与对齐修复，但不带术语表与翻译记忆（二者只对应主语言对） */
+export type ExtraTarget = {
+  targetLang: TargetLang;
+  layout: PairLayout;
+  transPrompt: (chunk: string[], chunkOpts?: PromptOptions) => string;
+};
+
+export type TranslationJob = {
+  paragraphs: string[];
+  sourceLang: string;
+  targetLang: TargetLang;
+  analysisLang: string;
+  layout: PairLayout;
+  transPrompt: (chunk: string[], chunkOpts?: PromptOptions) => string;
+  extraTargets: ExtraTarget[];
+  /** 仅重试失败段落时跳过全文分析 */
+  skipAnalysis: boolean;
+  glossary: GlossaryEntry[];
+  /** 一致性模式：先提炼共享上下文再翻译各块，牺牲一点并行换取跨块一致 */
+  consistency: boolean;
+  style: TranslationStyle;
+  styleInstructions: string;
+  /** 按文体生成的系统提示词，由调用方传给模型 */
+  systemPrompt: string;
+  /** 原文带格式占位标签（导入的 docx / PDF），译文返回前剥离为 marks */
+  markup: boolean;
+  /** 占位标签 <aN> 对应的链接地址，第 N 条 */
+  links: string[];
+  /** 诗歌模式：每段为一节，逐行翻译并校验行数（见 verse.ts） */
+  verse: boolean;
+  /** 诗歌模式下主译文另附每节的韵式与格律说明 */
+  verseNotes: boolean;
+};
+
+/** 校验请求体并解析翻译方向；失败时返回面向用户的错误信息（HTTP 400） */
+export function parseTranslationRequest(body: unknown): TranslationJob | { error: string } {
+  const {
+    paragraphs,
+    sourceLang = 'en',
+    sourceLangFull,
+    targetLang: rawTarget,
+    extraTargetLangs: rawExtraTargets,
+    skipAnalysis,
+    glossary: rawGlossary,
+    consistency,
+    memory: rawMemory,
+    style: rawStyle,
+    styleInstructions: rawStyleInstructions,
+    markup: rawMarkup,
+    links: rawLinks,
+    verse: rawVerse,
+    verseNotes: rawVerseNotes,
+  } = (body || {}) as {
+    paragraphs?: string[];
+    sourceLang?: string;
+    sourceLangFull?: string;
+    targetLang?: string;
+    extraTargetLangs?: unknown;
+    skipAnalysis?: boolean;
+    glossary?: unknown;
+    consistency?: boolean;
+    memory?: unknown;
+    style?: string;
+    styleInstructions?: string;
+    markup?: boolean;
+    links?: unknown;
+    verse?: boolean;
+    verseNotes?: boolean;
+  };
+  if (!Array.isArray(paragraphs) || paragraphs.length === 0) {
+    return { error: 'paragraphs is required' };
+  }
+  const lang = sourceLangFull || sourceLang || 'en';
+  const targetLang = normalizeTargetLang(rawTarget);
+  const glossary = normalizeGlossary(rawGlossary);
+  // 翻译记忆参考按段落原文匹配，随提示词进入对应块；段落送模型前会打码（protectedSpans.ts），匹配键同样打码
+  const memory = normalizeMemoryMatches(rawMemory).map((m) => ({ ...m, text: maskProtectedSpans(m.text).text }));
+  const style = normalizeTranslationStyle(rawStyle);
+  const styleInstructions = normalizeStyleInstructions(rawStyleInstructions);
+  const markup = rawMarkup === true;
+  const verse = rawVerse === true;
+  const verseNotes = verse && rawVerseNotes === true;
+  const flow = resolveTranslationFlow(lang, targetLang, { glossary, memory, style, styleInstructions, markup, verse, verseNotes });
+  if ('error' in flow) return { error: flow.error };
+  const extraTargets: ExtraTarget[] = [];
+  for (const raw of Array.isArray(rawExtraTargets) ? rawExtraTargets : []) {
+    const code = String(raw ?? '').trim();
+    if (extraTargets.length >= MAX_EXTRA_TARGETS) break;
+    if (!isExtraTargetLanguage(code) || code === targetLang || extraTargets.some((t) => t.targetLang === code)) continue;
+    const extraFlow = resolveTranslationFlow(lang, code, { style, styleInstructions, markup, verse });
+    // 与原文同语言等无效方向直接忽略，不影响主译文
+    if ('error' in extraFlow) continue;
+    extraTargets.push({ targetLang: code, layout: extraFlow.layout, transPrompt: extraFlow.transPrompt });
+  }
+  return {
+    paragraphs: paragraphs.map((p) => String(p ?? '')),
+    sourceLang: lang,
+    targetLang,
+    analysisLang: flow.analysisLang,
+    layout: flow.layout,
+    transPrompt: flow.transPrompt,
+    extraTargets,
+    skipAnalysis: skipAnalysis === true,
+    glossary,
+    consistency: consistency === true,
+    style,
+    styleInstructions,
+    systemPrompt: buildTranslationSystemPrompt(style),
+    markup,
+    links: markup ? normalizeInlineLinks(rawLinks) : [],
+    verse,
+    verseNotes,
+  };
+}
+
+/** 剥离原文与译文中的格式占位标签，格式存入 marks；keepTarget 为 false 时（译文栏将被编码）不保留译文格式 */
+function withInlineMarks(pair: ParagraphPair, layout: PairLayout, links: string[], keepTarget = true): ParagraphPair {
+  const [srcField, tgtField] = layout === 'to_en' ? (['zh', 'en'] as const) : (['en', 'zh'] as const);
+  const source = parseInlineMarkup(pair[srcField], links);
+  const target = parseInlineMarkup(pair[tgtField], links);
+  const targetMarks = keepTarget ? target.marks : [];
+  return {
+    ...pair,
+    [srcField]: source.text,
+    [tgtField]: target.text,
+    ...(source.marks.length > 0 || targetMarks.length > 0 ? { marks: { source: source.marks, target: targetMarks } } : {}),
+  };
+}
+
+/** 诗节按行对齐，其余按句 */
+function withSentenceAlignment(pair: ParagraphPair, layout: PairLayout): ParagraphPair {
+  const align = pair.verse ? alignLines : alignSentences;
+  const sentences = layout === 'to_en' ? align(pair.zh, pair.en) : align(pair.en, pair.zh);
+  return sentences ? { ...pair, sentences } : pair;
+}
+
+/** 失败块的占位：原文放在原文栏，译文栏留空 */
+function sourceOnlyPairs(chunk: string[], layout: PairLayout): ParagraphPair[] {
+  return chunk.map((src) => (layout === 'to_en' ? { en: '', zh: src } : { en: src, zh: '' }));
+}
+
+/**
+ * 执行翻译任务。所有块与 analysis 并行发起；每块完成即 emit chunk_done，失败则 emit chunk_error
+ * 并保留原文，不影响其他块。callModel 由调用方注入（本地 server 使用带缓存的版本）。
+ * 传入 checkpoint 时已存档的块与分析直接重放，其余块完成后先存档再推送，断线后可按 jobId 续传。
+ * 其余选项见 RunTranslationJobOptions。
+ * 返回汇总结果（调用方负责发送 done）；仅当所有块都失败时抛出 Error。
+ */
+export async function runTranslationJob(
+  job: TranslationJob,
+  llm: LlmProvider,
+  callModel: CallModel,
+  emit: (event: TranslationStreamEvent) => void = () => {},
+  { cache = null, signal, checkpoint, usage = createUsageMeter(), partial = false }: RunTranslationJobOptions = {}
+): Promise<TranslationJobResult> {
+  const {
+    paragraphs,
+    sourceLang,
+    targetLang,
+    analysisLang,
+    layout,
+    transPrompt,
+    extraTargets,
+    skipAnalysis,
+    glossary,
+    consistency,
+    style,
+    styleInstructions,
+    markup,
+    links,
+    verse,
+    verseNotes,
+  } = job;
+  // 分析与一致性上下文只需纯文本
+  const plainParagraphs = markup ? paragraphs.map(stripInlineMarkup) : paragraphs;
+  const finishMarkup = (pairs: ParagraphPair[]) =>
+    markup ? pairs.map((p) => withInlineMarks(p, layout, links, targetLang !== 'morse' && targetLang !== 'aki')) : pairs;
+  // 取消信号随每次模型调用下传；用量按用途计入任务，块内调用另计入该块（随存档保存）
+  const callOpts = (kind: UsageKind, chunkUsage?: UsageMeter): LlmCallOptions => ({
+    signal,
+    onUsage: (u) => {
+      usage.record(kind, u);
+      chunkUsage?.record(kind, u);
+    },
+  });
+  const callModelAs =
+    (kind: UsageKind, chunkUsage?: UsageMeter): CallModel =>
+    (prompt, opts) =>
+      callModel(prompt, { ...opts, ...callOpts(kind, chunkUsage) });
+  const chunks = splitIntoChunks(paragraphs, CHUNK_SIZE);
+  // 网址、代码、带单位的数字与 {{…}} 标记换成占位符再送模型，译文返回后换回；原文栏显示换回后的文本（去掉标记的花括号）
+  const maskedChunks = chunks.map((chunk) => chunk.map(maskProtectedSpans));
+  const sourceChunks = maskedChunks.map((chunk) => chunk.map((m) => restoreProtectedSpans(m.text, m.spans)));
+  const total = chunks.length;
+  const offsets: number[] = [];
+  let cursor = 0;
+  for (const chunk of chunks) {
+    offsets.push(cursor);
+    cursor += chunk.length;
+  }
+
+  const allTranslations: ParagraphPair[][] = new Array(total);
+  const englishPairsForMorseFallback: ParagraphPair[][] | undefined =
+    (targetLang === 'morse' || targetLang === 'aki') ? new Array(total) : undefined;
+  const failedChunks: FailedChunk[] = [];
+  const glossaryIssues: GlossaryIssue[] = [];
+  const unalignedParagraphs: number[] = [];
+  let cachedParagraphs = 0;
+  // 密文目标的译文已编码，无法比对术语
+  const checkGlossary = glossary.length > 0 && targetLang !== 'morse' && targetLang !== 'aki';
+  let completedCount = 0;
+
+  // 各块的排队位置；只在本任务的最前位置变化时推送，避免每次出队都刷屏
+  const queuePositions: number[] = new Array(total).fill(0);
+  let lastQueuePosition = 0;
+  const onChunkQueuePosition = (i: number) => (position: number) => {
+    queuePositions[i] = position;
+    const waitingPositions = queuePositions.filter((p) => p > 0);
+    const front = waitingPositions.length > 0 ? Math.min(...waitingPositions) : 0;
+    if (front === lastQueuePosition) return;
+    lastQueuePosition = front;
+    emit({
+      type: 'progress',
+      chunk: completedCount,
+      total,
+      percent: Math.round((completedCount / total) * 100),
+      step: front > 0 ? `排队中：${waitingPositions.length} 块等待，最前位于第 ${front} 位` : `翻译第 ${completedCount}/${total} 段`,
+      queuePosition: front,
+    });
+  };
+
+  emit({
+    type: 'start',
+    ...(checkpoint ? { jobId: checkpoint.jobId } : {}),
+    total,
+    layout,
+    extraTargets: extraTargets.map((t) => t.targetLang),
+    sources: markup ? sourceChunks.flat().map(stripInlineMarkup) : sourceChunks.flat(),
+    chunks: chunks.map((chunk, i) => ({ chunkIndex: i + 1, offset: offsets[i]!, count: chunk.length })),
+  });
+  emit({ type: 'progress', chunk: 0, total, percent: 0, step: `准备翻译共 ${total} 段...` });
+
+  const restoredChunks = checkpoint?.chunks ?? new Map<number, ChunkCheckpoint>();
+  const pendingChunks = chunks.map((_, i) => i).filter((i) => !restoredChunks.has(i + 1));
+
+  // 分析失败不影响译文，按无分析处理
+  const analysisPromise: Promise<Record<string, unknown> | null> = skipAnalysis
+    ? Promise.resolve(null)
+    : checkpoint?.analysis
+      ? Promise.resolve(checkpoint.analysis)
+      : callModelAs('analysis')(buildAnalysisOnlyPrompt(plainParagraphs, analysisLang, targetLang))
+          .then((json) => {
+            void checkpoint?.saveAnalysis(json).catch((err: unknown) => console.error('job analysis save failed:', err));
+            return json;
+          })
+          .catch((err: unknown) => {
+            console.error('analysis failed:', err);
+            return null;
+          });
+
+  // 一致性模式：先提炼摘要与专名译法（与 analysis 并行），各块再带着它与上一块结尾并行翻译
+  let sharedContext: ChunkContext | null = null;
+  if (consistency && total > 1 && pendingChunks.length > 0) {
+    emit({ type: 'progress', chunk: 0, total, percent: 0, step: '正在提炼全文上下文（一致性模式）...' });
+    try {
+      sharedContext = normalizeChunkContext(
+        await callModelAs('analysis')(buildConsistencyContextPrompt(plainParagraphs, sourceLang, targetLang, glossary))
+      );
+      // 用户术语表优先，去掉与之重复的专名
+      const fixedTerms = new Set(glossary.map((g) => g.source.toLowerCase()));
+      if (sharedContext) {
+        sharedContext.entities = sharedContext.entities.filter((e) => !fixedTerms.has(e.source.toLowerCase()));
+      }
+    } catch (err: unknown) {
+      console.error('consistency context failed:', err);
+    }
+  }
+  /** 专名译法只对应主译文语言，附加语言只沿用摘要与上一块结尾 */
+  const chunkPromptOptions = (i: number, primary = true): PromptOptions | undefined => {
+    if (!consistency || total <= 1) return undefined;
+    const previousTail = i > 0 ? stripInlineMarkup(sourceChunks[i - 1]!.join('\n\n')).slice(-PREVIOUS_TAIL_CHARS) : undefined;
+    const entities = primary ? sharedContext?.entities ?? [] : [];
+    return { context: { summary: sharedContext?.summary ?? '', entities, previousTail } };
+  };
+
+  const primaryTarget: ExtraTarget = { targetLang, layout, transPrompt };
+  const isPrimary = (target: ExtraTarget) => target === primaryTarget;
+  const translatedText = (p: ParagraphPair, l: PairLayout) => (l === 'to_en' ? p.en : p.zh);
+  /** 诗歌模式：段落标为诗节；格律说明只随主译文，rawNotes 与 pairs 一一对应 */
+  const withVerse = (pairs: ParagraphPair[], target: ExtraTarget, rawNotes?: unknown): ParagraphPair[] => {
+    if (!verse) return pairs;
+    const notes = verseNotes && isPrimary(target) && Array.isArray(rawNotes) ? rawNotes : [];
+    return pairs.map((p, j) => ({ ...p, verse: normalizeVerseNotes(notes[j]) }));
+  };
+
+  /** 单段重译（同一提示词模板，只含这一段），用于修复错位；失败返回 null */
+  const retranslateSingle = async (
+    src: string,
+    chunkIdx: number,
+    target: ExtraTarget,
+    chunkUsage: UsageMeter
+  ): Promise<ParagraphPair | null> => {
+    try {
+      const json = await callModelAs('translation', chunkUsage)(target.transPrompt([src], chunkPromptOptions(chunkIdx, isPrimary(target))));
+      const raw = normalizeTranslationToArray(json?.translation, 1);
+      // 单段仍被拆成多条时拼回一段（诗歌模式下多条即各行）
+      const single = raw.length > 1 && raw.every((v) => typeof v === 'string') ? [raw.join(verse ? '\n' : '\n\n')] : raw.slice(0, 1);
+      const [pair] = withVerse(mergeTranslation([src], single, target.layout), target, json?.notes);
+      return pair && translatedText(pair, target.layout).trim() ? pair : null;
+    } catch (err: unknown) {
+      console.error('paragraph repair failed:', err);
+      return null;
+    }
+  };
+
+  const modelId = describeLlmProvider(llm);
+  // 一致性模式的专名译法也影响译文，与术语表一起计入缓存键（摘要与上一块结尾不计入，以免改一处全部失效）
+  const cacheKeyFor = (text: string, target: ExtraTarget) =>
+    paragraphCacheKey({
+      text,
+      sourceLang,
+      targetLang: target.targetLang,
+      model: modelId,
+      style: `${style}${verse ? '\nverse' : ''}\n${styleInstructions}`,
+      glossary: isPrimary(target)
+        ? selectGlossaryForParagraphs([...glossary, ...(sharedContext?.entities ?? [])], [text])
+        : [],
+    });
+  const pairWithTranslation = (src: string, translated: string, l: PairLayout): ParagraphPair =>
+    l === 'to_en' ? { en: translated, zh: src } : { en: src, zh: translated };
+
+  /**
+   * 主译文一块的逐字推送：节流解析模型已生成的文本，换回占位符、去掉格式标签后推送。
+   * missing 为送模型的段落在块内的位置，其余位置沿用 pairs 中的缓存译文；密文目标不推送（译文要编码后才显示）。
+   * 请求重试时模型从头生成，新的输出超过已推送的长度前不再推送，客户端已显示的译文不会倒退
+   */
+  const partialTextHandler = (
+    i: number,
+    masked: MaskedText[],
+    missing: number[],
+    pairs: ParagraphPair[],
+    target: ExtraTarget
+  ): ((raw: string) => void) | undefined => {
+    if (!partial || !isPrimary(target) || targetLang === 'morse' || targetLang === 'aki') return undefined;
+    let lastEmit = 0;
+    let sentChars = 0;
+    return (raw) => {
+      const now = Date.now();
+      if (now - lastEmit < PARTIAL_INTERVAL_MS) return;
+      const generated = parsePartialTranslation(raw);
+      const generatedChars = generated.reduce((n, t) => n + t.length, 0);
+      if (generatedChars <= sentChars) return;
+      lastEmit = now;
+      sentChars = generatedChars;
+      const texts = pairs.map((p) => translatedText(p, target.layout));
+      generated.slice(0, missing.length).forEach((t, m) => (texts[missing[m]!] = trimIncompleteMarkers(t)));
+      emit({
+        type: 'chunk_partial',
+        chunkIndex: i + 1,
+        offset: offsets[i]!,
+        texts: texts.map((t, j) => {
+          const restored = restoreProtectedSpans(t, masked[j]!.spans);
+          return markup ? stripInlineMarkup(restored) : restored;
+        }),
+      });
+    };
+  };
+
+  /**
+   * 把一块译成某一目标语言：先查段落缓存，只把未命中的段落发给模型，再做对齐与占位符校验并修复；
+   * 缓存与模型都只见打码后的文本，返回前换回占位符
+   */
+  const translateChunk = async (
+    masked: MaskedText[],
+    i: number,
+    target: ExtraTarget,
+    chunkUsage: UsageMeter
+  ): Promise<{ pairs: ParagraphPair[]; unaligned: number[]; cached: number }> => {
+    const chunk = masked.map((m) => m.text);
+    const restore = (pairs: ParagraphPair[]): ParagraphPair[] =>
+      pairs.map((p, j) => ({ ...p, en: restoreProtectedSpans(p.en, masked[j]!.spans), zh: restoreProtectedSpans(p.zh, masked[j]!.spans) }));
+    // 缓存只存译文，要格律说明时主译文整块送模型
+    const useCache = cache && !(verseNotes && isPrimary(target));
+    const keys = cache ? chunk.map((text) => cacheKeyFor(text, target)) : [];
+    const hits = useCache
+      ? await cache.getMany(keys).catch((err: unknown) => {
+          console.error('paragraph cache read failed:', err);
+          return new Map<string, string>();
+        })
+      : new Map<string, string>();
+    const missing = chunk.map((_, j) => j).filter((j) => !hits.has(keys[j]!));
+    const cached = chunk.length - missing.length;
+    const pairs = withVerse(
+      chunk.map((src, j) => pairWithTranslation(src, hits.get(keys[j]!) ?? '', target.layout)),
+      target
+    );
+    if (missing.length === 0) return { pairs: restore(pairs), unaligned: [], cached };
+
+    const missingSources = missing.map((j) => chunk[j]!);
+    const chunkJson = await callModelAs('translation', chunkUsage)(
+      target.transPrompt(missingSources, chunkPromptOptions(i, isPrimary(target))),
+      isPrimary(target)
+        ? { onQueuePosition: onChunkQueuePosition(i), onText: partialTextHandler(i, masked, missing, pairs, target) }
+        : undefined
+    );
+    const chunkRaw = normalizeTranslationToArray(chunkJson?.translation, missingSources.length);
+    if (chunkRaw.length === 0) throw new Error('模型返回格式异常，请重试');
+    const missingPairs = withVerse(mergeTranslation(missingSources, chunkRaw, target.layout), target, chunkJson?.notes);
+
+    // 对齐校验：条数不符或长度比异常的段落逐段重译，仍失败的标记出来；丢了占位符、诗节行数不符的段落同样重译一次
+    const misaligned = new Set(
+      findMisalignedParagraphs(
+        missingSources,
+        missingPairs.map((p) => translatedText(p, target.layout)),
+        chunkRaw.length
+      )
+    );
+    const lostPlaceholders = (m: number) =>
+      findLostPlaceholders(missingSources[m]!, translatedText(missingPairs[m]!, target.layout)).length > 0;
+    const lineMismatch = (m: number) =>
+      verse && countVerseLines(missingSources[m]!) !== countVerseLines(translatedText(missingPairs[m]!, target.layout));
+    const toRepair = missingSources.map((_, m) => m).filter((m) => misaligned.has(m) || lostPlaceholders(m) || lineMismatch(m));
+    const unalignedLocal = new Set<number>();
+    if (toRepair.length > 0) {
+      emit({
+        type: 'progress',
+        chunk: completedCount,
+        total,
+        percent: Math.round((completedCount / total) * 100),
+        step: `校对第 ${i + 1} 块的段落对齐（${toRepair.length} 段重译）...`,
+      });
+      for (const [n, m] of toRepair.entries()) {
+        const repaired = n < MAX_REPAIRS_PER_CHUNK ? await retranslateSingle(missingSources[m]!, i, target, chunkUsage) : null;
+        if (repaired) missingPairs[m] = repaired;
+        else if (misaligned.has(m)) unalignedLocal.add(m);
+        // 重译后行数仍对不上的诗节同样标出
+        if (lineMismatch(m)) unalignedLocal.add(m);
+      }
+    }
+
+    const toStore: { key: string; translation: string }[] = [];
+    missing.forEach((j, m) => {
+      pairs[j] = missingPairs[m]!;
+      const translated = translatedText(missingPairs[m]!, target.layout).trim();
+      if (cache && translated && !unalignedLocal.has(m) && !lostPlaceholders(m)) toStore.push({ key: keys[j]!, translation: translated });
+    });
+    if (cache && toStore.length > 0) {
+      await cache.putMany(toStore).catch((err: unknown) => console.error('paragraph cache write failed:', err));
+    }
+    return { pairs: restore(pairs), unaligned: [...unalignedLocal].map((m) => offsets[i]! + missing[m]!), cached };
+  };
+
+  /** 附加语言的一块：失败时该语言留空，不影响主译文 */
+  const translateChunkExtras = (chunk: MaskedText[], i: number, chunkUsage: UsageMeter): Promise<Record<string, string>[]> =>
+    Promise.all(
+      extraTargets.map((target) =>
+        translateChunk(chunk, i, target, chunkUsage)
+          .then(({ pairs }) =>
+            pairs.map((p) => (markup ? stripInlineMarkup(translatedText(p, target.layout)) : translatedText(p, target.layout)))
+          )
+          .catch((err: unknown) => {
+            console.error(`chunk ${i + 1}/${total} (${target.targetLang}) failed:`, err instanceof Error ? err.message : err);
+            return chunk.map(() => '');
+          })
+      )
+    ).then((columns) =>
+      chunk.map((_, j) => Object.fromEntries(extraTargets.map((target, t) => [target.targetLang, columns[t]![j]!])))
+    );
+
+  /** 记录一块的结果并推送（新完成与续传重放共用） */
+  const completeChunk = (i: number, done: ChunkCheckpoint) => {
+    unalignedParagraphs.push(...done.unaligned);
+    glossaryIssues.push(...done.glossaryIssues);
+    cachedParagraphs += done.cachedParagraphs;
+    if (englishPairsForMorseFallback) englishPairsForMorseFallback[i] = done.plainPairs ?? done.pairs;
+    allTranslations[i] = done.pairs;
+    completedCount++;
+    const pct = Math.round((completedCount / total) * 100);
+    emit({ type: 'progress', chunk: completedCount, total, percent: pct, step: `翻译第 ${completedCount}/${total} 段`, queuePosition: lastQueuePosition });
+    emit({
+      type: 'chunk_done',
+      chunkIndex: i + 1,
+      offset: offsets[i]!,
+      count: chunks[i]!.length,
+      pairs: done.pairs,
+      glossaryIssues: done.glossaryIssues,
+      unaligned: done.unaligned,
+    });
+  };
+
+  // 续传：已存档的块先按原顺序重放，其用量只计入任务汇总
+  const restoredUsage = createUsageMeter();
+  for (const [i] of chunks.entries()) {
+    const restored = restoredChunks.get(i + 1);
+    if (!restored) continue;
+    restoredUsage.add(restored.usage);
+    completeChunk(i, restored);
+  }
+
+  // 其余翻译块并行发起（附加语言与主译文同时进行），每块完成后立即推送（带 offset，客户端按位置放置）
+  const chunkPromises = pendingChunks.map((i) => {
+    const chunkUsage = createUsageMeter();
+    return Promise.all([
+      translateChunk(maskedChunks[i]!, i, primaryTarget, chunkUsage),
+      translateChunkExtras(maskedChunks[i]!, i, chunkUsage),
+    ]).then(async ([primary, chunkExtras]) => {
+      const { unaligned: chunkUnaligned, cached } = primary;
+      const chunkPairs = finishMarkup(primary.pairs);
+      const chunkGlossaryIssues = checkGlossary
+        ? checkGlossaryCompliance(
+            chunkPairs.map((p) => (layout === 'to_en' ? { source: p.zh, translation: p.en } : { source: p.en, translation: p.zh })),
+            glossary,
+            offsets[i]!
+          )
+        : [];
+      // 编码结果（摩斯 / AKI码）没有句子可言，只为普通译文做句子对齐
+      const encodedPairs =
+        targetLang === 'morse' ? applyMorseEncodingToPairs(chunkPairs)
+        : targetLang === 'aki'
+          ? await applyAkiEncodingToPairsAsync(chunkPairs, layout, (t) => fetchAkiMemePairDeepseek(t, llm, callOpts('meme', chunkUsage)))
+          : chunkPairs.map((p) => withSentenceAlignment(p, layout));
+      const chunkPairsOut =
+        extraTargets.length > 0 ? encodedPairs.map((p, j) => ({ ...p, extra: chunkExtras[j] })) : encodedPairs;
+      throwIfAborted(signal);
+      const done: ChunkCheckpoint = {
+        chunkIndex: i + 1,
+        pairs: chunkPairsOut,
+        ...(englishPairsForMorseFallback ? { plainPairs: chunkPairs } : {}),
+        glossaryIssues: chunkGlossaryIssues,
+        unaligned: chunkUnaligned,
+        cachedParagraphs: cached,
+        usage: chunkUsage.summary(),
+      };
+      // 先存档再推送：客户端收到的块在续传时一定能重放
+      await checkpoint?.saveChunk(done).catch((err: unknown) => console.error('job checkpoint save failed:', err));
+      completeChunk(i, done);
+    }).catch((err: unknown) => {
+      // 已取消：不再推送，任务结束时统一抛出
+      if (signal?.aborted) return;
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`chunk ${i + 1}/${total} failed:`, message);
+      const placeholder = finishMarkup(withVerse(sourceOnlyPairs(sourceChunks[i]!, layout), primaryTarget));
+      allTranslations[i] = placeholder;
+      if (englishPairsForMorseFallback) englishPairsForMorseFallback[i] = placeholder;
+      const failed: FailedChunk = { chunkIndex: i + 1, offset: offsets[i]!, count: chunks[i]!.length, message };
+      failedChunks.push(failed);
+      completedCount++;
+      emit({ type: 'chunk_error', ...failed });
+    });
+  });
+
+  const [analysisJson] = await Promise.all([analysisPromise, ...chunkPromises]);
+  throwIfAborted(signal);
+
+  if (failedChunks.length === total) {
+    throw new Error(failedChunks[0]?.message || '翻译失败，请重试');
+  }
+  const flatTranslations = allTranslations.flat();
+  if (flatTranslations.length === 0) {
+    throw new Error('模型返回格式异常，请重试');
+  }
+  failedChunks.sort((a, b) => a.offset - b.offset);
+  glossaryIssues.sort((a, b) => a.paraIndex - b.paraIndex);
+  unalignedParagraphs.sort((a, b) => a - b);
+
+  const flatForTitleFallback = englishPairsForMorseFallback ? englishPairsForMorseFallback.flat() : flatTranslations;
+  const { title, author } = resolveTitleAuthor(analysisJson ?? undefined, flatForTitleFallback, layout, targetLang);
+  const analysis = normalizeAnalysis(analysisJson?.analysis);
+  return {
+    title,
+    author,
+    translation: flatTranslations,
+    analysis,
+    failedChunks,
+    glossaryIssues,
+    unalignedParagraphs,
+    cachedParagraphs,
+    extraTargets: extraTargets.map((t) => t.targetLang),
+    usage: mergeUsage(usage.summary(), restoredUsage.summary())!,
+  };
+}
@@ -0,0 +1,329 @@
+/**
+ * 可续传翻译任务的存档：/api/translate-stream 为每个任务分配 ID，保存请求体、已完成的块与全文分析。
+ * 手机网络中断后客户端带 jobId 重新请求，已完成（已付费）的块直接重放，只翻译剩余的块。
+ * 任务记下创建者（见 quotaStore.ts 的 resolveRequesterKey），只有创建者能续传；续传不另扣配额，
+ * 每个任务最多续传 MAX_JOB_RESUMES 次，避免拿着 jobId 反复免费重译失败的块。
+ * 本地 server 用 SQLite（better-sqlite3），Vercel 用 Neon。
+ *
+ * 环境变量：
+ *   TRANSLATION_JOBS            sqlite | neon | off（默认：本地 sqlite，Vercel 有 DATABASE_URL 时 neon）
+ *   TRANSLATION_JOBS_PATH       SQLite 文件路径（默认 .cache/translation-jobs.db）
+ *   TRANSLATION_JOBS_TTL_HOURS  超过该小时数未更新的任务删除（默认 24）
+ */
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { neon } from '@neondatabase/serverless';
+import { parseTranslationRequest, type ChunkCheckpoint, type JobCheckpoint, type TranslationJob } from './translationJob.js';
+
+type StoredJob = {
+  request: unknown;
+  /** 创建者；本字段加入之前建的任务为 null */
+  owner: string | null;
+  analysis: Record<string, unknown> | null;
+  chunks: ChunkCheckpoint[];
+};
+
+export interface TranslationJobStore {
+  /** 保存新任务的请求体与创建者，返回空进度的 checkpoint */
+  create(request: unknown, owner: string): Promise<JobCheckpoint>;
+  /** 载入任务的请求体、创建者与已完成进度；不存在或已过期返回 null */
+  load(id: string): Promise<{ request: unknown; owner: string | null; checkpoint: JobCheckpoint } | null>;
+  /** 记一次续传；已达上限时返回 false */
+  claimResume(id: string): Promise<boolean>;
+}
+
+/** 底层存储只负责读写，checkpoint 组装与过期清理由 withJobPolicy 统一处理 */
+interface JobBackend {
+  insert(id: string, request: string, owner: string, now: number): Promise<void>;
+  get(id: string, expireBefore: number): Promise<StoredJob | null>;
+  /** resumes 小于 max 时加一并返回 true */
+  incrementResumes(id: string, max: number): Promise<boolean>;
+  putChunk(id: string, chunk: ChunkCheckpoint, now: number): Promise<void>;
+  putAnalysis(id: string, analysis: Record<string, unknown>, now: number): Promise<void>;
+  evict(expireBefore: number): Promise<void>;
+}
+
+const JOBS_TABLE_SQL = `CREATE TABLE IF NOT EXISTS translation_jobs (
+  id TEXT PRIMARY KEY,
+  request TEXT NOT NULL,
+  owner TEXT,
+  resumes INTEGER NOT NULL DEFAULT 0,
+  analysis TEXT,
+  created_at_ms BIGINT NOT NULL,
+  updated_at_ms BIGINT NOT NULL
+)`;
+
+const CHUNKS_TABLE_SQL = `CREATE TABLE IF NOT EXISTS translation_job_chunks (
+  job_id TEXT NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  data TEXT NOT NULL,
+  PRIMARY KEY (job_id, chunk_index)
+)`;
+
+/** 本表早期版本没有的列，建表后补上 */
+const ADDED_JOB_COLUMNS: [name: string, type: string][] = [
+  ['owner', 'TEXT'],
+  ['resumes', 'INTEGER NOT NULL DEFAULT 0'],
+];
+
+/** 两次清理之间至少间隔，避免每次建任务都扫表 */
+const EVICT_INTERVAL_MS = 10 * 60 * 1000;
+
+/** 单个任务最多续传的次数（客户端每次翻译最多自动续传 3 次，留出余量） */
+const MAX_JOB_RESUMES = 5;
+
+function readIntEnv(name: string, fallback: number): number {
+  const n = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+type JobRow = { request: string; owner: string | null; analysis: string | null };
+
+function parseStoredJob({ request, owner, analysis }: JobRow, chunkRows: { data: string }[]): StoredJob {
+  return {
+    request: JSON.parse(request),
+    owner,
+    analysis: analysis ? (JSON.parse(analysis) as Record<string, unknown>) : null,
+    chunks: chunkRows.map((r) => JSON.parse(r.data) as ChunkCheckpoint),
+  };
+}
+
+function withJobPolicy(backend: JobBackend): TranslationJobStore {
+  const ttlMs = readIntEnv('TRANSLATION_JOBS_TTL_HOURS', 24) * 60 * 60 * 1000;
+  let lastEvictAt = 0;
+
+  const checkpointFor = (jobId: string, stored: StoredJob | null): JobCheckpoint => ({
+    jobId,
+    chunks: new Map((stored?.chunks ?? []).map((c) => [c.chunkIndex, c])),
+    analysis: stored?.analysis ?? null,
+    saveChunk: (chunk) => backend.putChunk(jobId, chunk, Date.now()),
+    saveAnalysis: (analysis) => backend.putAnalysis(jobId, analysis, Date.now()),
+  });
+
+  return {
+    async create(request, owner) {
+      const now = Date.now();
+      if (now - lastEvictAt > EVICT_INTERVAL_MS) {
+        lastEvictAt = now;
+        await backend.evict(now - ttlMs).catch((err: unknown) => console.error('translation job evict failed:', err));
+      }
+      const id = crypto.randomUUID();
+      await backend.insert(id, JSON.stringify(request ?? {}), owner, now);
+      return checkpointFor(id, null);
+    },
+    async load(id) {
+      const stored = await backend.get(id, Date.now() - ttlMs);
+      return stored ? { request: stored.request, owner: stored.owner, checkpoint: checkpointFor(id, stored) } : null;
+    },
+    claimResume(id) {
+      return backend.incrementResumes(id, MAX_JOB_RESUMES);
+    },
+  };
+}
+
+/** better-sqlite3 为原生模块，按需加载；加载或建库失败时返回 null（任务不可续传） */
+async function createSqliteBackend(filePath: string): Promise<JobBackend | null> {
+  try {
+    const { default: Database } = await import('better-sqlite3');
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const db = new Database(filePath);
+    db.pragma('journal_mode = WAL');
+    db.exec(JOBS_TABLE_SQL);
+    db.exec(CHUNKS_TABLE_SQL);
+    // SQLite 的 ADD COLUMN 不支持 IF NOT EXISTS，按现有列补齐
+    const columns = new Set((db.prepare('PRAGMA table_info(translation_jobs)').all() as { name: string }[]).map((c) => c.name));
+    for (const [name, type] of ADDED_JOB_COLUMNS) {
+      if (!columns.has(name)) db.exec(`ALTER TABLE translation_jobs ADD COLUMN ${name} ${type}`);
+    }
+    const insertJob = db.prepare(
+      'INSERT INTO translation_jobs (id, request, owner, resumes, analysis, created_at_ms, updated_at_ms) VALUES (?, ?, ?, 0, NULL, ?, ?)'
+    );
+    const selectJob = db.prepare('SELECT request, owner, analysis FROM translation_jobs WHERE id = ? AND updated_at_ms >= ?');
+    const incrementResumes = db.prepare('UPDATE translation_jobs SET resumes = resumes + 1 WHERE id = ? AND resumes < ?');
+    const selectChunks = db.prepare('SELECT data FROM translation_job_chunks WHERE job_id = ? ORDER BY chunk_index');
+    const upsertChunk = db.prepare(
+      `INSERT INTO translation_job_chunks (job_id, chunk_index, data) VALUES (?, ?, ?)
+       ON CONFLICT (job_id, chunk_index) DO UPDATE SET data = excluded.data`
+    );
+    const touchJob = db.prepare('UPDATE translation_jobs SET updated_at_ms = ? WHERE id = ?');
+    const setAnalysis = db.prepare('UPDATE translation_jobs SET analysis = ?, updated_at_ms = ? WHERE id = ?');
+    return {
+      async insert(id, request, owner, now) {
+        insertJob.run(id, request, owner, now, now);
+      },
+      async get(id, expireBefore) {
+        const row = selectJob.get(id, expireBefore) as JobRow | undefined;
+        if (!row) return null;
+        return parseStoredJob(row, selectChunks.all(id) as { data: string }[]);
+      },
+      async incrementResumes(id, max) {
+        return incrementResumes.run(id, max).changes > 0;
+      },
+      async putChunk(id, chunk, now) {
+        db.transaction(() => {
+          upsertChunk.run(id, chunk.chunkIndex, JSON.stringify(chunk));
+          touchJob.run(now, id);
+        })();
+      },
+      async putAnalysis(id, analysis, now) {
+        setAnalysis.run(JSON.stringify(analysis), now, id);
+      },
+      async evict(expireBefore) {
+        db.transaction(() => {
+          db.prepare('DELETE FROM translation_jobs WHERE updated_at_ms < ?').run(expireBefore);
+          db.exec('DELETE FROM translation_job_chunks WHERE job_id NOT IN (SELECT id FROM translation_jobs)');
+        })();
+      },
+    };
+  } catch (err: unknown) {
+    console.warn('翻译任务存档（SQLite）不可用，任务将不可续传：', err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+function createNeonBackend(url: string): JobBackend {
+  const sql = neon(url);
+  let ready: Promise<unknown> | null = null;
+  const ensureTables = () => {
+    ready ??= sql
+      .query(JOBS_TABLE_SQL)
+      .then(async () => {
+        for (const [name, type] of ADDED_JOB_COLUMNS) {
+          await sql.query(`ALTER TABLE translation_jobs ADD COLUMN IF NOT EXISTS ${name} ${type}`);
+        }
+      })
+      .then(() => sql.query(CHUNKS_TABLE_SQL))
+      .catch((err: unknown) => {
+        ready = null;
+        throw err;
+      });
+    return ready;
+  };
+  return {
+    async insert(id, request, owner, now) {
+      await ensureTables();
+      await sql.query(
+        'INSERT INTO translation_jobs (id, request, owner, resumes, analysis, created_at_ms, updated_at_ms) VALUES ($1, $2, $3, 0, NULL, $4, $4)',
+        [id, request, owner, now]
+      );
+    },
+    async get(id, expireBefore) {
+      await ensureTables();
+      const rows = (await sql.query(
+        'SELECT request, owner, analysis FROM translation_jobs WHERE id = $1 AND updated_at_ms >= $2',
+        [id, expireBefore]
+      )) as JobRow[];
+      const row = rows[0];
+      if (!row) return null;
+      const chunkRows = (await sql.query(
+        'SELECT data FROM translation_job_chunks WHERE job_id = $1 ORDER BY chunk_index',
+        [id]
+      )) as { data: string }[];
+      return parseStoredJob(row, chunkRows);
+    },
+    async incrementResumes(id, max) {
+      await ensureTables();
+      const rows = (await sql.query(
+        'UPDATE translation_jobs SET resumes = resumes + 1 WHERE id = $1 AND resumes < $2 RETURNING resumes',
+        [id, max]
+      )) as { resumes: number }[];
+      return rows.length > 0;
+    },
+    async putChunk(id, chunk, now) {
+      await ensureTables();
+      await sql.query(
+        `INSERT INTO translation_job_chunks (job_id, chunk_index, data) VALUES ($1, $2, $3)
+         ON CONFLICT (job_id, chunk_index) DO UPDATE SET data = EXCLUDED.data`,
+        [id, chunk.chunkIndex, JSON.stringify(chunk)]
+      );
+      await sql.query('UPDATE translation_jobs SET updated_at_ms = $1 WHERE id = $2', [now, id]);
+    },
+    async putAnalysis(id, analysis, now) {
+      await ensureTables();
+      await sql.query('UPDATE translation_jobs SET analysis = $1, updated_at_ms = $2 WHERE id = $3', [
+        JSON.stringify(analysis),
+        now,
+        id,
+      ]);
+    },
+    async evict(expireBefore) {
+      await ensureTables();
+      await sql.query('DELETE FROM translation_jobs WHERE updated_at_ms < $1', [expireBefore]);
+      await sql.query('DELETE FROM translation_job_chunks WHERE job_id NOT IN (SELECT id FROM translation_jobs)');
+    },
+  };
+}
+
+let storePromise: Promise<TranslationJobStore | null> | null = null;
+
+/**
+ * 按环境变量创建（并复用）任务存档；defaultBackend 为未设置 TRANSLATION_JOBS 时的选择。
+ * 未配置或初始化失败时返回 null，翻译照常进行但不可续传。
+ */
+export function getTranslationJobStore(defaultBackend: 'sqlite' | 'neon'): Promise<TranslationJobStore | null> {
+  storePromise ??= (async () => {
+    const mode = (process.env.TRANSLATION_JOBS || '').trim().toLowerCase() || defaultBackend;
+    if (mode === 'off') return null;
+    if (mode === 'neon') {
+      const url = (process.env.DATABASE_URL || '').trim();
+      return url ? withJobPolicy(createNeonBackend(url)) : null;
+    }
+    const filePath = (process.env.TRANSLATION_JOBS_PATH || '').trim() || path.join('.cache', 'translation-jobs.db');
+    const backend = await createSqliteBackend(filePath);
+    return backend ? withJobPolicy(backend) : null;
+  })();
+  return storePromise;
+}
+
+/**
+ * 按请求体打开任务：带 jobId 时换成当初保存的请求体与进度（resumed 为 true），否则只校验请求、不落库。
+ * 任务不存在、已过期或不属于 owner 时一律 404，续传次数用尽时 429。
+ * 新任务在调用方扣过配额后再用 createJobCheckpoint 存档，被拒的请求不留下任务。
+ */
+export async function openTranslationJob(
+  store: TranslationJobStore | null,
+  body: unknown,
+  owner: string
+): Promise<
+  { job: TranslationJob; checkpoint?: JobCheckpoint; resumed: boolean } | { status: number; error: string; code?: string }
+> {
+  const rawId = (body as { jobId?: unknown } | null)?.jobId;
+  const jobId = typeof rawId === 'string' ? rawId.trim() : '';
+  if (jobId) {
+    const resumed = store
+      ? await store.load(jobId).catch((err: unknown) => {
+          console.error('translation job load failed:', err);
+          return null;
+        })
+      : null;
+    if (!resumed || resumed.owner !== owner) {
+      return { status: 404, error: '翻译任务不存在或已过期，请重新翻译', code: 'job_not_found' };
+    }
+    const job = parseTranslationRequest(resumed.request);
+    if ('error' in job) return { status: 400, error: job.error };
+    const claimed = await store!.claimResume(jobId).catch((err: unknown) => {
+      console.error('translation job resume claim failed:', err);
+      return false;
+    });
+    if (!claimed) return { status: 429, error: '该翻译任务续传次数过多，请重新翻译', code: 'job_resume_limit' };
+    return { job, checkpoint: resumed.checkpoint, resumed: true };
+  }
+  const job = parseTranslationRequest(body);
+  return 'error' in job ? { status: 400, error: job.error } : { job, resumed: false };
+}
+
+/** 存档新任务；存档不可用或写入失败时返回 undefined，翻译照常进行但不可续传 */
+export async function createJobCheckpoint(
+  store: TranslationJobStore | null,
+  body: unknown,
+  owner: string
+): Promise<JobCheckpoint | undefined> {
+  if (!store) return undefined;
+  try {
+    return await store.create(body, owner);
+  } catch (err: unknown) {
+    console.error('translation job create failed:', err);
+    return undefined;
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * 模糊翻译记忆：从历史记录的段落对中找出与新段落相似（75%–99%）的旧原文，
+ * 把旧译文作为参考随请求发给模型，并在阅读器中显示匹配度供直接采用。
+ * 完全相同（100%）的段落由段落缓存（paragraphCache.ts）负责，这里不再重复。
+ */
+
+/** 历史记录中的一对原文 / 译文 */
+export type MemoryEntry = { source: string; translation: string };
+
+/** 一条模糊匹配：text 为新段落原文，source / translation 为历史中的旧段落 */
+export type MemoryMatch = { text: string; source: string; translation: string; score: number };
+
+export const MIN_MEMORY_SCORE = 0.75;
+/** 单次请求最多携带的参考条数，避免提示词膨胀 */
+export const MAX_MEMORY_MATCHES = 200;
+/** 按共有词组预筛后，只对前几名计算编辑距离 */
+const MAX_CANDIDATES = 4;
+/** 出现在过多条目中的词组区分度低，不参与预筛 */
+const MAX_POSTING_RATIO = 0.2;
+
+/** 汉字、假名、谚文按单字切分，其余按连续字母 / 数字切词；忽略大小写与标点 */
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/** 相邻两词组成的键，用于倒排索引 */
+function tokenPairs(tokens: string[]): Set<string> {
+  const out = new Set<string>();
+  if (tokens.length === 1) out.add(tokens[0]!);
+  for (let i = 1; i < tokens.length; i++) out.add(`${tokens[i - 1]}\u0001${tokens[i]}`);
+  return out;
+}
+
+/** 词级编辑距离换算的相似度（1 = 完全相同） */
+function tokenSimilarity(a: string[], b: string[]): number {
+  const longer = Math.max(a.length, b.length);
+  if (longer === 0) return 1;
+  if (Math.min(a.length, b.length) / longer < MIN_MEMORY_SCORE) return 0;
+  let prev = new Array<number>(b.length + 1);
+  let curr = new Array<number>(b.length + 1);
+  for (let j = 0; j <= b.length; j++) prev[j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    curr[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j]! + 1, curr[j - 1]! + 1, prev[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    [prev, curr] = [curr, prev];
+  }
+  return 1 - prev[b.length]! / longer;
+}
+
+export type TranslationMemory = {
+  size: number;
+  /** 返回最相似且在 [75%, 100%) 之间的历史段落；没有则返回 null */
+  lookup(text: string): MemoryMatch | null;
+};
+
+/** 建立索引；同一原文出现多次时保留最先出现（调用方按新→旧传入即为最新译文） */
+export function buildTranslationMemory(entries: MemoryEntry[]): TranslationMemory {
+  const items: { source: string; translation: string; tokens: string[] }[] = [];
+  const seen = new Set<string>();
+  for (const e of entries) {
+    const source = e.source.trim();
+    const translation = e.translation.trim();
+    if (!source || !translation || seen.has(source)) continue;
+    seen.add(source);
+    const tokens = tokenize(source);
+    if (tokens.length > 0) items.push({ source, translation, tokens });
+  }
+
+  const postings = new Map<string, number[]>();
+  items.forEach((item, idx) => {
+    for (const key of tokenPairs(item.tokens)) {
+      const list = postings.get(key);
+      if (list) list.push(idx);
+      else postings.set(key, [idx]);
+    }
+  });
+  const maxPosting = Math.max(20, Math.floor(items.length * MAX_POSTING_RATIO));
+  const memo = new Map<string, MemoryMatch | null>();
+
+  const lookup = (text: string): MemoryMatch | null => {
+    const trimmed = text.trim();
+    if (memo.has(trimmed)) return memo.get(trimmed)!;
+    let best: MemoryMatch | null = null;
+    const tokens = tokenize(trimmed);
+    if (tokens.length > 0 && items.length > 0) {
+      const shared = new Map<number, number>();
+      const keys = tokenPairs(tokens);
+      for (const key of keys) {
+        const list = postings.get(key);
+        if (!list || list.length > maxPosting) continue;
+        for (const idx of list) shared.set(idx, (shared.get(idx) ?? 0) + 1);
+      }
+      const candidates = [...shared.entries()]
+        .filter(([, n]) => n / keys.size >= MIN_MEMORY_SCORE / 2)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_CANDIDATES);
+      for (const [idx] of candidates) {
+        const item = items[idx]!;
+        if (item.source === trimmed) continue;
+        const score = tokenSimilarity(tokens, item.tokens);
+        if (score >= MIN_MEMORY_SCORE && score < 1 && (!best || score > best.score)) {
+          best = { text: trimmed, source: item.source, translation: item.translation, score: Math.round(score * 100) / 100 };
+        }
+      }
+    }
+    memo.set(trimmed, best);
+    return best;
+  };
+
+  return { size: items.length, lookup };
+}
+
+/** 校验请求体中的记忆参考：去空白、限制分数区间与条数 */
+export function normalizeMemoryMatches(raw: unknown): MemoryMatch[] {
+  if (!Array.isArray(raw)) return [];
+  const out: MemoryMatch[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') continue;
+    const m = item as Partial<MemoryMatch>;
+    const text = String(m.text ?? '').trim();
+    const source = String(m.source ?? '').trim();
+    const translation = String(m.translation ?? '').trim();
+    const score = Number(m.score);
+    if (!text || !source || !translation || !(score >= MIN_MEMORY_SCORE && score <= 1)) continue;
+    out.push({ text, source, translation, score });
+    if (out.length >= MAX_MEMORY_MATCHES) break;
+  }
+  return out;
+}
+
+/** 只为本次提示词中出现的段落附上参考译文，按段落编号标注 */
+export function buildMemoryPromptBlock(matches: MemoryMatch[], paragraphs: string[]): string {
+  if (matches.length === 0) return '';
+  const byText = new Map(matches.map((m) => [m.text, m]));
+  const lines: string[] = [];
+  paragraphs.forEach((p, i) => {
+    const m = byText.get(p.trim());
+    if (!m) return;
+    lines.push(`# Paragraph ${i + 1}（相似度 ${Math.round(m.score * 100)}%）\n旧原文：${m.source}\n旧译文：${m.translation}`);
+  });
+  if (lines.length === 0) return '';
+  return `【翻译记忆】以下段落与此前译过的版本相似，可沿用旧译文的措辞与译名，但必须按本次原文翻译，差异处以本次原文为准：
+${lines.join('\n\n')}`;
+}
@@ -0,0 +1,536 @@
+/**
+ * 翻译流水线的共享部分：分块、提示词、模型输出规范化、标题/作者与分析整理。
+ * 本地 server.ts 与 Vercel api/translate*.ts 共用，保证两端行为一致。
+ */
+import { encodeInternationalMorse } from './morseEncode.js';
+import { encodeAki, wrapAkiDisplayIfFirst } from './customCipher.js';
+import { buildGlossaryPromptBlock, selectGlossaryForParagraphs, type GlossaryEntry } from './glossary.js';
+import { buildMemoryPromptBlock, type MemoryMatch } from './translationMemory.js';
+import { buildStylePromptBlock, buildTranslationSystemPrompt, type TranslationStyle } from './translationStyle.js';
+import type { SentenceAlignment } from './sentenceAlignment.js';
+import { INLINE_MARKUP_PROMPT_BLOCK, hasInlineMarkup, type InlineMarks } from './inlineMarkup.js';
+import { PROTECTED_SPANS_PROMPT_BLOCK, hasProtectedPlaceholders } from './protectedSpans.js';
+import { VERSE_NOTES_PROMPT_BLOCK, VERSE_PROMPT_BLOCK, joinVerseLines, type VerseNotes } from './verse.js';
+import {
+  getLanguage,
+  isTargetLanguage,
+  languagePromptName,
+  pairLayoutFor,
+  promptTargetLanguage,
+  type PairLayout,
+  type TargetLanguageCode,
+} from './languages.js';
+
+export type { PairLayout };
+/**
+ * extra：「同时译成」的附加译文，按语言代码存放（en / zh 仍按 layout 存原文与主译文）
+ * sentences：原文与主译文的句子对齐（偏移相对原文栏 / 译文栏，见 sentenceAlignment.ts）
+ * marks：导入文档的段内格式（同上，见 inlineMarkup.ts）
+ * verse：诗歌模式下的一节（按行对齐显示），可带韵式与格律说明（见 verse.ts）
+ */
+export type ParagraphPair = {
+  en: string;
+  zh: string;
+  extra?: Record<string, string>;
+  sentences?: SentenceAlignment;
+  marks?: InlineMarks;
+  verse?: VerseNotes;
+};
+
+/** 默认（文学）文体的系统提示词；按文体生成见 translationStyle.ts */
+export const TRANSLATION_SYSTEM_PROMPT = buildTranslationSystemPrompt();
+
+/** 译文提示词版本：修改提示词模板后递增，使段落缓存（paragraphCache.ts）中的旧译文失效 */
+export const TRANSLATION_PROMPT_VERSION = 2;
+
+/** 规则兜底：从译文前几段中提取标题和作者 */
+export function extractTitleAuthorFromTranslation(
+  translation: { en: string; zh: string }[]
+): { title?: { en: string; zh: string }; author?: { en: string; zh: string } } {
+  const result: { title?: { en: string; zh: string }; author?: { en: string; zh: string } } = {};
+  const firstFew = translation.slice(0, 4).map(p => ({ en: (p.en || '').trim(), zh: (p.zh || '').trim() }));
+
+  // 标题：首段（或首行）若较短且非作者行，视为标题
+  const first = firstFew[0];
+  if (first && (first.en || first.zh)) {
+    const enLines = (first.en || '').split(/\n/).map(s => s.trim()).filter(Boolean);
+    const zhLines = (first.zh || '').split(/\n/).map(s => s.trim()).filter(Boolean);
+    const firstLineEn = enLines[0] || '';
+    const firstLineZh = zhLines[0] || '';
+    const isAuthorLine = /^作者[：:]|^Author[：:\s]|^[Bb]y\s+\w+/.test(firstLineEn) || /^作者[：:]/.test(firstLineZh);
+    const maxLen = 60;
+    const enShort = firstLineEn.length <= maxLen && !/\.\s*$|!\s*$|\?\s*$/.test(firstLineEn);
+    const zhShort = firstLineZh.length <= maxLen && !/[。！？]\s*$/.test(firstLineZh);
+    if (!isAuthorLine && (enShort || zhShort)) {
+      result.title = { en: firstLineEn, zh: firstLineZh };
+    }
+  }
+
+  // 作者：匹配 "作者：XXX" / "Author: XXX" / "by XXX"
+  const authorPatterns = [
+    { zh: /作者[：:]\s*([^\n。，]+)/, en: /Author[：:\s]+([^\n.,]+)/i },
+    { zh: /作者[：:]?\s*([^\n。，]+)/, en: /[Bb]y\s+([^\n.,]+(?:\s+[A-Z][a-z]+)?)/ },
+  ];
+  for (const pair of firstFew) {
+    const mZh = pair.zh.match(authorPatterns[0].zh) || pair.zh.match(authorPatterns[1].zh);
+    const mEn = pair.en.match(authorPatterns[0].en) || pair.en.match(authorPatterns[1].en);
+    const nameZh = mZh?.[1]?.trim();
+    const nameEn = mEn?.[1]?.trim();
+    if (nameZh || nameEn) {
+      result.author = { zh: nameZh || '', en: nameEn || '' };
+      break;
+    }
+  }
+
+  return result;
+}
+
+// 每块最多发送给 DeepSeek 的字符数 — 增大到 ~10000 以减少 API 调用次数
+// DeepSeek deepseek-chat 上下文窗口 64K，8192 output tokens 足够处理更大输入块
+export const CHUNK_SIZE = 10000;
+
+export function splitIntoChunks(paragraphs: string[], maxChars: number): string[][] {
+  // 先将超长单段落在句子边界处拆分，避免单段超出 token 限制
+  const normalized: string[] = [];
+  for (const p of paragraphs) {
+    if (p.length <= maxChars) {
+      normalized.push(p);
+    } else {
+      const sentences = p.match(/[^.!?]+[.!?]+\s*/g) ?? [p];
+      let piece = '';
+      for (const s of sentences) {
+        if (piece.length + s.length > maxChars && piece) {
+          normalized.push(piece.trim());
+          piece = s;
+        } else {
+          piece += s;
+        }
+      }
+      if (piece.trim()) normalized.push(piece.trim());
+    }
+  }
+
+  const chunks: string[][] = [];
+  let current: string[] = [];
+  let size = 0;
+  for (const p of normalized) {
+    if (size + p.length > maxChars && current.length > 0) {
+      chunks.push(current);
+      current = [p];
+      size = p.length;
+    } else {
+      current.push(p);
+      size += p.length;
+    }
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * 一致性模式下各块共享的上下文：全文摘要 + 专名统一译法；previousTail 为上一块原文结尾，
+ * 只用于衔接代词与语气，不翻译。
+ */
+export type ChunkContext = { summary: string; entities: GlossaryEntry[]; previousTail?: string };
+
+/** 各译文提示词共用的附加约束（术语表、一致性上下文等），插在待翻译段落之前 */
+export type PromptOptions = {
+  glossary?: GlossaryEntry[];
+  context?: ChunkContext;
+  memory?: MemoryMatch[];
+  style?: TranslationStyle;
+  styleInstructions?: string;
+  /** 原文带格式占位标签（见 inlineMarkup.ts），提示词要求译文保留 */
+  markup?: boolean;
+  /** 诗歌模式：每段为一节，逐行翻译并按行返回 */
+  verse?: boolean;
+  /** 诗歌模式下另要每节的韵式与格律说明 */
+  verseNotes?: boolean;
+};
+
+function buildChunkContextBlock(context: ChunkContext, paragraphs: string[]): string {
+  const lines: string[] = [];
+  if (context.summary) lines.push(`全文摘要：${context.summary}`);
+  const entities = selectGlossaryForParagraphs(context.entities, paragraphs);
+  if (entities.length > 0) {
+    lines.push(`专名统一译法（全文保持一致）：\n${entities.map((e) => `- ${e.source} → ${e.target}`).join('\n')}`);
+  }
+  if (context.previousTail) {
+    lines.push(`上一部分结尾（仅用于衔接人称、语气，不要翻译、不要输出）：\n${context.previousTail}`);
+  }
+  return lines.length > 0 ? `【全文共享上下文】本段落属于一篇长文的中间部分，请与全文保持人称、称谓和语体一致。\n${lines.join('\n')}` : '';
+}
+
+function buildPromptExtras(paragraphs: string[], opts: PromptOptions): string {
+  const blocks = [
+    buildStylePromptBlock(opts.style, opts.styleInstructions),
+    opts.context ? buildChunkContextBlock(opts.context, paragraphs) : '',
+    buildGlossaryPromptBlock(selectGlossaryForParagraphs(opts.glossary ?? [], paragraphs)),
+    buildMemoryPromptBlock(opts.memory ?? [], paragraphs),
+    opts.markup && paragraphs.some(hasInlineMarkup) ? INLINE_MARKUP_PROMPT_BLOCK : '',
+    paragraphs.some(hasProtectedPlaceholders) ? PROTECTED_SPANS_PROMPT_BLOCK : '',
+    opts.verse ? VERSE_PROMPT_BLOCK : '',
+    opts.verse && opts.verseNotes ? VERSE_NOTES_PROMPT_BLOCK : '',
+  ].filter(Boolean);
+  return blocks.length > 0 ? `${blocks.join('\n\n')}\n\n` : '';
+}
+
+/** 通用译文提示词：原文 / 译文语言的写法与书写要求取自语言注册表（languages.ts） */
+export function buildTranslationPrompt(
+  paragraphs: string[],
+  fromLang: string,
+  toLang: string,
+  opts: PromptOptions = {}
+): string {
+  const target = getLanguage(toLang);
+  const targetName = target?.targetName ?? target?.name ?? '目标语言';
+  const sample = target?.sample ?? 'Translation';
+  const rule = target?.targetRule ? `【书写要求】${target.targetRule}\n\n` : '';
+  // 诗歌模式每节按行返回数组，行数由服务端校验
+  const format = opts.verse
+    ? `translation 为${target?.name ?? '译文'}数组，顺序与输入一一对应，每项是该节逐行译文组成的数组，不要回显原文：
+{
+  "translation": [["${sample} 1", "${sample} 2"], ["..."]]${opts.verseNotes ? ',\n  "notes": [{ "rhyme": "ABAB → ABAB", "meter": "..." }]' : ''}
+}`
+    : `translation 为${target?.name ?? '译文'}数组，顺序与输入一一对应，不要回显原文：
+{
+  "translation": ["${sample} 1", "${sample} 2", "..."]
+}`;
+  return `将以下${languagePromptName(fromLang)}段落翻译为${targetName}，仅输出 JSON，格式如下（不要多余文字）。${format}
+
+${rule}${buildPromptExtras(paragraphs, opts)}待翻译段落（保持顺序）：
+${paragraphs.map((p, i) => `# Paragraph ${i + 1}\n${p}`).join('\n\n')}`.trim();
+}
+
+export type TargetLang = TargetLanguageCode;
+
+export function normalizeTargetLang(raw: string | undefined): TargetLang {
+  const r = typeof raw === 'string' ? raw.trim() : '';
+  return isTargetLanguage(r) ? r : 'zh';
+}
+
+export function validateSourceTarget(sourceLang: string, targetLang: string): string | null {
+  if (!isTargetLanguage(targetLang)) {
+    return '无效的译文语言';
+  }
+  if (sourceLang === targetLang) {
+    return '原文语言与译文语言不能相同';
+  }
+  return null;
+}
+
+/**
+ * 解析翻译方向：布局与提示词均由语言注册表决定。
+ * 摩斯 / AKI码 先译成 pivot 语言（英文），再由服务端编码进译文栏。
+ */
+export function resolveTranslationFlow(
+  sourceLang: string,
+  targetLang: string,
+  opts: PromptOptions = {}
+): { error: string } | { analysisLang: string; layout: PairLayout; transPrompt: (chunk: string[], chunkOpts?: PromptOptions) => string } {
+  const err = validateSourceTarget(sourceLang, targetLang);
+  if (err) return { error: err };
+  const promptTarget = promptTargetLanguage(targetLang);
+  return {
+    analysisLang: sourceLang,
+    layout: pairLayoutFor(targetLang),
+    transPrompt: (chunk: string[], chunkOpts?: PromptOptions) =>
+      buildTranslationPrompt(chunk, sourceLang, promptTarget, { ...opts, ...chunkOpts }),
+  };
+}
+
+/** 上一块原文结尾保留的字符数 */
+export const PREVIOUS_TAIL_CHARS = 600;
+
+/** 一致性模式的上下文提炼最多读取的原文字符数；超出时均匀抽取段落 */
+const CONTEXT_SAMPLE_CHARS = 24000;
+
+function sampleParagraphs(paragraphs: string[], maxChars: number): string[] {
+  const total = paragraphs.reduce((n, p) => n + p.length, 0);
+  if (total <= maxChars) return paragraphs;
+  const stride = total / maxChars;
+  const out: string[] = [];
+  let budget = maxChars;
+  for (let i = 0; i < paragraphs.length && budget > 0; i += Math.max(1, Math.round(stride))) {
+    const p = paragraphs[i]!.slice(0, budget);
+    out.push(p);
+    budget -= p.length;
+  }
+  return out;
+}
+
+/** 一致性模式：翻译前先提炼全文摘要与反复出现的专名，并为专名确定统一译法 */
+export function buildConsistencyContextPrompt(
+  paragraphs: string[],
+  sourceLang: string,
+  targetLang: string,
+  glossary: GlossaryEntry[] = []
+): string {
+  const srcLabel = languagePromptName(sourceLang);
+  // morse / aki 先译成英文再编码
+  const effectiveTarget = getLanguage(promptTargetLanguage(targetLang));
+  const tgtLabel = effectiveTarget?.targetName ?? effectiveTarget?.name ?? '目标语言';
+  const fixed = glossary.length > 0
+    ? `\n以下术语的译法已由用户指定，entities 中如出现必须沿用：\n${glossary.map((g) => `- ${g.source} → ${g.target}`).join('\n')}\n`
+    : '';
+  return `下面是一篇${srcLabel}长文（可能为节选）。它将被分成多段并行翻译为${tgtLabel}，为保证各段一致，请先提炼共享上下文。仅输出 JSON：
+{
+  "summary": "用${tgtLabel}概括全文内容、叙述人称与语体（不超过 150 字）",
+  "entities": [{ "source": "原文中的人名/地名/机构/专有术语", "target": "统一的${tgtLabel}译法" }]
+}
+entities 只列反复出现或容易译法不一的专名，最多 40 个；source 必须与原文写法完全一致。
+${fixed}
+原文：
+${sampleParagraphs(paragraphs, CONTEXT_SAMPLE_CHARS).map((p, i) => `# ${i + 1}\n${p}`).join('\n\n')}`.trim();
+}
+
+/** 规范化上下文提炼结果；无有效内容时返回 null */
+export function normalizeChunkContext(raw: unknown): ChunkContext | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const o = raw as Record<string, unknown>;
+  const summary = typeof o.summary === 'string' ? o.summary.trim() : '';
+  const entities: GlossaryEntry[] = Array.isArray(o.entities)
+    ? o.entities
+        .map((e) => {
+          const r = (e && typeof e === 'object' ? e : {}) as Record<string, unknown>;
+          return { source: String(r.source ?? '').trim(), target: String(r.target ?? '').trim() };
+        })
+        .filter((e) => e.source && e.target)
+        .slice(0, 40)
+    : [];
+  if (!summary && entities.length === 0) return null;
+  return { summary, entities };
+}
+
+export function buildAnalysisOnlyPrompt(paragraphs: string[], sourceLang: string, targetLang: string): string {
+  const srcLabel = languagePromptName(sourceLang);
+  // morse / aki 的目标栏先用英文产出，后续由服务端做编码
+  const tgtLabel = languagePromptName(promptTargetLanguage(targetLang), '目标语言');
+  return `你是一个专业的中英双语文学编辑。请对以下${srcLabel}文章进行结构化写作分析，并提取标题和作者。
+
+【标题提取规则】
+- 标题通常是第一段或第一行，多为短语
+- 若首段是短句（≤60 字、无句号结尾），即视为标题
+
+【作者提取规则】
+- 常见格式：英文 "Author: XXX"、"By XXX"；中文 "作者：XXX"
+- 只提取姓名，去掉前缀
+
+【标题/作者多语种输出】
+- title.src：用原文（${srcLabel}）写出的标题
+- title.tgt：用译文（${tgtLabel}）写出的标题
+- author.src / author.tgt 同理
+- 若原文找不到作者，两侧都填 "Unknown"
+
+【字数上限】summary≤60字，narrativeDetail≤200字，plotSynopsis约500字（详细的剧情梗概），其余每项≤40字
+【人物提取】characters 数组列出文中主要人物，每个人物包含 name 和 description（简要介绍其身份、性格、在故事中的角色）
+【analysis 字段】summary / narrativeDetail / plotSynopsis / characters / themes / pros / cons 始终按 {en, zh}（英文 + 简体中文）双语输出，与目标语无关。
+
+输出严格 JSON：
+{
+  "title": { "src": "...(${srcLabel})", "tgt": "...(${tgtLabel})" },
+  "author": { "src": "...(${srcLabel})", "tgt": "...(${tgtLabel})" },
+  "analysis": {
+    "summary": { "en": "...", "zh": "..." },
+    "narrativeDetail": { "en": "...", "zh": "..." },
+    "plotSynopsis": { "en": "...(~500 words plot synopsis)...", "zh": "...(~500字剧情梗概)..." },
+    "characters": [{ "name": { "en": "...", "zh": "..." }, "description": { "en": "...", "zh": "..." } }],
+    "themes": [{ "en": "...", "zh": "..." }],
+    "pros": [{ "en": "...", "zh": "..." }],
+    "cons": [{ "en": "...", "zh": "..." }]
+  }
+}
+
+文章内容：
+${paragraphs.slice(0, 15).map((p, i) => `# ${i + 1}\n${p}`).join('\n\n')}`.trim();
+}
+
+/**
+ * 将模型返回的 title / author 字段映射到「原文栏 / 译文栏」slot。
+ * - 新版格式 {src, tgt}：src 是原文语言，tgt 是目标语言
+ * - 旧版格式 {en, zh}：向后兼容
+ * - 结果按 layout 落到 en / zh slot：
+ *   - layout=to_cjk：en = 原文栏，zh = 译文栏
+ *   - layout=to_en： en = 译文栏（英文），zh = 原文栏
+ */
+export function mapTitleAuthorToSlots(
+  raw: unknown,
+  layout: 'to_cjk' | 'to_en'
+): { en: string; zh: string } {
+  if (!raw || typeof raw !== 'object') return { en: '', zh: '' };
+  const o = raw as Record<string, unknown>;
+  const asStr = (v: unknown): string => (typeof v === 'string' ? v.trim() : '');
+  const src = asStr(o.src ?? o.source);
+  const tgt = asStr(o.tgt ?? o.target);
+  if (src || tgt) {
+    return layout === 'to_cjk' ? { en: src, zh: tgt } : { en: tgt, zh: src };
+  }
+  // Legacy：模型仍按 {en, zh} 返回
+  return { en: asStr(o.en), zh: asStr(o.zh) };
+}
+
+/** 对 title / author 的「译文栏」施加摩斯编码（仅当 targetLang === 'morse'） */
+export function applyMorseToTitleAuthorSlots(
+  t: { en: string; zh: string },
+  layout: 'to_cjk' | 'to_en'
+): { en: string; zh: string } {
+  const tgtKey: 'en' | 'zh' = layout === 'to_en' ? 'en' : 'zh';
+  const morse = encodeInternationalMorse(t[tgtKey]);
+  return { ...t, [tgtKey]: morse || '—' };
+}
+
+/** 对 title / author 的「译文栏」施加 AKI码 编码 */
+export function applyAkiToTitleAuthorSlots(
+  t: { en: string; zh: string },
+  layout: 'to_cjk' | 'to_en'
+): { en: string; zh: string } {
+  const tgtKey: 'en' | 'zh' = layout === 'to_en' ? 'en' : 'zh';
+  const aki = wrapAkiDisplayIfFirst(encodeAki(t[tgtKey]), false);
+  return { ...t, [tgtKey]: aki || '—' };
+}
+
+export type BilingualStr = { en: string; zh: string };
+export type CharacterInfo = { name: BilingualStr; description: BilingualStr };
+export type BilingualAnalysis = { summary: BilingualStr; narrativeDetail: BilingualStr; themes: BilingualStr[]; pros: BilingualStr[]; cons: BilingualStr[]; plotSynopsis?: BilingualStr; characters?: CharacterInfo[] };
+
+/** 规范化模型返回的 analysis，支持双语对象和旧版纯字符串 */
+export function normalizeAnalysis(raw: unknown): BilingualAnalysis | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const o = raw as Record<string, unknown>;
+
+  const toBilingual = (v: unknown): BilingualStr => {
+    if (v && typeof v === 'object') {
+      const b = v as Record<string, unknown>;
+      if ('en' in b || 'zh' in b) {
+        return { en: typeof b.en === 'string' ? b.en.trim() : '', zh: typeof b.zh === 'string' ? b.zh.trim() : '' };
+      }
+    }
+    const s = typeof v === 'string' ? v.trim() : '';
+    return { en: '', zh: s };
+  };
+
+  const toArr = (v: unknown): BilingualStr[] => {
+    if (!Array.isArray(v)) return [];
+    return v.map(item => toBilingual(item));
+  };
+
+  const summary = toBilingual(o.summary ?? o.Summary);
+  const narrativeDetail = toBilingual(o.narrativeDetail ?? o.narrative_detail);
+  const themes = toArr(o.themes ?? o.Themes);
+  const pros = toArr(o.pros ?? o.Pros);
+  const cons = toArr(o.cons ?? o.Cons);
+  const plotSynopsis = toBilingual(o.plotSynopsis ?? o.plot_synopsis ?? o.PlotSynopsis);
+  const characters: CharacterInfo[] = (() => {
+    const raw = o.characters ?? o.Characters;
+    if (!Array.isArray(raw)) return [];
+    return raw.map((c: unknown) => {
+      if (!c || typeof c !== 'object') return { name: { en: '', zh: '' }, description: { en: '', zh: '' } };
+      const ch = c as Record<string, unknown>;
+      return { name: toBilingual(ch.name ?? ch.Name), description: toBilingual(ch.description ?? ch.Description) };
+    }).filter((c: CharacterInfo) => c.name.en || c.name.zh);
+  })();
+
+  const hasContent = summary.en || summary.zh || narrativeDetail.en || narrativeDetail.zh ||
+    themes.length > 0 || pros.length > 0 || cons.length > 0 ||
+    plotSynopsis.en || plotSynopsis.zh || characters.length > 0;
+  if (!hasContent) return null;
+
+  const ph: BilingualStr = { en: '—', zh: '—' };
+  return {
+    summary: (summary.en || summary.zh) ? summary : ph,
+    narrativeDetail: (narrativeDetail.en || narrativeDetail.zh) ? narrativeDetail : ph,
+    themes: themes.length ? themes : [ph],
+    pros: pros.length ? pros : [ph],
+    cons: cons.length ? cons : [ph],
+    plotSynopsis: (plotSynopsis.en || plotSynopsis.zh) ? plotSynopsis : undefined,
+    characters: characters.length > 0 ? characters : undefined,
+  };
+}
+
+/** 将模型可能返回的各种 translation 格式统一为数组 */
+export function normalizeTranslationToArray(raw: unknown, expectedLen: number): unknown[] {
+  if (Array.isArray(raw)) return raw;
+  if (raw && typeof raw === 'object') {
+    const o = raw as Record<string, unknown>;
+    const arr: unknown[] = [];
+    for (let i = 0; i < expectedLen; i++) {
+      const v = o[String(i)] ?? o[i];
+      if (v !== undefined && v !== null) arr.push(v);
+    }
+    if (arr.length > 0) return arr;
+    const values = Object.values(o);
+    if (values.length > 0) return values;
+  }
+  if (typeof raw === 'string') return raw.split(/\n\s*\n/).filter(Boolean);
+  return [];
+}
+
+/** 移除模型可能回显的段落标记（如 # Paragraph 8、# 段落 9） */
+export function stripParagraphMarkers(s: string): string {
+  return s
+    .replace(/(?:^|\n)\s*#\s*(?:Paragraph|段落)\s*\d+\s*(?:\n|$)/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/** to_cjk：pair.en 为原文，pair.zh 为中文译文；to_en：pair.zh 为原文，pair.en 为英文译文 */
+export function mergeTranslation(
+  sourceParagraphs: string[],
+  raw: unknown[],
+  layout: 'to_cjk' | 'to_en'
+): { en: string; zh: string }[] {
+  return sourceParagraphs.map((src, i) => {
+    const v = raw[i];
+    const lines = joinVerseLines(v);
+    let translated = '';
+    if (typeof v === 'string') {
+      translated = stripParagraphMarkers(v);
+    } else if (lines !== null) {
+      // 诗歌模式：按行返回的数组
+      translated = stripParagraphMarkers(lines);
+    } else if (v && typeof v === 'object') {
+      const key = layout === 'to_en' ? 'en' : 'zh';
+      translated = stripParagraphMarkers(String((v as Record<string, unknown>)[key] ?? ''));
+    }
+    return layout === 'to_cjk'
+      ? { en: src, zh: translated }
+      : { en: translated, zh: src };
+  });
+}
+
+/**
+ * 综合模型返回与规则兜底，得出最终的 title / author，并对 morse / aki 的译文栏编码。
+ * pairsForFallback 应为编码前的自然语言译文，否则正则兜底无从匹配。
+ */
+export function resolveTitleAuthor(
+  analysisJson: Record<string, unknown> | undefined,
+  pairsForFallback: ParagraphPair[],
+  layout: PairLayout,
+  targetLang: TargetLang
+): { title: ParagraphPair; author: ParagraphPair } {
+  let title = mapTitleAuthorToSlots(analysisJson?.title, layout);
+  let author = mapTitleAuthorToSlots(analysisJson?.author, layout);
+
+  // 规则兜底：若模型未提取到标题/作者，从前几段译文中用正则提取
+  const fallback = extractTitleAuthorFromTranslation(pairsForFallback);
+  const isEmpty = (t: { en?: string; zh?: string }) => {
+    const v = (t?.en?.trim() || t?.zh?.trim() || '').replace(/[—\-]/g, '');
+    return !v;
+  };
+  if (isEmpty(title) && (fallback.title?.en || fallback.title?.zh)) {
+    title = fallback.title!;
+  }
+  if (isEmpty(author) && (fallback.author?.en || fallback.author?.zh)) {
+    author = fallback.author!;
+  }
+
+  if (targetLang === 'morse') {
+    title = applyMorseToTitleAuthorSlots(title, layout);
+    author = applyMorseToTitleAuthorSlots(author, layout);
+  }
+  if (targetLang === 'aki') {
+    title = applyAkiToTitleAuthorSlots(title, layout);
+    author = applyAkiToTitleAuthorSlots(author, layout);
+  }
+  return { title, author };
+}
@@ -0,0 +1,69 @@
+/**
+ * 译文文体预设：决定系统提示词中的编辑角色与译文的语体要求，另可附用户自定义要求。
+ * 前端「译成」旁的选择器与 /api/translate(-stream) 的 style / styleInstructions 参数共用。
+ */
+
+export type TranslationStyle = 'literary' | 'academic' | 'technical' | 'legal' | 'casual' | 'children';
+
+export const DEFAULT_TRANSLATION_STYLE: TranslationStyle = 'literary';
+
+/** 自定义要求的长度上限，避免提示词膨胀 */
+export const MAX_STYLE_INSTRUCTIONS_CHARS = 800;
+
+export const TRANSLATION_STYLES: Record<TranslationStyle, { label: string; role: string; guidance: string }> = {
+  literary: {
+    label: '文学',
+    role: 'literary editor',
+    guidance: '',
+  },
+  academic: {
+    label: '学术',
+    role: 'academic editor',
+    guidance: '译文采用学术书面语：术语准确并前后一致，保留原文的论证结构、限定语与引用格式，不做文学化润色。',
+  },
+  technical: {
+    label: '技术',
+    role: 'technical documentation editor',
+    guidance: '译文采用技术文档语体：简洁准确；代码、命令、参数名、产品名与单位保持原样不译；步骤与列表的编号、顺序不得改动。',
+  },
+  legal: {
+    label: '法律',
+    role: 'legal translator',
+    guidance: '译文采用法律文书语体：严格忠实原文，不增删、不意译；条款编号、定义词与当事方称谓全文统一；情态词（shall / may / must 等）的义务强度须准确对应。',
+  },
+  casual: {
+    label: '口语',
+    role: 'conversational translator',
+    guidance: '译文采用自然口语：像母语者日常聊天那样表达，可使用常见口头语与缩略说法，保留原文的语气与表情符号。',
+  },
+  children: {
+    label: '儿童',
+    role: "children's book editor",
+    guidance: '译文面向儿童读者：用词浅显、句子简短、语气亲切，避免生僻字与复杂从句，但不得删减情节或改变原意。',
+  },
+};
+
+export const VALID_TRANSLATION_STYLES = Object.keys(TRANSLATION_STYLES) as TranslationStyle[];
+
+export function normalizeTranslationStyle(raw: unknown): TranslationStyle {
+  const s = String(raw ?? '').trim();
+  return (VALID_TRANSLATION_STYLES as string[]).includes(s) ? (s as TranslationStyle) : DEFAULT_TRANSLATION_STYLE;
+}
+
+export function normalizeStyleInstructions(raw: unknown): string {
+  return typeof raw === 'string' ? raw.trim().slice(0, MAX_STYLE_INSTRUCTIONS_CHARS) : '';
+}
+
+/** 系统提示词：默认文体与原先固定的 "bilingual literary editor" 一致 */
+export function buildTranslationSystemPrompt(style: TranslationStyle = DEFAULT_TRANSLATION_STYLE): string {
+  return `You are a professional bilingual ${TRANSLATION_STYLES[style].role}. Always respond with valid JSON only.`;
+}
+
+/** 注入翻译提示词的文体块；默认文体且无自定义要求时为空，保持原提示词不变 */
+export function buildStylePromptBlock(style: TranslationStyle = DEFAULT_TRANSLATION_STYLE, instructions = ''): string {
+  const lines: string[] = [];
+  const guidance = TRANSLATION_STYLES[style].guidance;
+  if (guidance) lines.push(`【文体要求】${guidance}`);
+  if (instructions) lines.push(`【用户补充要求】（与上述格式要求冲突时以格式要求为准）\n${instructions}`);
+  return lines.join('\n');
+}
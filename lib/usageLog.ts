@@ -0,0 +1,168 @@
+/**
+ * 按用户记录模型用量（需 DATABASE_URL，存入 Neon 的 llm_usage 表），供管理员查看谁在消耗 token。
+ * 每次请求按用途各写一行；未登录或未配置 Clerk 时 user_id 为空，按访客汇总。
+ *
+ * 环境变量（可选，用于估算费用；未设置时只统计 token）：
+ *   LLM_PRICE_INPUT_PER_MTOK   每百万输入 token 的价格（美元）
+ *   LLM_PRICE_OUTPUT_PER_MTOK  每百万输出 token 的价格（美元）
+ */
+import { neon } from '@neondatabase/serverless';
+import { verifyToken } from '@clerk/backend';
+import { describeLlmProvider, type LlmProvider } from './llmProvider.js';
+import { USAGE_KINDS, type UsageKind, type UsageSummary, type UsageTotals } from './llmUsage.js';
+
+const TABLE_SQL = `CREATE TABLE IF NOT EXISTS llm_usage (
+  id BIGSERIAL PRIMARY KEY,
+  created_at_ms BIGINT NOT NULL,
+  user_id TEXT,
+  endpoint TEXT NOT NULL,
+  model TEXT,
+  kind TEXT NOT NULL,
+  prompt_tokens BIGINT NOT NULL,
+  completion_tokens BIGINT NOT NULL,
+  calls INTEGER NOT NULL
+)`;
+
+const INDEX_SQL = 'CREATE INDEX IF NOT EXISTS llm_usage_created_at ON llm_usage (created_at_ms)';
+
+export type UsagePrices = { inputPerMTok: number; outputPerMTok: number };
+
+export type UserUsage = UsageTotals & {
+  /** null 为访客（未登录） */
+  userId: string | null;
+  totalTokens: number;
+  byKind: Partial<Record<UsageKind, UsageTotals>>;
+  /** 按 LLM_PRICE_* 估算的费用（美元）；未配置价格时为 null */
+  costUsd: number | null;
+};
+
+export type UsageReport = {
+  sinceMs: number;
+  prices: UsagePrices | null;
+  users: UserUsage[];
+};
+
+let sqlClient: ReturnType<typeof neon> | null = null;
+let ready: Promise<unknown> | null = null;
+
+/** 未配置 DATABASE_URL 时返回 null */
+async function usageDb(): Promise<ReturnType<typeof neon> | null> {
+  const url = (process.env.DATABASE_URL || '').trim();
+  if (!url) return null;
+  const sql = (sqlClient ??= neon(url));
+  ready ??= sql
+    .query(TABLE_SQL)
+    .then(() => sql.query(INDEX_SQL))
+    .catch((err: unknown) => {
+      ready = null;
+      throw err;
+    });
+  await ready;
+  return sql;
+}
+
+function readPriceEnv(name: string): number | null {
+  const n = parseFloat(process.env[name] || '');
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+function usagePrices(): UsagePrices | null {
+  const input = readPriceEnv('LLM_PRICE_INPUT_PER_MTOK');
+  const output = readPriceEnv('LLM_PRICE_OUTPUT_PER_MTOK');
+  if (input == null && output == null) return null;
+  return { inputPerMTok: input ?? 0, outputPerMTok: output ?? 0 };
+}
+
+function estimateUsageCost(usage: { promptTokens: number; completionTokens: number }, prices: UsagePrices | null): number | null {
+  if (!prices) return null;
+  const cost = (usage.promptTokens * prices.inputPerMTok + usage.completionTokens * prices.outputPerMTok) / 1_000_000;
+  return Math.round(cost * 10000) / 10000;
+}
+
+/**
+ * 从 Authorization 头解析用量归属的 Clerk 用户；未配置 Clerk、未登录或会话无效时返回 null（记为访客），
+ * 不影响翻译请求本身。
+ */
+async function resolveUsageUserId(authorization: string | string[] | undefined): Promise<string | null> {
+  const secret = (process.env.CLERK_SECRET_KEY || '').trim();
+  const raw = Array.isArray(authorization) ? authorization[0] : authorization;
+  const token = raw?.startsWith('Bearer ') ? raw.slice(7) : null;
+  if (!secret || !token) return null;
+  try {
+    const payload = await verifyToken(token, { secretKey: secret });
+    return typeof payload.sub === 'string' && payload.sub ? payload.sub : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 写入一次请求的用量，归属于 Authorization 头对应的用户。
+ * 未配置数据库或写入失败时只打日志，不影响响应；调用方在结束响应前 await，避免 Vercel 函数提前冻结。
+ */
+export async function recordRequestUsage(
+  authorization: string | string[] | undefined,
+  endpoint: string,
+  llm: LlmProvider,
+  usage: UsageSummary
+): Promise<void> {
+  const kinds = USAGE_KINDS.filter((k) => (usage.byKind[k]?.calls ?? 0) > 0);
+  if (kinds.length === 0) return;
+  try {
+    const sql = await usageDb();
+    if (!sql) return;
+    const userId = await resolveUsageUserId(authorization);
+    const now = Date.now();
+    await sql.query(
+      `INSERT INTO llm_usage (created_at_ms, user_id, endpoint, model, kind, prompt_tokens, completion_tokens, calls)
+       SELECT $1, $2, $3, $4, k, p, c, n FROM UNNEST($5::text[], $6::bigint[], $7::bigint[], $8::int[]) AS u(k, p, c, n)`,
+      [
+        now,
+        userId,
+        endpoint,
+        describeLlmProvider(llm),
+        kinds,
+        kinds.map((k) => usage.byKind[k]!.promptTokens),
+        kinds.map((k) => usage.byKind[k]!.completionTokens),
+        kinds.map((k) => usage.byKind[k]!.calls),
+      ]
+    );
+  } catch (err: unknown) {
+    console.error('usage log write failed:', err instanceof Error ? err.message : err);
+  }
+}
+
+/** 汇总 sinceMs 之后各用户的用量，按总 token 从多到少排列；未配置数据库时返回 null */
+export async function summarizeUsage(sinceMs: number): Promise<UsageReport | null> {
+  const sql = await usageDb();
+  if (!sql) return null;
+  const rows = (await sql.query(
+    `SELECT user_id, kind, SUM(prompt_tokens)::bigint AS prompt, SUM(completion_tokens)::bigint AS completion, SUM(calls)::bigint AS calls
+     FROM llm_usage WHERE created_at_ms >= $1 GROUP BY user_id, kind`,
+    [sinceMs]
+  )) as { user_id: string | null; kind: string; prompt: number | string; completion: number | string; calls: number | string }[];
+
+  const prices = usagePrices();
+  const byUser = new Map<string | null, UserUsage>();
+  for (const r of rows) {
+    if (!(USAGE_KINDS as string[]).includes(r.kind)) continue;
+    const userId = r.user_id ?? null;
+    let u = byUser.get(userId);
+    if (!u) {
+      u = { userId, promptTokens: 0, completionTokens: 0, totalTokens: 0, calls: 0, byKind: {}, costUsd: null };
+      byUser.set(userId, u);
+    }
+    const t: UsageTotals = { promptTokens: Number(r.prompt), completionTokens: Number(r.completion), calls: Number(r.calls) };
+    u.byKind[r.kind as UsageKind] = t;
+    u.promptTokens += t.promptTokens;
+    u.completionTokens += t.completionTokens;
+    u.calls += t.calls;
+  }
+  const users = [...byUser.values()].map((u) => ({
+    ...u,
+    totalTokens: u.promptTokens + u.completionTokens,
+    costUsd: estimateUsageCost(u, prices),
+  }));
+  users.sort((a, b) => b.totalTokens - a.totalTokens);
+  return { sinceMs, prices, users };
+}
@@ -0,0 +1,59 @@
+/**
+ * 诗歌 / 歌词模式：以节（stanza）为段落，节内按行逐一对应翻译，译文行数与原文相同；
+ * 可选让模型附上每节的韵式与格律说明。阅读器据此把两栏按行对齐显示。
+ * 本文件不依赖 Node 模块，前端也会引用。
+ */
+
+/** 一节的格律说明；段落带 verse 字段即表示按诗节显示（不要说明时为空对象） */
+export type VerseNotes = { rhyme?: string; meter?: string };
+
+/** 单条说明的长度上限 */
+const MAX_VERSE_NOTE_CHARS = 80;
+
+/** 按空行切节；节内保留换行，行首尾空白去掉，行内多余空白压缩 */
+export function splitVerseStanzas(raw: string): string[] {
+  return raw
+    .replace(/\r\n/g, '\n')
+    .split(/\n[ \t]*\n/)
+    .map((stanza) =>
+      stanza
+        .split('\n')
+        .map((line) => line.replace(/\s{2,}/g, ' ').trim())
+        .filter((line) => line.length > 0)
+        .join('\n')
+    )
+    .filter((stanza) => stanza.length > 0);
+}
+
+/** 节内的非空行数 */
+export function countVerseLines(text: string): number {
+  return text.split('\n').filter((line) => line.trim()).length;
+}
+
+/** 模型按行返回的数组拼成一节；不是字符串数组时返回 null */
+export function joinVerseLines(raw: unknown): string | null {
+  if (!Array.isArray(raw) || !raw.every((line) => typeof line === 'string')) return null;
+  return raw.map((line: string) => line.trim()).join('\n');
+}
+
+export function normalizeVerseNotes(raw: unknown): VerseNotes {
+  if (!raw || typeof raw !== 'object') return {};
+  const o = raw as Record<string, unknown>;
+  const text = (v: unknown) => (typeof v === 'string' ? v.trim().slice(0, MAX_VERSE_NOTE_CHARS) : '');
+  const rhyme = text(o.rhyme);
+  const meter = text(o.meter);
+  return { ...(rhyme ? { rhyme } : {}), ...(meter ? { meter } : {}) };
+}
+
+/** 译文提示词中的逐行翻译要求 */
+export const VERSE_PROMPT_BLOCK = `【诗歌 / 歌词】每个 Paragraph 是一节，节内每一行单独成行：
+- 逐行对应：译文行数与原文相同，第 n 行译原文第 n 行，不合并、不拆分、不调换行序；跨行的句子也在原文断行处断开
+- 在不破坏逐行对应与原意的前提下兼顾节奏与押韵`;
+
+/** 译文提示词中的格律说明要求 */
+export const VERSE_NOTES_PROMPT_BLOCK = `【格律说明】另输出 notes 数组，与 translation 一一对应，每项：
+- rhyme：原文韵式 → 译文韵式，如「ABAB → AABB」；无韵写「无韵」
+- meter：原文的格律或节奏（如「抑扬格五音步」「七言」）及译文的处理，不超过 40 字`;
+
+/** 单段改译 / 候选译法提示词中的逐行要求（译文为一个字符串，行间用换行分隔） */
+export const VERSE_REVISION_PROMPT_BLOCK = `【诗歌 / 歌词】本段是一节诗，译文须与原文逐行对应：行数相同，行间用换行符 \\n 分隔，不合并、不拆分、不调换行序。`;
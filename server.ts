@@ -6,14 +6,23 @@ import path from 'path';
 import crypto from 'crypto';
 import { fileURLToPath } from 'url';
 import { neon } from '@neondatabase/serverless';
-import JSON5 from 'json5';
 import multer from 'multer';
 import { OfficeParser as officeParser } from 'officeparser';
-import { applyMorseEncodingToPairs, encodeInternationalMorse } from './lib/morseEncode.ts';
-import { encodeAki, wrapAkiDisplayIfFirst } from './lib/customCipher.ts';
-import { applyAkiEncodingToPairsAsync } from './lib/akiTranslatedColumn.ts';
 import { fetchAkiMemePairDeepseek } from './lib/akiMemeDeepseek.ts';
 import { buildRefineAkiZhPrompt, mergeRefinedParagraphs } from './lib/refineAkiZh.ts';
+import { callLlmJson, describeLlmProvider, resolveLlmProvider, type LlmCallOptions, type LlmProvider } from './lib/llmProvider.ts';
+import { isAbortError } from './lib/llmScheduler.ts';
+import { createUsageMeter, normalizeUsageSummary } from './lib/llmUsage.ts';
+import { recordRequestUsage, summarizeUsage } from './lib/usageLog.ts';
+import { TRANSLATION_SYSTEM_PROMPT } from './lib/translationPipeline.ts';
+import { parseTranslationRequest, runTranslationJob, type TranslationStreamEvent } from './lib/translationJob.ts';
+import { getParagraphCache } from './lib/paragraphCache.ts';
+import { ADMIN_TOKEN_HEADER, ADMIN_TOKEN_REQUIRED_MESSAGE, hasAdminToken } from './lib/adminToken.ts';
+import { createJobCheckpoint, getTranslationJobStore, openTranslationJob } from './lib/translationJobStore.ts';
+import { getQuotaStore, resolveRequesterKey } from './lib/quotaStore.ts';
+import { parseBackTranslationRequest, runBackTranslation } from './lib/backTranslation.ts';
+import { fetchParagraphAlternatives, parseParagraphRevisionRequest, retranslateParagraph } from './lib/paragraphRevision.ts';
+import { abortOnClientDisconnect } from './lib/clientDisconnect.ts';
 
 // ── 翻译结果内存缓存（基于内容哈希，最多缓存 100 条，30 分钟过期） ──
 const CACHE_MAX = 100;
@@ -66,547 +75,38 @@ const allowOrigin = (origin: string | undefined): string => {
 };
 app.use((req, res, next) => {
   res.header('Access-Control-Allow-Origin', allowOrigin(req.headers.origin));
-  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.header('Access-Control-Allow-Headers', `Content-Type, Authorization, ${ADMIN_TOKEN_HEADER}`);
   next();
 });
 
 const PORT = process.env.PORT || 8787;
 
-/** 规则兜底：从译文前几段中提取标题和作者 */
-function extractTitleAuthorFromTranslation(
-  translation: { en: string; zh: string }[]
-): { title?: { en: string; zh: string }; author?: { en: string; zh: string } } {
-  const result: { title?: { en: string; zh: string }; author?: { en: string; zh: string } } = {};
-  const firstFew = translation.slice(0, 4).map(p => ({ en: (p.en || '').trim(), zh: (p.zh || '').trim() }));
-
-  // 标题：首段（或首行）若较短且非作者行，视为标题
-  const first = firstFew[0];
-  if (first && (first.en || first.zh)) {
-    const enLines = (first.en || '').split(/\n/).map(s => s.trim()).filter(Boolean);
-    const zhLines = (first.zh || '').split(/\n/).map(s => s.trim()).filter(Boolean);
-    const firstLineEn = enLines[0] || '';
-    const firstLineZh = zhLines[0] || '';
-    const isAuthorLine = /^作者[：:]|^Author[：:\s]|^[Bb]y\s+\w+/.test(firstLineEn) || /^作者[：:]/.test(firstLineZh);
-    const maxLen = 60;
-    const enShort = firstLineEn.length <= maxLen && !/\.\s*$|!\s*$|\?\s*$/.test(firstLineEn);
-    const zhShort = firstLineZh.length <= maxLen && !/[。！？]\s*$/.test(firstLineZh);
-    if (!isAuthorLine && (enShort || zhShort)) {
-      result.title = { en: firstLineEn, zh: firstLineZh };
-    }
-  }
-
-  // 作者：匹配 "作者：XXX" / "Author: XXX" / "by XXX"
-  const authorPatterns = [
-    { zh: /作者[：:]\s*([^\n。，]+)/, en: /Author[：:\s]+([^\n.,]+)/i },
-    { zh: /作者[：:]?\s*([^\n。，]+)/, en: /[Bb]y\s+([^\n.,]+(?:\s+[A-Z][a-z]+)?)/ },
-  ];
-  for (const pair of firstFew) {
-    const mZh = pair.zh.match(authorPatterns[0].zh) || pair.zh.match(authorPatterns[1].zh);
-    const mEn = pair.en.match(authorPatterns[0].en) || pair.en.match(authorPatterns[1].en);
-    const nameZh = mZh?.[1]?.trim();
-    const nameEn = mEn?.[1]?.trim();
-    if (nameZh || nameEn) {
-      result.author = { zh: nameZh || '', en: nameEn || '' };
-      break;
-    }
-  }
-
-  return result;
-}
-
-// 每块最多发送给 DeepSeek 的字符数 — 增大到 ~10000 以减少 API 调用次数
-// DeepSeek deepseek-chat 上下文窗口 64K，8192 output tokens 足够处理更大输入块
-const CHUNK_SIZE = 10000;
-
-function splitIntoChunks(paragraphs: string[], maxChars: number): string[][] {
-  const chunks: string[][] = [];
-  let current: string[] = [];
-  let size = 0;
-  for (const p of paragraphs) {
-    if (size + p.length > maxChars && current.length > 0) {
-      chunks.push(current);
-      current = [p];
-      size = p.length;
-    } else {
-      current.push(p);
-      size += p.length;
-    }
-  }
-  if (current.length > 0) chunks.push(current);
-  return chunks;
-}
-
-const sanitizeJson = (s: string) => s.replace(/,(\s*[\]}])/g, '$1');
-
-function parseDeepSeekJson(content: string): Record<string, unknown> {
-  try { return JSON.parse(content || '{}'); } catch {}
-  try { return JSON.parse(sanitizeJson(content)); } catch {}
-  try { return JSON5.parse(content); } catch {}
-  const m = content.match(/```(?:json)?\s*([\s\S]*?)```/) || content.match(/\{[\s\S]*\}/);
-  const extracted = m ? (m[1] ?? m[0]) : '{}';
-  try { return JSON5.parse(extracted); } catch { return {}; }
-}
-
-async function callDeepSeekCached(prompt: string, apiKey: string): Promise<Record<string, unknown>> {
-  const key = getCacheKey(prompt, 'prompt');
+async function callLlmCached(
+  prompt: string,
+  llm: LlmProvider,
+  opts?: LlmCallOptions,
+  system = TRANSLATION_SYSTEM_PROMPT
+): Promise<Record<string, unknown>> {
+  const key = getCacheKey(`${system}\n${prompt}`, describeLlmProvider(llm));
   const cached = getFromCache(key);
   if (cached) return cached;
-  const result = await callDeepSeek(prompt, apiKey);
+  const result = await callLlm(prompt, llm, opts, system);
   setCache(key, result);
   return result;
 }
 
-async function callDeepSeek(prompt: string, apiKey: string): Promise<Record<string, unknown>> {
-  const response = await fetch('https://api.deepseek.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'deepseek-chat',
-      messages: [
-        { role: 'system', content: 'You are a professional bilingual literary editor. Always respond with valid JSON only.' },
-        { role: 'user', content: prompt },
-      ],
-      response_format: { type: 'json_object' },
-      max_tokens: 8192,
-    }),
-  });
-
-  if (!response.ok) {
-    const text = await response.text();
-    console.error('DeepSeek API error:', response.status, text);
-    let userMsg = 'DeepSeek API 调用失败';
-    try {
-      const errJson = JSON.parse(text);
-      const apiErr = errJson?.error?.message || errJson?.message || errJson?.error;
-      if (apiErr) userMsg = typeof apiErr === 'string' ? apiErr : String(apiErr);
-      if (response.status === 401) userMsg = 'API Key 无效或已过期，请检查 .env.local 中的 DEEPSEEK_API_KEY';
-      else if (response.status === 429) userMsg = '请求过于频繁，请稍后再试';
-    } catch {}
-    throw new Error(userMsg);
-  }
-
-  const data = await response.json();
-  return parseDeepSeekJson(data.choices?.[0]?.message?.content ?? '');
-}
-
-const LANG_NAMES: Record<string, string> = {
-  en: '英文',
-  fr: '法文',
-  ja: '日文',
-  de: '德文',
-  ar: '阿拉伯文',
-  'zh-TW': '繁体中文',
-  zh: '中文',
-};
-
-function buildTranslationToZhPrompt(paragraphs: string[], fromLang = 'en'): string {
-  const langName = LANG_NAMES[fromLang] || '外文';
-  return `将以下${langName}段落翻译为简体中文，仅输出 JSON，格式如下（不要多余文字）。translation 为简体中文数组，顺序与输入一一对应，不要回显原文：
-{
-  "translation": ["中文1", "中文2", "..."]
-}
-
-待翻译段落（保持顺序）：
-${paragraphs.map((p, i) => `# Paragraph ${i + 1}\n${p}`).join('\n\n')}`.trim();
-}
-
-function buildZhToEnTranslationOnlyPrompt(paragraphs: string[]): string {
-  return `将以下中文段落翻译为英文，仅输出 JSON，translation 为英文数组，顺序对应，不要回显中文：
-{ "translation": ["English 1", "..."] }
-
-段落：
-${paragraphs.map((p, i) => `# Paragraph ${i + 1}\n${p}`).join('\n\n')}`.trim();
-}
-
-
-function buildTranslationToZhTwPrompt(paragraphs: string[], fromLang = 'en'): string {
-  const langName = LANG_NAMES[fromLang] || '外文';
-  return `将以下${langName}段落翻译为繁体中文（台湾正体），仅输出 JSON，格式如下（不要多余文字）。translation 为繁体中文数组，顺序与输入一一对应，不要回显原文。
-
-【繁体要求】必须使用台湾常用繁体字形（如「臺灣、資訊、匯整」），严禁使用大陆简体字（如「台湾、信息、汇总」）；译文中的汉字不得采用简体中文写法。
-
-{
-  "translation": ["繁體1", "繁體2", "..."]
-}
-
-待翻译段落（保持顺序）：
-${paragraphs.map((p, i) => `# Paragraph ${i + 1}\n${p}`).join('\n\n')}`.trim();
+async function callLlm(
+  prompt: string,
+  llm: LlmProvider,
+  opts?: LlmCallOptions,
+  system = TRANSLATION_SYSTEM_PROMPT
+): Promise<Record<string, unknown>> {
+  return callLlmJson(llm, {
+    system,
+    user: prompt,
+  }, opts);
 }
 
-function buildTranslationToEnPrompt(paragraphs: string[], fromLang = 'en'): string {
-  const langName = LANG_NAMES[fromLang] || '外文';
-  return `将以下${langName}段落翻译为英文，仅输出 JSON，格式如下（不要多余文字）。translation 为英文数组，顺序与输入一一对应，不要回显原文：
-{
-  "translation": ["English 1", "English 2", "..."]
-}
-
-待翻译段落（保持顺序）：
-${paragraphs.map((p, i) => `# Paragraph ${i + 1}\n${p}`).join('\n\n')}`.trim();
-}
-
-function buildTranslationToJaPrompt(paragraphs: string[], fromLang = 'en'): string {
-  const langName = LANG_NAMES[fromLang] || '外文';
-  return `将以下${langName}段落翻译为日文（自然、地道的现代日语），仅输出 JSON，格式如下（不要多余文字）。translation 为日文数组，顺序与输入一一对应，不要回显原文：
-{
-  "translation": ["日文1", "日文2", "..."]
-}
-
-待翻译段落（保持顺序）：
-${paragraphs.map((p, i) => `# Paragraph ${i + 1}\n${p}`).join('\n\n')}`.trim();
-}
-
-function buildTranslationToFrPrompt(paragraphs: string[], fromLang = 'en'): string {
-  const langName = LANG_NAMES[fromLang] || '外文';
-  return `将以下${langName}段落翻译为法语，仅输出 JSON，格式如下（不要多余文字）。translation 为法语数组，顺序与输入一一对应，不要回显原文：
-{
-  "translation": ["Français 1", "Français 2", "..."]
-}
-
-待翻译段落（保持顺序）：
-${paragraphs.map((p, i) => `# Paragraph ${i + 1}\n${p}`).join('\n\n')}`.trim();
-}
-
-function buildTranslationToDePrompt(paragraphs: string[], fromLang = 'en'): string {
-  const langName = LANG_NAMES[fromLang] || '外文';
-  return `将以下${langName}段落翻译为德语，仅输出 JSON，格式如下（不要多余文字）。translation 为德语数组，顺序与输入一一对应，不要回显原文：
-{
-  "translation": ["Deutsch 1", "Deutsch 2", "..."]
-}
-
-待翻译段落（保持顺序）：
-${paragraphs.map((p, i) => `# Paragraph ${i + 1}\n${p}`).join('\n\n')}`.trim();
-}
-
-function buildTranslationToArPrompt(paragraphs: string[], fromLang = 'en'): string {
-  const langName = LANG_NAMES[fromLang] || '外文';
-  return `将以下${langName}段落翻译为现代标准阿拉伯语，使用阿拉伯字母书写。仅输出 JSON，格式如下（不要多余文字）。translation 为阿拉伯语数组，顺序与输入一一对应，不要回显原文：
-{
-  "translation": ["العربية 1", "العربية 2", "..."]
-}
-
-待翻译段落（保持顺序）：
-${paragraphs.map((p, i) => `# Paragraph ${i + 1}\n${p}`).join('\n\n')}`.trim();
-}
-
-type TargetLang = 'zh' | 'zh-TW' | 'en' | 'ja' | 'fr' | 'de' | 'ar' | 'morse' | 'aki';
-
-const VALID_TARGET_LANGS = new Set<string>(['zh', 'zh-TW', 'en', 'ja', 'fr', 'de', 'ar', 'morse', 'aki']);
-
-function normalizeTargetLang(raw: string | undefined): TargetLang {
-  const r = typeof raw === 'string' ? raw.trim() : '';
-  if (VALID_TARGET_LANGS.has(r)) return r as TargetLang;
-  return 'zh';
-}
-
-function validateSourceTarget(sourceLang: string, targetLang: string): string | null {
-  if (!VALID_TARGET_LANGS.has(targetLang)) {
-    return '无效的译文语言';
-  }
-  if (sourceLang === targetLang) {
-    return '原文语言与译文语言不能相同';
-  }
-  return null;
-}
-
-function resolveTranslationFlow(
-  sourceLang: string,
-  targetLang: string
-): { error: string } | { analysisLang: string; layout: 'to_cjk' | 'to_en'; transPrompt: (chunk: string[]) => string } {
-  const err = validateSourceTarget(sourceLang, targetLang);
-  if (err) return { error: err };
-
-  if (sourceLang === 'zh' && targetLang === 'en') {
-    return {
-      analysisLang: 'zh',
-      layout: 'to_en',
-      transPrompt: buildZhToEnTranslationOnlyPrompt,
-    };
-  }
-
-  if (targetLang === 'zh') {
-    return {
-      analysisLang: sourceLang,
-      layout: 'to_cjk',
-      transPrompt: (chunk: string[]) => buildTranslationToZhPrompt(chunk, sourceLang),
-    };
-  }
-
-  if (targetLang === 'zh-TW') {
-    return {
-      analysisLang: sourceLang,
-      layout: 'to_cjk',
-      transPrompt: (chunk: string[]) => buildTranslationToZhTwPrompt(chunk, sourceLang),
-    };
-  }
-
-  if (targetLang === 'en') {
-    return {
-      analysisLang: sourceLang,
-      layout: 'to_en',
-      transPrompt: (chunk: string[]) => buildTranslationToEnPrompt(chunk, sourceLang),
-    };
-  }
-
-  if (targetLang === 'ja') {
-    return {
-      analysisLang: sourceLang,
-      layout: 'to_cjk',
-      transPrompt: (chunk: string[]) => buildTranslationToJaPrompt(chunk, sourceLang),
-    };
-  }
-
-  if (targetLang === 'fr') {
-    return {
-      analysisLang: sourceLang,
-      layout: 'to_cjk',
-      transPrompt: (chunk: string[]) => buildTranslationToFrPrompt(chunk, sourceLang),
-    };
-  }
-
-  if (targetLang === 'de') {
-    return {
-      analysisLang: sourceLang,
-      layout: 'to_cjk',
-      transPrompt: (chunk: string[]) => buildTranslationToDePrompt(chunk, sourceLang),
-    };
-  }
-
-  if (targetLang === 'ar') {
-    return {
-      analysisLang: sourceLang,
-      layout: 'to_cjk',
-      transPrompt: (chunk: string[]) => buildTranslationToArPrompt(chunk, sourceLang),
-    };
-  }
-
-  if (targetLang === 'morse') {
-    if (sourceLang === 'zh') {
-      return {
-        analysisLang: 'zh',
-        layout: 'to_cjk',
-        transPrompt: buildZhToEnTranslationOnlyPrompt,
-      };
-    }
-    return {
-      analysisLang: sourceLang,
-      layout: 'to_cjk',
-      transPrompt: (chunk: string[]) => buildTranslationToEnPrompt(chunk, sourceLang),
-    };
-  }
-
-  if (targetLang === 'aki') {
-    if (sourceLang === 'zh') {
-      return {
-        analysisLang: 'zh',
-        layout: 'to_cjk',
-        transPrompt: buildZhToEnTranslationOnlyPrompt,
-      };
-    }
-    return {
-      analysisLang: sourceLang,
-      layout: 'to_cjk',
-      transPrompt: (chunk: string[]) => buildTranslationToEnPrompt(chunk, sourceLang),
-    };
-  }
-
-  return { error: '无法解析翻译方向' };
-}
-
-function buildAnalysisOnlyPrompt(paragraphs: string[], sourceLang: string, targetLang: string): string {
-  const srcLabel = LANG_NAMES[sourceLang] || '外文';
-  // morse / aki 的目标栏先用英文产出，后续由服务端做编码
-  const effectiveTarget = (targetLang === 'morse' || targetLang === 'aki') ? 'en' : targetLang;
-  const tgtLabel = LANG_NAMES[effectiveTarget] || '目标语言';
-  return `你是一个专业的中英双语文学编辑。请对以下${srcLabel}文章进行结构化写作分析，并提取标题和作者。
-
-【标题提取规则】
-- 标题通常是第一段或第一行，多为短语
-- 若首段是短句（≤60 字、无句号结尾），即视为标题
-
-【作者提取规则】
-- 常见格式：英文 "Author: XXX"、"By XXX"；中文 "作者：XXX"
-- 只提取姓名，去掉前缀
-
-【标题/作者多语种输出】
-- title.src：用原文（${srcLabel}）写出的标题
-- title.tgt：用译文（${tgtLabel}）写出的标题
-- author.src / author.tgt 同理
-- 若原文找不到作者，两侧都填 "Unknown"
-
-【字数上限】summary≤60字，narrativeDetail≤200字，plotSynopsis约500字（详细的剧情梗概），其余每项≤40字
-【人物提取】characters 数组列出文中主要人物，每个人物包含 name 和 description（简要介绍其身份、性格、在故事中的角色）
-【analysis 字段】summary / narrativeDetail / plotSynopsis / characters / themes / pros / cons 始终按 {en, zh}（英文 + 简体中文）双语输出，与目标语无关。
-
-输出严格 JSON：
-{
-  "title": { "src": "...(${srcLabel})", "tgt": "...(${tgtLabel})" },
-  "author": { "src": "...(${srcLabel})", "tgt": "...(${tgtLabel})" },
-  "analysis": {
-    "summary": { "en": "...", "zh": "..." },
-    "narrativeDetail": { "en": "...", "zh": "..." },
-    "plotSynopsis": { "en": "...(~500 words plot synopsis)...", "zh": "...(~500字剧情梗概)..." },
-    "characters": [{ "name": { "en": "...", "zh": "..." }, "description": { "en": "...", "zh": "..." } }],
-    "themes": [{ "en": "...", "zh": "..." }],
-    "pros": [{ "en": "...", "zh": "..." }],
-    "cons": [{ "en": "...", "zh": "..." }]
-  }
-}
-
-文章内容：
-${paragraphs.slice(0, 15).map((p, i) => `# ${i + 1}\n${p}`).join('\n\n')}`.trim();
-}
-
-/**
- * 将模型返回的 title / author 字段映射到「原文栏 / 译文栏」slot。
- * - 新版格式 {src, tgt}：src 是原文语言，tgt 是目标语言
- * - 旧版格式 {en, zh}：向后兼容
- * - 结果按 layout 落到 en / zh slot：
- *   - layout=to_cjk：en = 原文栏，zh = 译文栏
- *   - layout=to_en： en = 译文栏（英文），zh = 原文栏
- */
-function mapTitleAuthorToSlots(
-  raw: unknown,
-  layout: 'to_cjk' | 'to_en'
-): { en: string; zh: string } {
-  if (!raw || typeof raw !== 'object') return { en: '', zh: '' };
-  const o = raw as Record<string, unknown>;
-  const asStr = (v: unknown): string => (typeof v === 'string' ? v.trim() : '');
-  const src = asStr(o.src ?? o.source);
-  const tgt = asStr(o.tgt ?? o.target);
-  if (src || tgt) {
-    return layout === 'to_cjk' ? { en: src, zh: tgt } : { en: tgt, zh: src };
-  }
-  // Legacy：模型仍按 {en, zh} 返回
-  return { en: asStr(o.en), zh: asStr(o.zh) };
-}
-
-/** 对 title / author 的「译文栏」施加摩斯编码（仅当 targetLang === 'morse'） */
-function applyMorseToTitleAuthorSlots(
-  t: { en: string; zh: string },
-  layout: 'to_cjk' | 'to_en'
-): { en: string; zh: string } {
-  const tgtKey: 'en' | 'zh' = layout === 'to_en' ? 'en' : 'zh';
-  const morse = encodeInternationalMorse(t[tgtKey]);
-  return { ...t, [tgtKey]: morse || '—' };
-}
-
-/** 对 title / author 的「译文栏」施加 AKI码 编码 */
-function applyAkiToTitleAuthorSlots(
-  t: { en: string; zh: string },
-  layout: 'to_cjk' | 'to_en'
-): { en: string; zh: string } {
-  const tgtKey: 'en' | 'zh' = layout === 'to_en' ? 'en' : 'zh';
-  const aki = wrapAkiDisplayIfFirst(encodeAki(t[tgtKey]), false);
-  return { ...t, [tgtKey]: aki || '—' };
-}
-
-type BilingualStr = { en: string; zh: string };
-type CharacterInfo = { name: BilingualStr; description: BilingualStr };
-type BilingualAnalysis = { summary: BilingualStr; narrativeDetail: BilingualStr; themes: BilingualStr[]; pros: BilingualStr[]; cons: BilingualStr[]; plotSynopsis?: BilingualStr; characters?: CharacterInfo[] };
-
-/** 规范化模型返回的 analysis，支持双语对象和旧版纯字符串 */
-function normalizeAnalysis(raw: unknown): BilingualAnalysis | null {
-  if (!raw || typeof raw !== 'object') return null;
-  const o = raw as Record<string, unknown>;
-
-  const toBilingual = (v: unknown): BilingualStr => {
-    if (v && typeof v === 'object') {
-      const b = v as Record<string, unknown>;
-      if ('en' in b || 'zh' in b) {
-        return { en: typeof b.en === 'string' ? b.en.trim() : '', zh: typeof b.zh === 'string' ? b.zh.trim() : '' };
-      }
-    }
-    const s = typeof v === 'string' ? v.trim() : '';
-    return { en: '', zh: s };
-  };
-
-  const toArr = (v: unknown): BilingualStr[] => {
-    if (!Array.isArray(v)) return [];
-    return v.map(item => toBilingual(item));
-  };
-
-  const summary = toBilingual(o.summary ?? o.Summary);
-  const narrativeDetail = toBilingual(o.narrativeDetail ?? o.narrative_detail);
-  const themes = toArr(o.themes ?? o.Themes);
-  const pros = toArr(o.pros ?? o.Pros);
-  const cons = toArr(o.cons ?? o.Cons);
-  const plotSynopsis = toBilingual(o.plotSynopsis ?? o.plot_synopsis ?? o.PlotSynopsis);
-  const characters: CharacterInfo[] = (() => {
-    const raw = o.characters ?? o.Characters;
-    if (!Array.isArray(raw)) return [];
-    return raw.map((c: unknown) => {
-      if (!c || typeof c !== 'object') return { name: { en: '', zh: '' }, description: { en: '', zh: '' } };
-      const ch = c as Record<string, unknown>;
-      return { name: toBilingual(ch.name ?? ch.Name), description: toBilingual(ch.description ?? ch.Description) };
-    }).filter((c: CharacterInfo) => c.name.en || c.name.zh);
-  })();
-
-  const hasContent = summary.en || summary.zh || narrativeDetail.en || narrativeDetail.zh ||
-    themes.length > 0 || pros.length > 0 || cons.length > 0 ||
-    plotSynopsis.en || plotSynopsis.zh || characters.length > 0;
-  if (!hasContent) return null;
-
-  const ph: BilingualStr = { en: '—', zh: '—' };
-  return {
-    summary: (summary.en || summary.zh) ? summary : ph,
-    narrativeDetail: (narrativeDetail.en || narrativeDetail.zh) ? narrativeDetail : ph,
-    themes: themes.length ? themes : [ph],
-    pros: pros.length ? pros : [ph],
-    cons: cons.length ? cons : [ph],
-    plotSynopsis: (plotSynopsis.en || plotSynopsis.zh) ? plotSynopsis : undefined,
-    characters: characters.length > 0 ? characters : undefined,
-  };
-}
-
-/** 将模型可能返回的各种 translation 格式统一为数组 */
-function normalizeTranslationToArray(raw: unknown, expectedLen: number): unknown[] {
-  if (Array.isArray(raw)) return raw;
-  if (raw && typeof raw === 'object') {
-    const o = raw as Record<string, unknown>;
-    const arr: unknown[] = [];
-    for (let i = 0; i < expectedLen; i++) {
-      const v = o[String(i)] ?? o[i];
-      if (v !== undefined && v !== null) arr.push(v);
-    }
-    if (arr.length > 0) return arr;
-    const values = Object.values(o);
-    if (values.length > 0) return values;
-  }
-  if (typeof raw === 'string') return raw.split(/\n\s*\n/).filter(Boolean);
-  return [];
-}
-
-/** 移除模型可能回显的段落标记（如 # Paragraph 8、# 段落 9） */
-function stripParagraphMarkers(s: string): string {
-  return s
-    .replace(/(?:^|\n)\s*#\s*(?:Paragraph|段落)\s*\d+\s*(?:\n|$)/g, '\n')
-    .replace(/\n{3,}/g, '\n\n')
-    .trim();
-}
-
-/** to_cjk：pair.en 为原文，pair.zh 为中文译文；to_en：pair.zh 为原文，pair.en 为英文译文 */
-function mergeTranslation(
-  sourceParagraphs: string[],
-  raw: unknown[],
-  layout: 'to_cjk' | 'to_en'
-): { en: string; zh: string }[] {
-  return sourceParagraphs.map((src, i) => {
-    const v = raw[i];
-    let translated = '';
-    if (typeof v === 'string') {
-      translated = stripParagraphMarkers(v);
-    } else if (v && typeof v === 'object') {
-      const key = layout === 'to_en' ? 'en' : 'zh';
-      translated = stripParagraphMarkers(String((v as Record<string, unknown>)[key] ?? ''));
-    }
-    return layout === 'to_cjk'
-      ? { en: src, zh: translated }
-      : { en: translated, zh: src };
-  });
-}
 
 const FOLLOWUP_CONTEXT_MAX = 28000;
 const FOLLOWUP_ANALYSIS_MAX = 12000;
@@ -665,44 +165,17 @@ function buildFollowupHistoryText(history: FollowupHistoryItem[] | undefined): s
   return lines.join('\n\n');
 }
 
-async function callDeepSeekTextFollowup(userPrompt: string, apiKey: string): Promise<{ zh: string; en: string }> {
-  const response = await fetch('https://api.deepseek.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'deepseek-chat',
-      messages: [
-        {
-          role: 'system',
-          content:
-            '你是专业的中英双语文学编辑助手。用户会提供文章正文（含英中对照）、可选的结构化分析摘要、以及此前的对话摘录。你必须仅依据这些内容回答用户关于文本的深度追问，不要编造文中不存在的情节或引用。若问题与文本明显无关，请礼貌说明并引导回到文本。\n请始终只输出一个 JSON 对象，且必须包含键 "zh"（简体中文）与 "en"（英文），两者语义一致，风格为文学评论。',
-        },
-        { role: 'user', content: userPrompt },
-      ],
-      response_format: { type: 'json_object' },
-      max_tokens: 4096,
-    }),
-  });
-
-  if (!response.ok) {
-    const text = await response.text();
-    console.error('DeepSeek follow-up error:', response.status, text);
-    let userMsg = 'DeepSeek API 调用失败';
-    try {
-      const errJson = JSON.parse(text);
-      const apiErr = errJson?.error?.message || errJson?.message || errJson?.error;
-      if (apiErr) userMsg = typeof apiErr === 'string' ? apiErr : String(apiErr);
-      if (response.status === 401) userMsg = 'API Key 无效或已过期，请检查 .env.local 中的 DEEPSEEK_API_KEY';
-      else if (response.status === 429) userMsg = '请求过于频繁，请稍后再试';
-    } catch {}
-    throw new Error(userMsg);
-  }
-
-  const data = await response.json();
-  const obj = parseDeepSeekJson(data.choices?.[0]?.message?.content ?? '');
+async function callLlmTextFollowup(
+  userPrompt: string,
+  llm: LlmProvider,
+  opts?: LlmCallOptions
+): Promise<{ zh: string; en: string }> {
+  const obj = await callLlmJson(llm, {
+    system:
+      '你是专业的中英双语文学编辑助手。用户会提供文章正文（含英中对照）、可选的结构化分析摘要、以及此前的对话摘录。你必须仅依据这些内容回答用户关于文本的深度追问，不要编造文中不存在的情节或引用。若问题与文本明显无关，请礼貌说明并引导回到文本。\n请始终只输出一个 JSON 对象，且必须包含键 "zh"（简体中文）与 "en"（英文），两者语义一致，风格为文学评论。',
+    user: userPrompt,
+    maxTokens: 4096,
+  }, opts);
   const zh = typeof obj.zh === 'string' ? obj.zh.trim() : '';
   const en = typeof obj.en === 'string' ? obj.en.trim() : '';
   if (!zh && !en) throw new Error('模型未返回有效回答');
@@ -724,16 +197,23 @@ app.post('/api/extract-text', upload.single('file'), async (req, res) => {
 
 /** AKI 动态梗：根据段落原文生成约 50 字中文梗 + 一句英文 */
 app.post('/api/aki-meme', async (req, res) => {
-  const DEEPSEEK_API_KEY = (process.env.DEEPSEEK_API_KEY || '').trim();
-  const placeholders = ['YOUR_DEEPSEEK_API_KEY', '你的DeepSeek密钥', '你的密钥'];
-  if (!DEEPSEEK_API_KEY || placeholders.some(p => DEEPSEEK_API_KEY.includes(p))) {
+  const llm = resolveLlmProvider();
+  if (!llm) {
     return res.status(503).json({
-      error: '请先配置 DeepSeek API Key。在 bilingual-editorial 目录下创建 .env.local，填写：DEEPSEEK_API_KEY=你的密钥'
+      error: '请先配置模型 API Key。在 bilingual-editorial 目录下创建 .env.local，填写：DEEPSEEK_API_KEY=你的密钥（或用 LLM_PROVIDER / LLM_BASE_URL 改用其他模型）'
     });
   }
+  const quota = await getQuotaStore('sqlite');
+  if (quota && !(await quota.enforce(req, res, 'meme'))) return;
+
+  const usage = createUsageMeter();
   try {
     const { text } = req.body as { text?: string };
-    const pair = await fetchAkiMemePairDeepseek(String(text ?? ''), DEEPSEEK_API_KEY);
+    const pair = await fetchAkiMemePairDeepseek(String(text ?? ''), llm, {
+      signal: abortOnClientDisconnect(res),
+      onUsage: (u) => usage.record('meme', u),
+    });
+    await recordRequestUsage(req.headers.authorization, 'aki-meme', llm, usage.summary());
     if (!pair) {
       return res.status(200).json({ eligible: false, zh: '', en: '' });
     }
@@ -747,11 +227,10 @@ app.post('/api/aki-meme', async (req, res) => {
 
 /** AKI 解码后的中文润色（修正拼音还原误差） */
 app.post('/api/refine-zh', async (req, res) => {
-  const DEEPSEEK_API_KEY = (process.env.DEEPSEEK_API_KEY || '').trim();
-  const placeholders = ['YOUR_DEEPSEEK_API_KEY', '你的DeepSeek密钥', '你的密钥'];
-  if (!DEEPSEEK_API_KEY || placeholders.some(p => DEEPSEEK_API_KEY.includes(p))) {
+  const llm = resolveLlmProvider();
+  if (!llm) {
     return res.status(503).json({
-      error: '请先配置 DeepSeek API Key。在 bilingual-editorial 目录下创建 .env.local，填写：DEEPSEEK_API_KEY=你的密钥'
+      error: '请先配置模型 API Key。在 bilingual-editorial 目录下创建 .env.local，填写：DEEPSEEK_API_KEY=你的密钥（或用 LLM_PROVIDER / LLM_BASE_URL 改用其他模型）'
     });
   }
   try {
@@ -760,7 +239,9 @@ app.post('/api/refine-zh', async (req, res) => {
       return res.status(400).json({ error: 'paragraphs is required' });
     }
     const prompt = buildRefineAkiZhPrompt(paragraphs.map(p => String(p ?? '')));
-    const json = await callDeepSeekCached(prompt, DEEPSEEK_API_KEY);
+    const usage = createUsageMeter();
+    const json = await callLlmCached(prompt, llm, { onUsage: (u) => usage.record('refine', u) });
+    await recordRequestUsage(req.headers.authorization, 'refine-zh', llm, usage.summary());
     const refined = mergeRefinedParagraphs(paragraphs, json.paragraphs);
     return res.json({ paragraphs: refined });
   } catch (err: unknown) {
@@ -771,89 +252,36 @@ app.post('/api/refine-zh', async (req, res) => {
 });
 
 app.post('/api/translate', async (req, res) => {
-  const DEEPSEEK_API_KEY = (process.env.DEEPSEEK_API_KEY || '').trim();
-  const placeholders = ['YOUR_DEEPSEEK_API_KEY', '你的DeepSeek密钥', '你的密钥'];
-  if (!DEEPSEEK_API_KEY || placeholders.some(p => DEEPSEEK_API_KEY.includes(p))) {
+  const llm = resolveLlmProvider();
+  if (!llm) {
     return res.status(503).json({
-      error: '请先配置 DeepSeek API Key。在 bilingual-editorial 目录下创建 .env.local，填写：DEEPSEEK_API_KEY=你的密钥'
+      error: '请先配置模型 API Key。在 bilingual-editorial 目录下创建 .env.local，填写：DEEPSEEK_API_KEY=你的密钥（或用 LLM_PROVIDER / LLM_BASE_URL 改用其他模型）'
     });
   }
 
+  const usage = createUsageMeter();
   try {
-    const { paragraphs, sourceLang = 'en', sourceLangFull, targetLang: rawTarget } = req.body as {
-      paragraphs: string[];
-      sourceLang?: string;
-      sourceLangFull?: string;
-      targetLang?: string;
-    };
-    if (!Array.isArray(paragraphs) || paragraphs.length === 0) {
-      return res.status(400).json({ error: 'paragraphs is required' });
-    }
-
-    const lang = sourceLangFull || sourceLang;
-    const targetLang = normalizeTargetLang(rawTarget);
-
-    const flow = resolveTranslationFlow(lang, targetLang);
-    if ('error' in flow) {
-      return res.status(400).json({ error: flow.error });
-    }
-
-    const { analysisLang, layout, transPrompt: transOnlyPrompt } = flow;
-
-    const chunks = splitIntoChunks(paragraphs, CHUNK_SIZE);
-
-    const [analysisJson, ...translationResults] = await Promise.all([
-      callDeepSeekCached(buildAnalysisOnlyPrompt(paragraphs, analysisLang, targetLang), DEEPSEEK_API_KEY),
-      ...chunks.map((chunk) => callDeepSeekCached(transOnlyPrompt(chunk), DEEPSEEK_API_KEY)),
-    ]);
-
-    const allTranslations: { en: string; zh: string }[] = [];
-    for (let i = 0; i < chunks.length; i++) {
-      const chunkRaw = normalizeTranslationToArray(translationResults[i]?.translation, chunks[i].length);
-      if (chunkRaw.length > 0) {
-        allTranslations.push(...mergeTranslation(chunks[i], chunkRaw, layout));
-      }
+    const job = parseTranslationRequest(req.body);
+    if ('error' in job) {
+      return res.status(400).json({ error: job.error });
     }
-
-    if (allTranslations.length === 0) {
-      return res.status(500).json({ error: '模型返回格式异常，请重试' });
-    }
-
-    let title = mapTitleAuthorToSlots(analysisJson?.title, layout);
-    let author = mapTitleAuthorToSlots(analysisJson?.author, layout);
-
-    // 规则兜底：若模型未提取到标题/作者，从前几段译文中用正则提取
-    const fallback = extractTitleAuthorFromTranslation(allTranslations);
-    const isEmpty = (t: { en?: string; zh?: string }) => {
-      const v = (t?.en?.trim() || t?.zh?.trim() || '').replace(/[—\-]/g, '');
-      return !v;
-    };
-    if (isEmpty(title) && (fallback.title?.en || fallback.title?.zh)) {
-      title = fallback.title!;
-    }
-    if (isEmpty(author) && (fallback.author?.en || fallback.author?.zh)) {
-      author = fallback.author!;
-    }
-
-    if (targetLang === 'morse') {
-      title = applyMorseToTitleAuthorSlots(title, layout);
-      author = applyMorseToTitleAuthorSlots(author, layout);
-    }
-    if (targetLang === 'aki') {
-      title = applyAkiToTitleAuthorSlots(title, layout);
-      author = applyAkiToTitleAuthorSlots(author, layout);
-    }
-
-    const analysis = normalizeAnalysis(analysisJson?.analysis);
-    const translationOut =
-      targetLang === 'morse' ? applyMorseEncodingToPairs(allTranslations)
-      : targetLang === 'aki'
-        ? await applyAkiEncodingToPairsAsync(allTranslations, layout, (t) =>
-            fetchAkiMemePairDeepseek(t, DEEPSEEK_API_KEY)
-          )
-        : allTranslations;
-    return res.json({ title, author, translation: translationOut, analysis });
+    const quota = await getQuotaStore('sqlite');
+    if (quota && !(await quota.enforce(req, res, 'translation'))) return;
+    const signal = abortOnClientDisconnect(res);
+    const cache = await getParagraphCache('sqlite');
+    const result = await runTranslationJob(
+      job,
+      llm,
+      (prompt, opts) => callLlmCached(prompt, llm, opts, job.systemPrompt),
+      undefined,
+      { cache, signal, usage }
+    );
+    await recordRequestUsage(req.headers.authorization, 'translate', llm, usage.summary());
+    return res.json(result);
   } catch (err: unknown) {
+    // 失败或取消前已消耗的 token 同样记账
+    await recordRequestUsage(req.headers.authorization, 'translate', llm, usage.summary());
+    if (isAbortError(err)) return;
     const msg = err instanceof Error ? err.message : 'Internal error';
     console.error(err);
     return res.status(500).json({ error: msg });
@@ -861,138 +289,71 @@ app.post('/api/translate', async (req, res) => {
 });
 
 app.post('/api/translate-stream', async (req, res) => {
-  const DEEPSEEK_API_KEY = (process.env.DEEPSEEK_API_KEY || '').trim();
-  const placeholders = ['YOUR_DEEPSEEK_API_KEY', '你的DeepSeek密钥', '你的密钥'];
-  if (!DEEPSEEK_API_KEY || placeholders.some(p => DEEPSEEK_API_KEY.includes(p))) {
+  const llm = resolveLlmProvider();
+  if (!llm) {
     return res.status(503).json({
-      error: '请先配置 DeepSeek API Key。在 bilingual-editorial 目录下创建 .env.local，填写：DEEPSEEK_API_KEY=你的密钥'
+      error: '请先配置模型 API Key。在 bilingual-editorial 目录下创建 .env.local，填写：DEEPSEEK_API_KEY=你的密钥（或用 LLM_PROVIDER / LLM_BASE_URL 改用其他模型）'
     });
   }
 
-  const write = (obj: object) => {
+  const write = (obj: TranslationStreamEvent) => {
     res.write(JSON.stringify(obj) + '\n');
     if (typeof (res as unknown as { flush?: () => void }).flush === 'function') {
       (res as unknown as { flush: () => void }).flush();
     }
   };
 
-  try {
-    const { paragraphs, sourceLang = 'en', sourceLangFull, targetLang: rawTarget } = req.body as {
-      paragraphs: string[];
-      sourceLang?: string;
-      sourceLangFull?: string;
-      targetLang?: string;
-    };
-
-    if (!Array.isArray(paragraphs) || paragraphs.length === 0) {
-      return res.status(400).json({ error: 'paragraphs is required' });
-    }
-
-    const lang = sourceLangFull || sourceLang;
-    const targetLang = normalizeTargetLang(rawTarget);
-
-    const flow = resolveTranslationFlow(lang, targetLang);
-    if ('error' in flow) {
-      return res.status(400).json({ error: flow.error });
-    }
-
-    const { analysisLang, layout, transPrompt: transOnlyPrompt } = flow;
-
-    res.setHeader('Content-Type', 'application/x-ndjson');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-    res.flushHeaders?.();
-
-    const chunks = splitIntoChunks(paragraphs, CHUNK_SIZE);
-    const total = chunks.length;
-    const allTranslations: { en: string; zh: string }[][] = new Array(total);
-    const englishPairsForMorseFallback: { en: string; zh: string }[][] | undefined =
-      (targetLang === 'morse' || targetLang === 'aki') ? new Array(total) : undefined;
-    let completedCount = 0;
-
-    write({ type: 'progress', chunk: 0, total, percent: 0, step: `准备翻译共 ${total} 段...` });
+  // 带 jobId 时续传：按当初保存的请求体重建任务，已完成的块直接重放；只有任务的创建者能续传
+  const jobs = await getTranslationJobStore('sqlite');
+  const owner = await resolveRequesterKey(req, res);
+  const opened = await openTranslationJob(jobs, req.body, owner);
+  if ('error' in opened) {
+    return res.status(opened.status).json({ error: opened.error, code: opened.code });
+  }
+  const { job } = opened;
+  // 续传不另计次数，已在新建任务时扣过
+  const quota = opened.resumed ? null : await getQuotaStore('sqlite');
+  if (quota && !(await quota.enforce(req, res, 'translation'))) return;
+  // 配额通过后才存档新任务，被拒的请求不留下任务
+  const checkpoint = opened.resumed ? opened.checkpoint : await createJobCheckpoint(jobs, req.body, owner);
+
+  res.setHeader('Content-Type', 'application/x-ndjson');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders?.();
+  // 客户端断开（关闭页面或点击取消）时停止剩余块的模型调用
+  const signal = abortOnClientDisconnect(res);
+  const usage = createUsageMeter();
 
-    const analysisPromise = callDeepSeekCached(buildAnalysisOnlyPrompt(paragraphs, analysisLang, targetLang), DEEPSEEK_API_KEY);
-
-    // 所有翻译块并行发起，每块完成后立即推送进度
-    const chunkPromises = chunks.map((chunk, i) =>
-      callDeepSeekCached(transOnlyPrompt(chunk), DEEPSEEK_API_KEY).then(async (chunkJson) => {
-        const chunkRaw = normalizeTranslationToArray(chunkJson?.translation, chunk.length);
-        const chunkPairs = chunkRaw.length > 0 ? mergeTranslation(chunk, chunkRaw, layout) : [];
-        if (englishPairsForMorseFallback) englishPairsForMorseFallback[i] = chunkPairs;
-        const chunkPairsOut =
-          targetLang === 'morse' ? applyMorseEncodingToPairs(chunkPairs)
-          : targetLang === 'aki'
-            ? await applyAkiEncodingToPairsAsync(chunkPairs, layout, (t) =>
-                fetchAkiMemePairDeepseek(t, DEEPSEEK_API_KEY)
-              )
-            : chunkPairs;
-        allTranslations[i] = chunkPairsOut;
-        completedCount++;
-        const pct = Math.round((completedCount / total) * 100);
-        write({ type: 'progress', chunk: completedCount, total, percent: pct, step: `翻译第 ${completedCount}/${total} 段` });
-        // 推送第一块时附带 analysis（如果已完成）
-        write({ type: 'chunk_done', chunkIndex: i + 1, pairs: chunkPairsOut });
-      })
+  try {
+    const cache = await getParagraphCache('sqlite');
+    const result = await runTranslationJob(
+      job,
+      llm,
+      (prompt, opts) => callLlmCached(prompt, llm, opts, job.systemPrompt),
+      write,
+      { cache, signal, checkpoint, usage, partial: true }
     );
-
-    // 等待所有翻译和 analysis 完成
-    const [analysisJson] = await Promise.all([analysisPromise, ...chunkPromises]);
-
-    const flatTranslations = allTranslations.flat();
-    if (flatTranslations.length === 0) {
-      write({ type: 'error', message: '模型返回格式异常，请重试' });
-      return res.end();
-    }
-
-    let title = mapTitleAuthorToSlots(analysisJson?.title, layout);
-    let author = mapTitleAuthorToSlots(analysisJson?.author, layout);
-
-    const flatForTitleFallback =
-      englishPairsForMorseFallback && (targetLang === 'morse' || targetLang === 'aki')
-        ? englishPairsForMorseFallback.flat()
-        : flatTranslations;
-    const fallback = extractTitleAuthorFromTranslation(flatForTitleFallback);
-    const isEmpty = (t: { en?: string; zh?: string }) => {
-      const v = (t?.en?.trim() || t?.zh?.trim() || '').replace(/[—\-]/g, '');
-      return !v;
-    };
-    if (isEmpty(title) && (fallback.title?.en || fallback.title?.zh)) {
-      title = fallback.title!;
-    }
-    if (isEmpty(author) && (fallback.author?.en || fallback.author?.zh)) {
-      author = fallback.author!;
-    }
-
-    if (targetLang === 'morse') {
-      title = applyMorseToTitleAuthorSlots(title, layout);
-      author = applyMorseToTitleAuthorSlots(author, layout);
-    }
-    if (targetLang === 'aki') {
-      title = applyAkiToTitleAuthorSlots(title, layout);
-      author = applyAkiToTitleAuthorSlots(author, layout);
-    }
-
-    const analysis = normalizeAnalysis(analysisJson?.analysis);
-    write({
-      type: 'done',
-      result: { title, author, translation: flatTranslations, analysis }
-    });
-    res.end();
+    write({ type: 'done', result });
   } catch (err: unknown) {
-    const msg = err instanceof Error ? err.message : 'Internal error';
-    console.error(err);
-    write({ type: 'error', message: msg });
+    // 客户端断开而取消的任务不算错误，直接结束
+    if (!isAbortError(err)) {
+      const msg = err instanceof Error ? err.message : 'Internal error';
+      console.error(err);
+      write({ type: 'error', message: msg });
+    }
+  } finally {
+    // 只记本次连接实际调用的用量，续传重放的块已在之前的连接记过
+    await recordRequestUsage(req.headers.authorization, 'translate-stream', llm, usage.summary());
     res.end();
   }
 });
 
 app.post('/api/text-followup', async (req, res) => {
-  const DEEPSEEK_API_KEY = (process.env.DEEPSEEK_API_KEY || '').trim();
-  const placeholders = ['YOUR_DEEPSEEK_API_KEY', '你的DeepSeek密钥', '你的密钥'];
-  if (!DEEPSEEK_API_KEY || placeholders.some(p => DEEPSEEK_API_KEY.includes(p))) {
+  const llm = resolveLlmProvider();
+  if (!llm) {
     return res.status(503).json({
-      error: '请先配置 DeepSeek API Key。在 bilingual-editorial 目录下创建 .env.local，填写：DEEPSEEK_API_KEY=你的密钥',
+      error: '请先配置模型 API Key。在 bilingual-editorial 目录下创建 .env.local，填写：DEEPSEEK_API_KEY=你的密钥（或用 LLM_PROVIDER / LLM_BASE_URL 改用其他模型）',
     });
   }
 
@@ -1009,6 +370,8 @@ app.post('/api/text-followup', async (req, res) => {
     if (!question) return res.status(400).json({ error: 'question 不能为空' });
     const content = Array.isArray(body?.content) ? body.content : [];
     if (content.length === 0) return res.status(400).json({ error: 'content 不能为空' });
+    const quota = await getQuotaStore('sqlite');
+    if (quota && !(await quota.enforce(req, res, 'followup'))) return;
 
     const articleCtx = buildFollowupArticleContext(
       content,
@@ -1021,7 +384,9 @@ app.post('/api/text-followup', async (req, res) => {
       .filter(Boolean)
       .join('\n\n');
 
-    const reply = await callDeepSeekTextFollowup(userPrompt, DEEPSEEK_API_KEY);
+    const usage = createUsageMeter();
+    const reply = await callLlmTextFollowup(userPrompt, llm, { onUsage: (u) => usage.record('followup', u) });
+    await recordRequestUsage(req.headers.authorization, 'text-followup', llm, usage.summary());
     return res.json({ reply });
   } catch (err: unknown) {
     const msg = err instanceof Error ? err.message : 'Internal error';
@@ -1030,6 +395,99 @@ app.post('/api/text-followup', async (req, res) => {
   }
 });
 
+/** 回译质检：把译文逐段译回原文语言，按 chrF 与原文比对打分 */
+app.post('/api/back-translate', async (req, res) => {
+  const llm = resolveLlmProvider();
+  if (!llm) {
+    return res.status(503).json({
+      error: '请先配置模型 API Key。在 bilingual-editorial 目录下创建 .env.local，填写：DEEPSEEK_API_KEY=你的密钥（或用 LLM_PROVIDER / LLM_BASE_URL 改用其他模型）',
+    });
+  }
+
+  const request = parseBackTranslationRequest(req.body);
+  if ('error' in request) return res.status(400).json({ error: request.error });
+  const quota = await getQuotaStore('sqlite');
+  if (quota && !(await quota.enforce(req, res, 'qa'))) return;
+
+  const usage = createUsageMeter();
+  try {
+    const scores = await runBackTranslation(request, (prompt, opts) => callLlmCached(prompt, llm, opts), {
+      signal: abortOnClientDisconnect(res),
+      usage,
+    });
+    await recordRequestUsage(req.headers.authorization, 'back-translate', llm, usage.summary());
+    return res.json({ scores, usage: usage.summary() });
+  } catch (err: unknown) {
+    await recordRequestUsage(req.headers.authorization, 'back-translate', llm, usage.summary());
+    if (isAbortError(err)) return;
+    const msg = err instanceof Error ? err.message : 'Internal error';
+    console.error(err);
+    return res.status(500).json({ error: msg });
+  }
+});
+
+/** 单段候选译法：结合前后段落给出 3–5 种不同译法；每次都要新候选，不走结果缓存 */
+app.post('/api/alternatives', async (req, res) => {
+  const llm = resolveLlmProvider();
+  if (!llm) {
+    return res.status(503).json({
+      error: '请先配置模型 API Key。在 bilingual-editorial 目录下创建 .env.local，填写：DEEPSEEK_API_KEY=你的密钥（或用 LLM_PROVIDER / LLM_BASE_URL 改用其他模型）',
+    });
+  }
+
+  const request = parseParagraphRevisionRequest(req.body);
+  if ('error' in request) return res.status(400).json({ error: request.error });
+  const quota = await getQuotaStore('sqlite');
+  if (quota && !(await quota.enforce(req, res, 'paragraph'))) return;
+
+  const usage = createUsageMeter();
+  try {
+    const alternatives = await fetchParagraphAlternatives(request, (prompt, opts) => callLlm(prompt, llm, opts, request.systemPrompt), {
+      signal: abortOnClientDisconnect(res),
+      usage,
+    });
+    await recordRequestUsage(req.headers.authorization, 'alternatives', llm, usage.summary());
+    return res.json({ alternatives, usage: usage.summary() });
+  } catch (err: unknown) {
+    await recordRequestUsage(req.headers.authorization, 'alternatives', llm, usage.summary());
+    if (isAbortError(err)) return;
+    const msg = err instanceof Error ? err.message : 'Internal error';
+    console.error(err);
+    return res.status(500).json({ error: msg });
+  }
+});
+
+/** 单段按要求重译（可附改译要求，如「更正式」）；结果应随要求变化，不走结果缓存 */
+app.post('/api/retranslate-paragraph', async (req, res) => {
+  const llm = resolveLlmProvider();
+  if (!llm) {
+    return res.status(503).json({
+      error: '请先配置模型 API Key。在 bilingual-editorial 目录下创建 .env.local，填写：DEEPSEEK_API_KEY=你的密钥（或用 LLM_PROVIDER / LLM_BASE_URL 改用其他模型）',
+    });
+  }
+
+  const request = parseParagraphRevisionRequest(req.body);
+  if ('error' in request) return res.status(400).json({ error: request.error });
+  const quota = await getQuotaStore('sqlite');
+  if (quota && !(await quota.enforce(req, res, 'paragraph'))) return;
+
+  const usage = createUsageMeter();
+  try {
+    const translation = await retranslateParagraph(request, (prompt, opts) => callLlm(prompt, llm, opts, request.systemPrompt), {
+      signal: abortOnClientDisconnect(res),
+      usage,
+    });
+    await recordRequestUsage(req.headers.authorization, 'retranslate-paragraph', llm, usage.summary());
+    return res.json({ translation, usage: usage.summary() });
+  } catch (err: unknown) {
+    await recordRequestUsage(req.headers.authorization, 'retranslate-paragraph', llm, usage.summary());
+    if (isAbortError(err)) return;
+    const msg = err instanceof Error ? err.message : 'Internal error';
+    console.error(err);
+    return res.status(500).json({ error: msg });
+  }
+});
+
 // 历史记录（多设备同步，需 DATABASE_URL）
 const TABLE_SQL = `CREATE TABLE IF NOT EXISTS translations (
   id TEXT PRIMARY KEY,
@@ -1050,6 +508,10 @@ const MIGRATE_SQLS = [
   `ALTER TABLE translations ADD COLUMN IF NOT EXISTS username TEXT`,
   `ALTER TABLE translations ADD COLUMN IF NOT EXISTS source_lang TEXT`,
   `ALTER TABLE translations ADD COLUMN IF NOT EXISTS target_lang TEXT`,
+  `ALTER TABLE translations ADD COLUMN IF NOT EXISTS style TEXT`,
+  `ALTER TABLE translations ADD COLUMN IF NOT EXISTS style_instructions TEXT`,
+  `ALTER TABLE translations ADD COLUMN IF NOT EXISTS targets JSONB`,
+  `ALTER TABLE translations ADD COLUMN IF NOT EXISTS usage JSONB`,
 ];
 
 async function withHistoryDb<T>(fn: (sql: ReturnType<typeof neon>) => Promise<T>): Promise<T | null> {
@@ -1102,12 +564,12 @@ app.get('/api/history', async (req, res) => {
   const result = await withHistoryDb(async (sql) => {
     const rows =
       auth === 'legacy'
-        ? await sql`SELECT id, created_at_ms, title_zh, title_en, author_zh, author_en, content, analysis, annotations, username, source_lang
+        ? await sql`SELECT id, created_at_ms, title_zh, title_en, author_zh, author_en, content, analysis, annotations, username, source_lang, target_lang, style, style_instructions, targets, usage
             FROM translations ORDER BY created_at_ms DESC LIMIT 100`
         : admin
-          ? await sql`SELECT id, created_at_ms, title_zh, title_en, author_zh, author_en, content, analysis, annotations, username, source_lang, target_lang
+          ? await sql`SELECT id, created_at_ms, title_zh, title_en, author_zh, author_en, content, analysis, annotations, username, source_lang, target_lang, style, style_instructions, targets, usage
               FROM translations ORDER BY created_at_ms DESC LIMIT 500`
-          : await sql`SELECT id, created_at_ms, title_zh, title_en, author_zh, author_en, content, analysis, annotations, username, source_lang, target_lang
+          : await sql`SELECT id, created_at_ms, title_zh, title_en, author_zh, author_en, content, analysis, annotations, username, source_lang, target_lang, style, style_instructions, targets, usage
               FROM translations WHERE username = ${auth.userId} ORDER BY created_at_ms DESC LIMIT 100`;
     return rows as Record<string, unknown>[];
   });
@@ -1122,7 +584,11 @@ app.get('/api/history', async (req, res) => {
     annotations: (r.annotations as Record<string, unknown>) ?? undefined,
     username: r.username ? String(r.username) : undefined,
     sourceLang: r.source_lang ? String(r.source_lang) : undefined,
-      targetLang: r.target_lang ? String(r.target_lang) : undefined,
+    targetLang: r.target_lang ? String(r.target_lang) : undefined,
+    style: r.style ? String(r.style) : undefined,
+    styleInstructions: r.style_instructions ? String(r.style_instructions) : undefined,
+    targets: (r.targets as Record<string, unknown>) ?? undefined,
+    usage: normalizeUsageSummary(r.usage) ?? undefined,
   }));
   const labelMap = await resolveOwnerDisplayNames(
     items.map((i) => i.username),
@@ -1149,6 +615,9 @@ app.post('/api/history', async (req, res) => {
     analysis?: Record<string, unknown> | null;
     annotations?: Record<string, unknown> | null;
     username?: string; sourceLang?: string; targetLang?: string;
+    style?: string; styleInstructions?: string;
+    targets?: Record<string, unknown> | null;
+    usage?: unknown;
   };
   const id = (body?.id || crypto.randomUUID()) as string;
   const createdAt = typeof body?.createdAt === 'number' ? body.createdAt : Date.now();
@@ -1160,19 +629,26 @@ app.post('/api/history', async (req, res) => {
   const dbUsername = auth !== 'legacy' ? auth.userId : (body?.username || null);
   const dbSourceLang = body?.sourceLang || null;
   const dbTargetLang = body?.targetLang || null;
+  const dbStyle = body?.style || null;
+  const dbStyleInstructions = body?.styleInstructions || null;
+  const targets = body?.targets && typeof body.targets === 'object' ? body.targets : null;
+  const usage = normalizeUsageSummary(body?.usage);
   if (content.length === 0) return res.status(400).json({ error: 'content 不能为空' });
 
   const contentStr = JSON.stringify(content);
   const analysisStr = analysis ? JSON.stringify(analysis) : null;
   const annotationsStr = annotations ? JSON.stringify(annotations) : null;
+  const targetsStr = targets ? JSON.stringify(targets) : null;
+  const usageStr = usage ? JSON.stringify(usage) : null;
   const ok = await withHistoryDb(async (sql) => {
     await sql.query(
-      `INSERT INTO translations (id, created_at_ms, title_zh, title_en, author_zh, author_en, content, analysis, annotations, username, source_lang, target_lang)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      `INSERT INTO translations (id, created_at_ms, title_zh, title_en, author_zh, author_en, content, analysis, annotations, username, source_lang, target_lang, style, style_instructions, targets, usage)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
        ON CONFLICT (id) DO UPDATE SET created_at_ms = EXCLUDED.created_at_ms, title_zh = EXCLUDED.title_zh, title_en = EXCLUDED.title_en,
          author_zh = EXCLUDED.author_zh, author_en = EXCLUDED.author_en, content = EXCLUDED.content, analysis = EXCLUDED.analysis,
-         annotations = EXCLUDED.annotations, username = EXCLUDED.username, source_lang = EXCLUDED.source_lang, target_lang = EXCLUDED.target_lang`,
-      [id, createdAt, title.zh ?? '', title.en ?? '', author.zh ?? '', author.en ?? '', contentStr, analysisStr, annotationsStr, dbUsername, dbSourceLang, dbTargetLang]
+         annotations = EXCLUDED.annotations, username = EXCLUDED.username, source_lang = EXCLUDED.source_lang, target_lang = EXCLUDED.target_lang,
+         style = EXCLUDED.style, style_instructions = EXCLUDED.style_instructions, targets = EXCLUDED.targets, usage = EXCLUDED.usage`,
+      [id, createdAt, title.zh ?? '', title.en ?? '', author.zh ?? '', author.en ?? '', contentStr, analysisStr, annotationsStr, dbUsername, dbSourceLang, dbTargetLang, dbStyle, dbStyleInstructions, targetsStr, usageStr]
     );
     return true;
   });
@@ -1201,12 +677,180 @@ app.delete('/api/history', async (req, res) => {
   return res.status(204).end();
 });
 
+// 术语表（与历史记录同库，按用户与语言对区分）
+const GLOSSARY_TABLE_SQL = `CREATE TABLE IF NOT EXISTS glossary_terms (
+  id TEXT PRIMARY KEY,
+  username TEXT,
+  source_lang TEXT NOT NULL,
+  target_lang TEXT NOT NULL,
+  source_term TEXT NOT NULL,
+  target_term TEXT NOT NULL,
+  created_at_ms BIGINT NOT NULL
+)`;
+
+async function withGlossaryDb<T>(fn: (sql: ReturnType<typeof neon>) => Promise<T>): Promise<T | null> {
+  return withHistoryDb(async (sql) => {
+    await sql.query(GLOSSARY_TABLE_SQL);
+    return fn(sql);
+  });
+}
+
+app.get('/api/glossary', async (req, res) => {
+  const auth = await resolveClerkHistoryUser(req);
+  if (auth === 'unauthorized') {
+    return res.status(401).json({ error: '未登录或会话无效。请重新登录。' });
+  }
+  const legacyUser = typeof req.query?.username === 'string' ? req.query.username : '';
+  const rows = await withGlossaryDb(async (sql) => {
+    const r =
+      auth !== 'legacy'
+        ? await sql`SELECT id, source_lang, target_lang, source_term, target_term, created_at_ms
+            FROM glossary_terms WHERE username = ${auth.userId} ORDER BY created_at_ms ASC`
+        : legacyUser
+          ? await sql`SELECT id, source_lang, target_lang, source_term, target_term, created_at_ms
+              FROM glossary_terms WHERE username = ${legacyUser} ORDER BY created_at_ms ASC`
+          : await sql`SELECT id, source_lang, target_lang, source_term, target_term, created_at_ms
+              FROM glossary_terms ORDER BY created_at_ms ASC`;
+    return r as Record<string, unknown>[];
+  });
+  if (rows === null) return res.status(503).json({ error: '术语表同步未配置。在 .env.local 添加 DATABASE_URL 或在 Vercel 连接 Neon。' });
+  return res.json(
+    rows.map((r) => ({
+      id: String(r.id),
+      sourceLang: String(r.source_lang ?? ''),
+      targetLang: String(r.target_lang ?? ''),
+      source: String(r.source_term ?? ''),
+      target: String(r.target_term ?? ''),
+      createdAt: Number(r.created_at_ms),
+    }))
+  );
+});
+
+app.post('/api/glossary', async (req, res) => {
+  const auth = await resolveClerkHistoryUser(req);
+  if (auth === 'unauthorized') {
+    return res.status(401).json({ error: '未登录或会话无效。请重新登录。' });
+  }
+  const body = req.body as {
+    id?: string; createdAt?: number; username?: string;
+    sourceLang?: string; targetLang?: string; source?: string; target?: string;
+  };
+  const id = (body?.id || crypto.randomUUID()) as string;
+  const createdAt = typeof body?.createdAt === 'number' ? body.createdAt : Date.now();
+  const source = String(body?.source ?? '').trim();
+  const target = String(body?.target ?? '').trim();
+  const sourceLang = String(body?.sourceLang ?? '').trim();
+  const targetLang = String(body?.targetLang ?? '').trim();
+  if (!source || !target || !sourceLang || !targetLang) {
+    return res.status(400).json({ error: '术语、译法与语言对均不能为空' });
+  }
+  const dbUsername = auth !== 'legacy' ? auth.userId : (body?.username || null);
+  const ok = await withGlossaryDb(async (sql) => {
+    await sql.query(
+      `INSERT INTO glossary_terms (id, username, source_lang, target_lang, source_term, target_term, created_at_ms)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (id) DO UPDATE SET source_lang = EXCLUDED.source_lang, target_lang = EXCLUDED.target_lang,
+         source_term = EXCLUDED.source_term, target_term = EXCLUDED.target_term`,
+      [id, dbUsername, sourceLang, targetLang, source, target, createdAt]
+    );
+    return true;
+  });
+  if (ok === null) return res.status(503).json({ error: '术语表同步未配置。' });
+  return res.json({ id, createdAt });
+});
+
+app.delete('/api/glossary', async (req, res) => {
+  const auth = await resolveClerkHistoryUser(req);
+  if (auth === 'unauthorized') {
+    return res.status(401).json({ error: '未登录或会话无效。请重新登录。' });
+  }
+  const id = (req.query?.id ?? req.body?.id) as string | undefined;
+  if (!id) return res.status(400).json({ error: '缺少 id' });
+  const ok = await withGlossaryDb(async (sql) => {
+    if (auth === 'legacy') {
+      await sql`DELETE FROM glossary_terms WHERE id = ${id}`;
+    } else {
+      await sql`DELETE FROM glossary_terms WHERE id = ${id} AND username = ${auth.userId}`;
+    }
+    return true;
+  });
+  if (ok === null) return res.status(503).json({ error: '术语表同步未配置。' });
+  return res.status(204).end();
+});
+
+// 段落缓存统计 / 清空、用量汇总：配置 Clerk 时仅管理员可用
+async function requireStatsAdmin(req: express.Request, res: express.Response, deniedMessage: string): Promise<boolean> {
+  const auth = await resolveClerkHistoryUser(req);
+  if (auth === 'unauthorized') {
+    res.status(401).json({ error: '未登录或会话无效。请重新登录。' });
+    return false;
+  }
+  if (auth !== 'legacy' && !isClerkHistoryAdmin(auth.userId)) {
+    res.status(403).json({ error: deniedMessage });
+    return false;
+  }
+  // 未配置 Clerk 时任何人都算 legacy，统计与清空另需管理口令
+  if (auth === 'legacy' && !hasAdminToken(req)) {
+    res.status(403).json({ error: ADMIN_TOKEN_REQUIRED_MESSAGE });
+    return false;
+  }
+  return true;
+}
+
+app.get('/api/translation-cache', async (req, res) => {
+  if (!(await requireStatsAdmin(req, res, '仅管理员可查看翻译缓存。'))) return;
+  const cache = await getParagraphCache('sqlite');
+  if (!cache) return res.status(503).json({ error: '段落缓存未启用（PARAGRAPH_CACHE=off 或 SQLite 不可用）。' });
+  try {
+    return res.json(await cache.stats());
+  } catch (err: unknown) {
+    console.error(err);
+    return res.status(500).json({ error: err instanceof Error ? err.message : 'Internal error' });
+  }
+});
+
+app.delete('/api/translation-cache', async (req, res) => {
+  if (!(await requireStatsAdmin(req, res, '仅管理员可查看翻译缓存。'))) return;
+  const cache = await getParagraphCache('sqlite');
+  if (!cache) return res.status(503).json({ error: '段落缓存未启用（PARAGRAPH_CACHE=off 或 SQLite 不可用）。' });
+  try {
+    await cache.clear();
+    return res.status(204).end();
+  } catch (err: unknown) {
+    console.error(err);
+    return res.status(500).json({ error: err instanceof Error ? err.message : 'Internal error' });
+  }
+});
+
+/** 各用户的模型用量汇总；?days= 指定统计最近几天（默认 30，最多 365） */
+app.get('/api/usage', async (req, res) => {
+  if (!(await requireStatsAdmin(req, res, '仅管理员可查看用量统计。'))) return;
+  const days = Math.min(Math.max(parseInt(String(req.query.days ?? ''), 10) || 30, 1), 365);
+  try {
+    const report = await summarizeUsage(Date.now() - days * 24 * 60 * 60 * 1000);
+    if (!report) return res.status(503).json({ error: '用量统计未配置。在 .env.local 添加 DATABASE_URL 或在 Vercel 连接 Neon。' });
+    const labelMap = await resolveOwnerDisplayNames(
+      report.users.map((u) => u.userId ?? undefined),
+      (process.env.CLERK_SECRET_KEY || '').trim()
+    );
+    return res.json({
+      ...report,
+      days,
+      users: report.users.map((u) => ({ ...u, displayName: u.userId ? (labelMap.get(u.userId) ?? u.userId) : '访客' })),
+    });
+  } catch (err: unknown) {
+    console.error(err);
+    return res.status(500).json({ error: err instanceof Error ? err.message : 'Internal error' });
+  }
+});
+
 app.listen(PORT, () => {
-  const raw = (process.env.DEEPSEEK_API_KEY || '').trim();
-  const hasKey = raw && !['YOUR_DEEPSEEK_API_KEY', '你的DeepSeek密钥', '你的密钥'].some(p => raw.includes(p));
+  const llm = resolveLlmProvider();
   console.log(`Translator API running at http://localhost:${PORT}`);
-  if (!hasKey) {
-    console.warn('⚠️  DEEPSEEK_API_KEY 未配置，翻译请求将失败。请创建 bilingual-editorial/.env.local 并填写密钥。');
+  if (!llm) {
+    console.warn('⚠️  DEEPSEEK_API_KEY（或 LLM_API_KEY）未配置，翻译请求将失败。请创建 bilingual-editorial/.env.local 并填写密钥。');
+  } else {
+    console.log(`✓ 模型：${llm.label} · ${llm.model}（${llm.baseUrl}）`);
   }
   const clerkSecret = (process.env.CLERK_SECRET_KEY || '').trim();
   if (clerkSecret) {
@@ -6,10 +6,11 @@
 import React, { useState, useRef, useEffect, useLayoutEffect, useMemo, useCallback, ChangeEvent } from "react";
 import { isLegacyHkuInput, isLegacyMeijiInput, isLegacyZhongXiInput } from "../lib/akiEasterEggs";
 import { motion, AnimatePresence } from "motion/react";
-import { BookOpen, Menu, Upload, Loader2, AlertCircle, X, Trash2, Database, Monitor, MessageSquare, FileDown, LogOut, ChevronDown, Globe, HelpCircle, Search, ChevronUp } from "lucide-react";
+import { BookOpen, BookMarked, Columns3, ShieldCheck, Lock, Music, PenLine, Undo2, History as HistoryIcon, SlidersHorizontal, Menu, Upload, Loader2, AlertCircle, X, Trash2, Database, Monitor, MessageSquare, FileDown, LogOut, ChevronDown, Globe, HelpCircle, Search, ChevronUp } from "lucide-react";
 import mammoth from "mammoth";
 import JSON5 from "json5";
 import FloatingTextFollowup from "./FloatingTextFollowup";
+import GlossaryPanel from "./GlossaryPanel";
 import { useAppAuth } from "./auth/AppAuthContext";
 import {
   decodeAki,
@@ -21,55 +22,151 @@ import {
 } from "../lib/customCipher";
 import { buildAkiTranslatedColumnAsync } from "../lib/akiTranslatedColumn";
 import { mergeRefinedParagraphs, shouldRefineDecodedAkiText } from "../lib/refineAkiZh";
-import { stripUrlsForTranslation } from "../lib/stripUrlsForTranslation";
+import { normalizeTranslationInput, stripUrlsForTranslation } from "../lib/stripUrlsForTranslation";
+import { hasInlineMarkup, serializeInlineMarkup, splitByInlineMarks, stripInlineMarkup, type InlineMarks } from "../lib/inlineMarkup";
+import { findUnpreservedSpans } from "../lib/protectedSpans";
+import { docxHtmlToMarkup, pdfItemsToMarkup, type MarkedText, type PdfTextItem } from "./importMarkup";
+import { formatTokenCount, mergeUsage, type UsageSummary } from "../lib/llmUsage";
+import { quotaExceededMessage, readQuotaExceeded } from "../lib/quota";
+import { QA_SCORE_GOOD, qaLevel, type ParagraphQa, type QaLevel } from "../lib/backTranslation";
 import {
-  GUEST_TRANSLATION_LIMIT_MESSAGE,
-  incrementGuestTranslationSuccessIfVisitor,
-  isGuestTranslationQuotaExceeded,
-} from "../lib/guestTranslationLimit";
+  DEFAULT_ALTERNATIVES,
+  MAX_ALTERNATIVES,
+  MAX_REVISION_INSTRUCTION_CHARS,
+  MIN_ALTERNATIVES,
+  type AlternativeTranslation,
+} from "../lib/paragraphRevision";
+import { alignLines, alignSentences, isAlignmentFor, sentenceAt, sentenceGroupOf, type SentenceAlignment } from "../lib/sentenceAlignment";
+import { splitVerseStanzas, type VerseNotes } from "../lib/verse";
+import { checkGlossaryCompliance, type GlossaryEntry, type GlossaryIssue, type GlossaryTerm } from "../lib/glossary";
+import {
+  detectSourceLanguage,
+  getLanguage,
+  isExtraTargetLanguage,
+  isRtlLanguage,
+  languageLabels,
+  MAX_EXTRA_TARGETS,
+  pairLayoutFor,
+  SOURCE_LANGUAGE_CODES,
+  TARGET_LANGUAGE_CODES,
+  type SourceLanguageCode,
+  type TargetLanguageCode,
+} from "../lib/languages";
+import {
+  MAX_MEMORY_MATCHES,
+  buildTranslationMemory,
+  type MemoryEntry,
+  type MemoryMatch,
+  type TranslationMemory,
+} from "../lib/translationMemory";
+import {
+  DEFAULT_TRANSLATION_STYLE,
+  MAX_STYLE_INSTRUCTIONS_CHARS,
+  TRANSLATION_STYLES,
+  normalizeTranslationStyle,
+  type TranslationStyle,
+} from "../lib/translationStyle";
 import * as pdfjsLib from "pdfjs-dist";
+import type { TextItem, TextMarkedContent } from "pdfjs-dist/types/src/display/api";
 pdfjsLib.GlobalWorkerOptions.workerSrc = new URL(
   "pdfjs-dist/build/pdf.worker.min.mjs",
   import.meta.url
 ).toString();
 
-async function extractPdfText(arrayBuffer: ArrayBuffer): Promise<string> {
+/** getAnnotations() 的返回值未标类型，这里只读链接注释用到的字段 */
+interface PdfLinkAnnotation {
+  subtype?: unknown;
+  url?: unknown;
+  rect?: unknown;
+}
+
+const isPdfTextItem = (it: TextItem | TextMarkedContent): it is TextItem => "str" in it;
+
+/** 注释区域 [x1, y1, x2, y2] */
+const isPdfRect = (rect: unknown): rect is [number, number, number, number] =>
+  Array.isArray(rect) && rect.length === 4 && rect.every((n) => typeof n === "number");
+
+/** 逐页提取文本；按字体名识别粗体 / 斜体，按链接注释的区域识别链接，写成格式标签（见 importMarkup.ts） */
+async function extractPdfText(arrayBuffer: ArrayBuffer): Promise<MarkedText> {
   const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
   const pages: string[] = [];
+  const links: string[] = [];
   for (let i = 1; i <= pdf.numPages; i++) {
     const page = await pdf.getPage(i);
     const content = await page.getTextContent();
-    pages.push(content.items.map((it: any) => it.str ?? "").join(" "));
+    const textItems = content.items.filter(isPdfTextItem);
+    // 真实字体名（如 ABCDEF+Garamond-BoldItalic）要在解析页面内容后才能从 commonObjs 读到；失败时只提取纯文本
+    const fontNames = new Map<string, string>();
+    try {
+      await page.getOperatorList();
+      for (const it of textItems) {
+        if (it.fontName && !fontNames.has(it.fontName)) fontNames.set(it.fontName, String(page.commonObjs.get(it.fontName)?.name ?? ""));
+      }
+    } catch {
+      /* ignore */
+    }
+    const annotations: unknown[] = await page.getAnnotations().catch(() => []);
+    const linkAreas = annotations.flatMap((annotation) => {
+      if (typeof annotation !== "object" || annotation === null) return [];
+      const { subtype, url, rect } = annotation as PdfLinkAnnotation;
+      return subtype === "Link" && typeof url === "string" && isPdfRect(rect) ? [{ rect, href: url }] : [];
+    });
+    const items: PdfTextItem[] = textItems.map((it) => {
+      const font = fontNames.get(it.fontName) ?? "";
+      const [x, y] = [it.transform?.[4] ?? 0, it.transform?.[5] ?? 0];
+      const area = linkAreas.find(({ rect }) => x >= rect[0] - 1 && x <= rect[2] + 1 && y >= rect[1] - 2 && y <= rect[3] + 2);
+      return {
+        str: it.str ?? "",
+        bold: /bold|black|heavy|semibold/i.test(font),
+        italic: /italic|oblique/i.test(font),
+        href: area?.href ?? null,
+      };
+    });
+    pages.push(pdfItemsToMarkup(items, links));
   }
-  return pages.join("\n\n");
+  return { text: pages.join("\n\n"), links };
 }
 
-type SourceLang = "en" | "fr" | "ja" | "de" | "ar" | "zh-TW" | "zh" | "aki";
-const SOURCE_LANG_LABELS: Record<SourceLang, string> = {
-  en: "English",
-  fr: "Français",
-  de: "Deutsch",
-  ar: "العربية",
-  ja: "日本語",
-  "zh-TW": "繁體中文",
-  zh: "简体中文",
-  /** 仅 AKI 密文→中文解码结果页左栏展示，不出现在用户手选原文语种里 */
-  aki: "AKI码",
+/** 原文语种；aki 仅 AKI 密文→中文解码结果页左栏展示，不出现在用户手选原文语种里 */
+type SourceLang = SourceLanguageCode | "aki";
+const SOURCE_LANG_LABELS = { ...languageLabels("source"), aki: "AKI码" } as Record<SourceLang, string>;
+type TargetLang = TargetLanguageCode;
+const TARGET_LANG_LABELS = languageLabels("target") as Record<TargetLang, string>;
+const TARGET_LANG_KEY = "bilingual-editorial-target-lang";
+/** 回译质检色条：绿 = 意思基本一致，黄 = 有出入，红 = 疑似漏译 / 误译 */
+const QA_GUTTER_CLASS: Record<QaLevel, string> = {
+  good: "bg-emerald-400/70",
+  fair: "bg-amber-400/80",
+  low: "bg-red-400/80",
 };
-type TargetLang = "zh" | "zh-TW" | "en" | "ja" | "fr" | "de" | "ar" | "morse" | "aki";
-const TARGET_LANG_LABELS: Record<TargetLang, string> = {
-  zh: "简体中文",
-  "zh-TW": "繁體中文",
-  en: "English",
-  ja: "日本語",
-  fr: "Français",
-  de: "Deutsch",
-  ar: "العربية",
-  morse: "摩斯密码",
-  aki: "AKI码",
+/** 单段改译的常用要求，点选后填入输入框 */
+const RETRANSLATE_PRESETS = ["更正式", "更口语", "保留双关", "更简短"];
+/** 一致性模式开关：长文各块共享摘要与专名译法，翻译前多一次模型调用 */
+const CONSISTENCY_MODE_KEY = "bilingual-editorial-consistency";
+/** 诗歌模式开关：按空行分节、节内逐行对应翻译；格律说明为其附加选项 */
+const VERSE_MODE_KEY = "bilingual-editorial-verse";
+const VERSE_NOTES_KEY = "bilingual-editorial-verse-notes";
+/** 译文文体预设与自定义要求（随翻译请求发送并保存到历史记录） */
+const TRANSLATION_STYLE_KEY = "bilingual-editorial-style";
+const STYLE_INSTRUCTIONS_KEY = "bilingual-editorial-style-instructions";
+const ALL_TARGET_LANGS: TargetLang[] = TARGET_LANGUAGE_CODES;
+/** 「同时译成」的附加语言：一次任务产出多种译文，阅读器每种译文一栏 */
+const EXTRA_TARGET_LANGS_KEY = "bilingual-editorial-extra-target-langs";
+function readStoredExtraTargetLangs(): TargetLang[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(EXTRA_TARGET_LANGS_KEY) || "[]");
+    return Array.isArray(raw) ? raw.filter(isExtraTargetLanguage).slice(0, MAX_EXTRA_TARGETS) : [];
+  } catch {
+    return [];
+  }
+}
+/** 阅读器栏目 md 断点下的列数（Tailwind 需完整类名） */
+const READER_GRID_COLS: Record<number, string> = {
+  1: "md:grid-cols-1",
+  2: "md:grid-cols-2",
+  3: "md:grid-cols-3",
+  4: "md:grid-cols-4",
 };
-const TARGET_LANG_KEY = "bilingual-editorial-target-lang";
-const ALL_TARGET_LANGS: TargetLang[] = ["zh", "zh-TW", "en", "ja", "fr", "de", "ar", "morse", "aki"];
 
 function getAkiMemeApiUrl(): string {
   const u = import.meta.env.VITE_AKI_MEME_API?.trim();
@@ -87,7 +184,7 @@ function readStoredTargetLang(): TargetLang {
 }
 const SOURCE_LANG_KEY = "bilingual-editorial-source-lang";
 /** 用户可选 / 历史记录中的原文语种（不含仅用于栏目标题的 aki） */
-const ALL_SOURCE_LANGS: SourceLang[] = ["en", "fr", "de", "ar", "ja", "zh-TW", "zh"];
+const ALL_SOURCE_LANGS: SourceLang[] = SOURCE_LANGUAGE_CODES;
 function readStoredSourceLang(): SourceLang {
   try {
     const s = localStorage.getItem(SOURCE_LANG_KEY);
@@ -98,25 +195,9 @@ function readStoredSourceLang(): SourceLang {
   return "en";
 }
 
-/** 根据正文抽样推断原文语种，用于上传/粘贴翻译时与提示词一致（避免日文内容仍按「英文」翻译） */
+/** 根据正文抽样推断原文语种，用于上传/粘贴翻译时与提示词一致（识别线索见 lib/languages） */
 function detectSourceLang(text: string): SourceLang {
-  const sample = text.slice(0, 6000);
-  const total = sample.replace(/\s/g, "").length;
-  if (total === 0) return "en";
-
-  const jp = (sample.match(/[\u3040-\u309f\u30a0-\u30ff]/g) ?? []).length;
-  const fr = (sample.match(/[àâæçéèêëïîôœùûüÿÀÂÆÇÉÈÊËÏÎÔŒÙÛÜŸ«»]/g) ?? []).length;
-  const cjk = (sample.match(/[\u4e00-\u9fff\u3400-\u4dbf]/g) ?? []).length;
-  const arScript = (sample.match(/[\u0600-\u06FF]/g) ?? []).length;
-
-  if (arScript >= 8 || arScript / Math.max(total, 1) > 0.04) return "ar";
-  if (jp >= 8 || jp / Math.max(total, 1) > 0.04) return "ja";
-  if (cjk / Math.max(total, 1) > 0.12) {
-    const trad = (sample.match(/[與個從來為說這還種麼對應學關點開國問題數經現實請過當無電業長門時書車東見發會費問買義馬區陽連運達邊選識護機關號環點傳聞開製紐統經際談請變農術認觀議質輸辦導歡歷齊齒壞搖損撥擊則競級約書費術導統議選護環識農齊齒歡歷壞損擊競臺灣匯整資訊]/g) ?? []).length;
-    return trad > 3 ? "zh-TW" : "zh";
-  }
-  if (fr / Math.max(total, 1) > 0.008) return "fr";
-  return "en";
+  return detectSourceLanguage(text);
 }
 
 const LOCAL_USERNAME_STORAGE = "bilingual-editorial-username";
@@ -133,11 +214,31 @@ function readLocalUsernameBoot(): string | null {
 interface ParagraphPair {
   en: string;
   zh: string;
+  /** 「同时译成」的附加译文，按语言代码存放 */
+  extra?: Record<string, string>;
+  /** 原文与主译文的句子对齐，随译文返回；缺失或与当前文本不符时前端重算 */
+  sentences?: SentenceAlignment;
+  /** 导入文档的段内格式（加粗、斜体、链接、脚注标记），偏移相对各栏文本 */
+  marks?: InlineMarks;
+  /** 诗歌模式下的一节：阅读器按行对齐显示，可带韵式与格律说明 */
+  verse?: VerseNotes;
 }
 
 /** 同一轮翻译 / 解码共用一个 errState，避免重复 setError */
 type AkiMemeErrorState = { reported: boolean };
 
+/** fetch 被 AbortController 取消时抛出的错误（DOMException，name 为 AbortError） */
+function isAbortError(err: unknown): boolean {
+  return (err as { name?: string } | null)?.name === "AbortError";
+}
+/** 服务端 429 配额错误（带 quota 字段），不应退回其他接口重试 */
+function isQuotaError(err: unknown): boolean {
+  return Boolean((err as { quota?: unknown } | null)?.quota);
+}
+const TRANSLATION_CANCELLED_MESSAGE = "已取消翻译";
+/** 流式翻译断线后的续传间隔（次数即最多续传次数） */
+const STREAM_RESUME_DELAYS_MS = [1000, 3000, 8000];
+
 /**
  * 调用 /api/aki-meme（与 VITE_AKI_MEME_API）；供「译成 AKI」与「AKI 密文解码后补梗」共用。
  */
@@ -145,25 +246,32 @@ async function fetchAkiMemeApi(
   memeUrl: string,
   text: string,
   setError: React.Dispatch<React.SetStateAction<string | null>>,
-  errState: AkiMemeErrorState
+  errState: AkiMemeErrorState,
+  signal?: AbortSignal,
+  headers: Record<string, string> = { "Content-Type": "application/json" }
 ): Promise<{ zh: string; en: string } | null> {
   try {
     const r = await fetch(memeUrl, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers,
       body: JSON.stringify({ text }),
+      signal,
     });
     if (!r.ok) {
       if (!errState.reported) {
         errState.reported = true;
         let serverMsg = "";
+        let errJson: { error?: string } = {};
         try {
-          const errJson = (await r.json()) as { error?: string };
+          errJson = (await r.json()) as { error?: string };
           serverMsg = typeof errJson.error === "string" ? errJson.error : "";
         } catch {
           /* 可能返回了 HTML 404 页面 */
         }
-        if (r.status === 503) {
+        const quota = readQuotaExceeded(errJson);
+        if (quota) {
+          setError(`${quotaExceededMessage(quota)}仅显示密文。`);
+        } else if (r.status === 503) {
           setError(
             serverMsg ||
               "AKI 动态梗未启用：请在部署环境（如 Vercel）配置 DEEPSEEK_API_KEY，并确保可访问「动态梗」接口。"
@@ -204,6 +312,7 @@ async function fetchAkiMemeApi(
     if (!zh) return null;
     return { zh, en };
   } catch {
+    if (signal?.aborted) return null;
     if (!errState.reported) {
       errState.reported = true;
       setError(`无法连接动态梗服务（${memeUrl}）。请检查网络、CORS，或配置 VITE_AKI_MEME_API 指向正确的 API 域名。`);
@@ -213,10 +322,15 @@ async function fetchAkiMemeApi(
 }
 
 function getOriginalColumnText(pair: ParagraphPair, targetLang: TargetLang): string {
-  return targetLang === "en" ? pair.zh : pair.en;
+  return pairLayoutFor(targetLang) === "to_en" ? pair.zh : pair.en;
 }
 function getTranslatedColumnText(pair: ParagraphPair, targetLang: TargetLang): string {
-  return targetLang === "en" ? pair.en : pair.zh;
+  return pairLayoutFor(targetLang) === "to_en" ? pair.en : pair.zh;
+}
+/** 按译文语言的布局组装段落对（附加译文原样保留） */
+function pairWithColumns(original: string, translated: string, targetLang: TargetLang, extra?: Record<string, string>): ParagraphPair {
+  const pair = pairLayoutFor(targetLang) === "to_en" ? { en: translated, zh: original } : { en: original, zh: translated };
+  return extra ? { ...pair, extra } : pair;
 }
 
 interface AnalysisBilingual {
@@ -313,6 +427,14 @@ interface Annotation {
 
 type Annotations = Annotation[];
 
+/** 历史条目中某一译文语言的版本；原文不重复保存，translations 与 content 逐段对应 */
+interface TargetVersion {
+  translations: string[];
+  title: { zh: string; en: string };
+  author: { zh: string; en: string };
+  analysis: ArticleAnalysis | null;
+}
+
 interface HistoryItem {
   id: string;
   username?: string;
@@ -320,15 +442,32 @@ interface HistoryItem {
   ownerDisplayName?: string;
   sourceLang?: SourceLang;
   targetLang?: TargetLang;
+  style?: TranslationStyle;
+  styleInstructions?: string;
   title: { zh: string; en: string };
   author: { zh: string; en: string };
   content: ParagraphPair[];
   analysis: ArticleAnalysis | null;
   annotations?: Annotations;
+  /** 其他译文语言的版本（不含 targetLang 本身，当前版本即 content / title / analysis） */
+  targets?: Partial<Record<TargetLang, TargetVersion>>;
+  /** 生成此条目累计消耗的 token（含切换语言与补译） */
+  usage?: UsageSummary;
   createdAt: number;
 }
 
 const HISTORY_KEY = "bilingual-editorial-history";
+const GLOSSARY_KEY = "bilingual-editorial-glossary";
+
+function readStoredGlossary(): GlossaryTerm[] {
+  try {
+    const raw = localStorage.getItem(GLOSSARY_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as GlossaryTerm[]).filter((t) => t && t.id && t.source && t.target) : [];
+  } catch {
+    return [];
+  }
+}
 const MAX_HISTORY = 50;
 const MAX_HISTORY_ADMIN = 500;
 
@@ -348,8 +487,8 @@ export default function App() {
   /** 当前正文里 en/zh 两列的语义所对应的「译成」方向；仅在新翻译完成或打开历史时更新。勿用顶栏 targetLang 直接映射已存在的段落，否则仅切换下拉会错列。 */
   const [contentPairTargetLang, setContentPairTargetLang] = useState<TargetLang>(() => readStoredTargetLang());
   /** 与 contentPairTargetLang 对应，段落对在 storage 中「左栏 / 右栏」各用哪个键（用于搜索高亮 field） */
-  const pairLayoutOriginalField: "en" | "zh" = contentPairTargetLang === "en" ? "zh" : "en";
-  const pairLayoutTranslatedField: "en" | "zh" = contentPairTargetLang === "en" ? "en" : "zh";
+  const pairLayoutOriginalField: "en" | "zh" = pairLayoutFor(contentPairTargetLang) === "to_en" ? "zh" : "en";
+  const pairLayoutTranslatedField: "en" | "zh" = pairLayoutFor(contentPairTargetLang) === "to_en" ? "en" : "zh";
 
   const isLoggedIn = auth.isLoaded && !!auth.userId;
   const localUserBoot = readLocalUsernameBoot();
@@ -368,6 +507,34 @@ export default function App() {
   const [author, setAuthor] = useState(() => ({ zh: "", en: "" }));
   const [isTranslating, setIsTranslating] = useState(false);
   const [progress, setProgress] = useState<{ percent: number; step: string } | null>(null);
+  /** 流式翻译中尚未返回译文的段落下标（译文栏显示占位） */
+  const [pendingParagraphs, setPendingParagraphs] = useState<ReadonlySet<number>>(() => new Set());
+  /** 流式翻译中模型正在生成的译文（段落下标 → 已生成的纯文本），仅在段落仍待译时显示 */
+  const [streamingTexts, setStreamingTexts] = useState<ReadonlyMap<number, string>>(() => new Map());
+  /** 服务端对齐校验后仍可能与原文错位的段落下标（仅本次会话标记） */
+  const [unalignedParagraphs, setUnalignedParagraphs] = useState<ReadonlySet<number>>(() => new Set());
+  /** 展开翻译记忆详情的段落下标 */
+  const [openMemoryPara, setOpenMemoryPara] = useState<number | null>(null);
+  /** 回译质检结果（与 content 逐行对应），记下质检时的译文；段落改动后该行不再显示旧分数 */
+  const [qaResults, setQaResults] = useState<((ParagraphQa & { translation: string }) | null)[] | null>(null);
+  const [qaRunning, setQaRunning] = useState(false);
+  /** 只看低于 QA_SCORE_GOOD 的段落 */
+  const [qaLowOnly, setQaLowOnly] = useState(false);
+  /** 展开回译详情的段落下标 */
+  const [openQaPara, setOpenQaPara] = useState<number | null>(null);
+  /** 候选译法面板：items 为 null 时正在生成 */
+  const [alternatives, setAlternatives] = useState<{
+    paraIndex: number;
+    count: number;
+    items: AlternativeTranslation[] | null;
+  } | null>(null);
+  /** 关闭面板或换段后丢弃迟到的候选 */
+  const alternativesSeqRef = useRef(0);
+  /** 单段重译面板：running 时正在请求 */
+  const [retranslating, setRetranslating] = useState<{ paraIndex: number; instruction: string; running: boolean } | null>(null);
+  const retranslateSeqRef = useRef(0);
+  /** 各段被替换前的译文（后进先出），供「撤销改译」；只在本次会话内保留 */
+  const [paragraphUndo, setParagraphUndo] = useState<Map<number, string[]>>(() => new Map());
   const [error, setError] = useState<string | null>(null);
   const [historyOpen, setHistoryOpen] = useState(false);
   const [history, setHistory] = useState<HistoryItem[]>(() => {
@@ -410,11 +577,61 @@ export default function App() {
   const [pendingSelection, setPendingSelection] = useState<{ paraIndex: number; startOffset: number; endOffset: number; selectedText: string } | null>(null);
   const [textInput, setTextInput] = useState("");
   const [originalDocx, setOriginalDocx] = useState<ArrayBuffer | null>(null);
+  /** 本次送翻译的原文带格式标签时，为标签 <aN> 对应的链接表；纯文本原文为 null */
+  const markupLinksRef = useRef<string[] | null>(null);
   const [importOpen, setImportOpen] = useState(false);
   const [helpOpen, setHelpOpen] = useState(false);
+  const [glossaryOpen, setGlossaryOpen] = useState(false);
+  const [consistencyMode, setConsistencyMode] = useState(() => {
+    try {
+      return localStorage.getItem(CONSISTENCY_MODE_KEY) === "1";
+    } catch {
+      return false;
+    }
+  });
+  const [verseMode, setVerseMode] = useState(() => {
+    try {
+      return localStorage.getItem(VERSE_MODE_KEY) === "1";
+    } catch {
+      return false;
+    }
+  });
+  const [verseNotesMode, setVerseNotesMode] = useState(() => {
+    try {
+      return localStorage.getItem(VERSE_NOTES_KEY) === "1";
+    } catch {
+      return false;
+    }
+  });
+  /** 本次送翻译的是否为诗节（新稿取诗歌模式开关，补译、换译文语言时取正文） */
+  const verseRequestRef = useRef(false);
+  const [translationStyle, setTranslationStyle] = useState<TranslationStyle>(() => {
+    try {
+      return normalizeTranslationStyle(localStorage.getItem(TRANSLATION_STYLE_KEY));
+    } catch {
+      return DEFAULT_TRANSLATION_STYLE;
+    }
+  });
+  const [styleInstructions, setStyleInstructions] = useState(() => {
+    try {
+      return localStorage.getItem(STYLE_INSTRUCTIONS_KEY) ?? "";
+    } catch {
+      return "";
+    }
+  });
+  const [styleMenuOpen, setStyleMenuOpen] = useState(false);
+  const [extraTargetLangs, setExtraTargetLangs] = useState<TargetLang[]>(() => readStoredExtraTargetLangs());
+  const [extraTargetsMenuOpen, setExtraTargetsMenuOpen] = useState(false);
+  /** 阅读器中被隐藏的栏目："source" 为原文栏，其余为译文语言代码 */
+  const [hiddenColumns, setHiddenColumns] = useState<Set<string>>(() => new Set());
+  const [glossary, setGlossary] = useState<GlossaryTerm[]>(() => readStoredGlossary());
   const [searchOpen, setSearchOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [currentMatchIndex, setCurrentMatchIndex] = useState(0);
+  /** 搜索按句跳转：同一句（含对齐的译句）内的多处匹配只停一次 */
+  const [searchBySentence, setSearchBySentence] = useState(false);
+  /** 悬停 / 点按的句子所在对齐组，两栏对应句一起高亮 */
+  const [hoveredSentence, setHoveredSentence] = useState<{ paraIndex: number; group: number } | null>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
   const [currentHistoryId, setCurrentHistoryId] = useState<string | null>(null);
   const [storageMode, setStorageMode] = useState<StorageMode>(() =>
@@ -423,6 +640,79 @@ export default function App() {
   /** 与 CLERK_ADMIN_USER_IDS 对齐；避免仅 Vercel 构建缺 VITE_CLERK_ADMIN_USER_IDS 时误把管理员数据滤掉 */
   const [serverHistoryAdmin, setServerHistoryAdmin] = useState(false);
 
+  const toggleConsistencyMode = () => {
+    const next = !consistencyMode;
+    setConsistencyMode(next);
+    try {
+      localStorage.setItem(CONSISTENCY_MODE_KEY, next ? "1" : "0");
+    } catch {
+      /* ignore */
+    }
+  };
+
+  const toggleVerseMode = () => {
+    const next = !verseMode;
+    setVerseMode(next);
+    try {
+      localStorage.setItem(VERSE_MODE_KEY, next ? "1" : "0");
+    } catch {
+      /* ignore */
+    }
+  };
+
+  const toggleVerseNotesMode = () => {
+    const next = !verseNotesMode;
+    setVerseNotesMode(next);
+    try {
+      localStorage.setItem(VERSE_NOTES_KEY, next ? "1" : "0");
+    } catch {
+      /* ignore */
+    }
+  };
+
+  const changeTranslationStyle = (next: TranslationStyle) => {
+    setTranslationStyle(next);
+    try {
+      localStorage.setItem(TRANSLATION_STYLE_KEY, next);
+    } catch {
+      /* ignore */
+    }
+  };
+
+  const changeStyleInstructions = (next: string) => {
+    const value = next.slice(0, MAX_STYLE_INSTRUCTIONS_CHARS);
+    setStyleInstructions(value);
+    try {
+      localStorage.setItem(STYLE_INSTRUCTIONS_KEY, value);
+    } catch {
+      /* ignore */
+    }
+  };
+
+  const toggleExtraTargetLang = (lang: TargetLang) => {
+    const next = extraTargetLangs.includes(lang)
+      ? extraTargetLangs.filter((l) => l !== lang)
+      : [...extraTargetLangs, lang].slice(-MAX_EXTRA_TARGETS);
+    setExtraTargetLangs(next);
+    try {
+      localStorage.setItem(EXTRA_TARGET_LANGS_KEY, JSON.stringify(next));
+    } catch {
+      /* ignore */
+    }
+  };
+
+  /** 随请求发送的附加语言（与主译文相同的语言由服务端忽略，这里先去掉） */
+  const extraTargetsFor = (tgtLang: TargetLang): TargetLang[] => extraTargetLangs.filter((l) => l !== tgtLang);
+
+  const toggleColumn = (key: string) => {
+    setHiddenColumns((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
   const toggleStorageMode = () => {
     const next: StorageMode = storageMode === "local" ? "cloud" : "local";
     setStorageMode(next);
@@ -430,6 +720,17 @@ export default function App() {
   };
 
   const authUserPrevRef = useRef<string | null | undefined>(undefined);
+  /** 当前翻译任务的取消控制；断开请求后服务端也会停止剩余的模型调用 */
+  const translationAbortRef = useRef<AbortController | null>(null);
+  const beginTranslationAbort = (): AbortSignal => {
+    translationAbortRef.current?.abort();
+    const controller = new AbortController();
+    translationAbortRef.current = controller;
+    return controller.signal;
+  };
+  const cancelTranslation = () => {
+    translationAbortRef.current?.abort();
+  };
   /** 本会话内是否已用过 HKU 静态彩蛋；再次输入 hku/香港大学则走 LLM 动态梗（与同批后续段落一致） */
   const hkuStaticEggConsumedRef = useRef(false);
   /** 本会话内是否已用过明治大学静态彩蛋；再次输入「明治大学」则走 LLM 动态梗 */
@@ -495,6 +796,17 @@ export default function App() {
     if (!auth.userId) setServerHistoryAdmin(false);
   }, [auth.userId]);
 
+  /** 各段的句子对齐（与 content 逐行对应）；编码译文与 AKI 解码不做对齐 */
+  const sentenceAlignments = useMemo<(SentenceAlignment | null)[]>(() => {
+    if (akiDecodeLayout || !isExtraTargetLanguage(contentPairTargetLang)) return content.map(() => null);
+    return content.map((pair) => {
+      const source = getOriginalColumnText(pair, contentPairTargetLang);
+      const translation = getTranslatedColumnText(pair, contentPairTargetLang);
+      if (isAlignmentFor(pair.sentences, source, translation)) return pair.sentences;
+      return pair.verse ? alignLines(source, translation) : alignSentences(source, translation);
+    });
+  }, [content, contentPairTargetLang, akiDecodeLayout]);
+
   // ─── Search logic ───
   interface SearchMatch {
     paraIndex: number;
@@ -503,6 +815,15 @@ export default function App() {
     endOffset: number;
   }
 
+  /** 匹配所在的句子对齐组；不在任何句中（或该段无对齐）时为 -1 */
+  const sentenceGroupOfMatch = (m: SearchMatch): number => {
+    const alignment = sentenceAlignments[m.paraIndex];
+    if (!alignment) return -1;
+    const side = m.field === pairLayoutOriginalField ? "source" : "target";
+    const sentence = sentenceAt(alignment[side], m.startOffset);
+    return sentence === -1 ? -1 : sentenceGroupOf(alignment, side, sentence);
+  };
+
   const searchMatches = useMemo<SearchMatch[]>(() => {
     if (!searchQuery.trim()) return [];
     const q = searchQuery.toLowerCase();
@@ -520,6 +841,39 @@ export default function App() {
     return matches;
   }, [searchQuery, content]);
 
+  /** 按句跳转的停靠点：每个句子对齐组取第一处匹配的下标；无对齐的匹配各自成一站 */
+  const searchSentenceStops = useMemo(() => {
+    const seen = new Set<string>();
+    const stops: { matchIndex: number; key: string }[] = [];
+    searchMatches.forEach((m, i) => {
+      const group = sentenceGroupOfMatch(m);
+      const key = group === -1 ? `m${i}` : `${m.paraIndex}:${group}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      stops.push({ matchIndex: i, key });
+    });
+    return stops.sort((a, b) => a.matchIndex - b.matchIndex);
+  }, [searchMatches, sentenceAlignments, pairLayoutOriginalField]);
+
+  /** 当前匹配在按句停靠点中的位置 */
+  const currentSentenceStop = useMemo(() => {
+    const match = searchMatches[currentMatchIndex];
+    if (!match) return -1;
+    const group = sentenceGroupOfMatch(match);
+    const key = group === -1 ? `m${currentMatchIndex}` : `${match.paraIndex}:${group}`;
+    return searchSentenceStops.findIndex((s) => s.key === key);
+  }, [searchMatches, currentMatchIndex, searchSentenceStops]);
+
+  /** 按句跳转时高亮当前匹配所在的句子及其对应句 */
+  const searchSentence = useMemo(() => {
+    if (!searchBySentence) return null;
+    const match = searchMatches[currentMatchIndex];
+    if (!match) return null;
+    const group = sentenceGroupOfMatch(match);
+    return group === -1 ? null : { paraIndex: match.paraIndex, group };
+  }, [searchBySentence, searchMatches, currentMatchIndex, sentenceAlignments]);
+  const highlightedSentence = hoveredSentence ?? searchSentence;
+
   // Reset match index when matches change
   useEffect(() => {
     setCurrentMatchIndex(0);
@@ -538,13 +892,24 @@ export default function App() {
 
   const goToNextMatch = useCallback(() => {
     if (searchMatches.length === 0) return;
+    if (searchBySentence && searchSentenceStops.length > 0) {
+      const next = searchSentenceStops[(currentSentenceStop + 1) % searchSentenceStops.length]!;
+      setCurrentMatchIndex(next.matchIndex);
+      return;
+    }
     setCurrentMatchIndex((prev) => (prev + 1) % searchMatches.length);
-  }, [searchMatches.length]);
+  }, [searchMatches.length, searchBySentence, searchSentenceStops, currentSentenceStop]);
 
   const goToPrevMatch = useCallback(() => {
     if (searchMatches.length === 0) return;
+    if (searchBySentence && searchSentenceStops.length > 0) {
+      const n = searchSentenceStops.length;
+      const prev = searchSentenceStops[(Math.max(currentSentenceStop, 0) - 1 + n) % n]!;
+      setCurrentMatchIndex(prev.matchIndex);
+      return;
+    }
     setCurrentMatchIndex((prev) => (prev - 1 + searchMatches.length) % searchMatches.length);
-  }, [searchMatches.length]);
+  }, [searchMatches.length, searchBySentence, searchSentenceStops, currentSentenceStop]);
 
   const openSearch = useCallback(() => {
     if (content.length === 0) return;
@@ -664,6 +1029,70 @@ export default function App() {
     return <>{segments}</>;
   };
 
+  /** 还原段内格式（加粗、斜体、链接等），格式内再做搜索高亮；textOffset 同 renderSearchHighlightedText */
+  const renderInlineMarked = (text: string, paraIndex: number, field: "en" | "zh", textOffset: number = 0): React.ReactNode => {
+    const marks = content[paraIndex]?.marks?.[field === pairLayoutOriginalField ? "source" : "target"];
+    if (!marks || marks.length === 0) return renderSearchHighlightedText(text, paraIndex, field, textOffset);
+    return splitByInlineMarks(marks, textOffset, textOffset + text.length).map(({ start, end, marks: covering }) => {
+      let node: React.ReactNode = renderSearchHighlightedText(text.slice(start - textOffset, end - textOffset), paraIndex, field, start);
+      for (const mark of covering) {
+        if (mark.type === "b") node = <strong>{node}</strong>;
+        else if (mark.type === "i") node = <em>{node}</em>;
+        else if (mark.type === "u") node = <u>{node}</u>;
+        else if (mark.type === "sup") node = <sup>{node}</sup>;
+        else if (mark.type === "sub") node = <sub>{node}</sub>;
+        else if (mark.type === "fn") node = <sup className="text-ink/50">{node}</sup>;
+        else if (mark.type === "a" && mark.href) {
+          node = (
+            <a href={mark.href} target="_blank" rel="noopener noreferrer" className="underline decoration-ink/30 underline-offset-2 hover:text-vibrant-1">
+              {node}
+            </a>
+          );
+        }
+      }
+      return <React.Fragment key={`f-${start}`}>{node}</React.Fragment>;
+    });
+  };
+
+  /**
+   * 按句切分、还原段内格式后再做搜索高亮：每句包一层 span，悬停 / 点按时与另一栏的对应句一起高亮。
+   * text 为段落文本的一段（批注把原文切成多段），textOffset 为其在整段中的起点。
+   */
+  const renderSentenceText = (text: string, paraIndex: number, field: "en" | "zh", textOffset: number = 0): React.ReactNode => {
+    const alignment = sentenceAlignments[paraIndex];
+    if (!alignment) return renderInlineMarked(text, paraIndex, field, textOffset);
+    const side = field === pairLayoutOriginalField ? "source" : "target";
+    const rangeEnd = textOffset + text.length;
+    const segments: React.ReactNode[] = [];
+    let cursor = textOffset;
+    alignment[side].forEach(([start, end], sentence) => {
+      const s = Math.max(start, textOffset);
+      const e = Math.min(end, rangeEnd);
+      if (s >= e) return;
+      if (s > cursor) {
+        segments.push(<span key={`g-${cursor}`}>{renderInlineMarked(text.slice(cursor - textOffset, s - textOffset), paraIndex, field, cursor)}</span>);
+      }
+      const group = sentenceGroupOf(alignment, side, sentence);
+      const active = highlightedSentence?.paraIndex === paraIndex && highlightedSentence.group === group;
+      segments.push(
+        <span
+          key={`s-${s}`}
+          className={`rounded-sm transition-colors ${active ? "bg-sky-200/50" : ""}`}
+          onMouseEnter={() => setHoveredSentence({ paraIndex, group })}
+          onMouseLeave={() => setHoveredSentence(null)}
+          onClick={() => setHoveredSentence({ paraIndex, group })}
+        >
+          {renderInlineMarked(text.slice(s - textOffset, e - textOffset), paraIndex, field, s)}
+        </span>
+      );
+      cursor = e;
+    });
+    if (cursor < rangeEnd) {
+      segments.push(<span key={`g-${cursor}`}>{renderInlineMarked(text.slice(cursor - textOffset), paraIndex, field, cursor)}</span>);
+    }
+    return <>{segments}</>;
+  };
+
   const changeSourceLang = (lang: SourceLang) => {
     setSourceLang(lang);
     try {
@@ -734,6 +1163,144 @@ export default function App() {
     }
   }, [history]);
 
+  useEffect(() => {
+    try {
+      localStorage.setItem(GLOSSARY_KEY, JSON.stringify(glossary));
+    } catch {
+      /* ignore */
+    }
+  }, [glossary]);
+
+  // 云端模式下术语表与历史记录一样跨设备同步
+  useEffect(() => {
+    if (storageMode !== "cloud") return;
+    if (!auth.isLoaded) return;
+    let cancelled = false;
+    (async () => {
+      const headers: Record<string, string> = {};
+      const t = await auth.getApiToken();
+      if (t) headers.Authorization = `Bearer ${t}`;
+      const q = auth.mode !== "clerk" && auth.userId ? `?username=${encodeURIComponent(auth.userId)}` : "";
+      try {
+        const res = await fetch(`/api/glossary${q}`, { headers });
+        if (!res.ok || cancelled) return;
+        const items = (await res.json()) as GlossaryTerm[];
+        if (!cancelled && Array.isArray(items)) setGlossary(items);
+      } catch {
+        /* ignore */
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [storageMode, auth.isLoaded, auth.userId, auth.getApiToken, auth.mode]);
+
+  const addGlossaryTerm = (term: { sourceLang: string; targetLang: string; source: string; target: string }) => {
+    const entry: GlossaryTerm = { ...term, id: crypto.randomUUID(), createdAt: Date.now() };
+    // 同一语言对中同一原文术语只保留最新译法
+    const replaced = glossary.filter(
+      (g) =>
+        g.sourceLang === term.sourceLang &&
+        g.targetLang === term.targetLang &&
+        g.source.toLowerCase() === term.source.toLowerCase()
+    );
+    setGlossary((prev) => [...prev.filter((g) => !replaced.includes(g)), entry]);
+
+    if (storageMode === "cloud") {
+      (async () => {
+        const headers: Record<string, string> = { "Content-Type": "application/json" };
+        const t = await auth.getApiToken();
+        if (t) headers.Authorization = `Bearer ${t}`;
+        for (const old of replaced) {
+          fetch(`/api/glossary?id=${encodeURIComponent(old.id)}`, { method: "DELETE", headers }).catch(() => {});
+        }
+        fetch("/api/glossary", {
+          method: "POST",
+          headers,
+          body: JSON.stringify({ ...entry, username: auth.userId || undefined }),
+        }).catch(() => {});
+      })();
+    }
+  };
+
+  const removeGlossaryTerm = (id: string) => {
+    setGlossary((prev) => prev.filter((g) => g.id !== id));
+
+    if (storageMode === "cloud") {
+      (async () => {
+        const headers: Record<string, string> = {};
+        const t = await auth.getApiToken();
+        if (t) headers.Authorization = `Bearer ${t}`;
+        fetch(`/api/glossary?id=${encodeURIComponent(id)}`, { method: "DELETE", headers }).catch(() => {});
+      })();
+    }
+  };
+
+  /** 当前语言对适用的术语（随翻译请求发送） */
+  const glossaryEntriesFor = (srcLang: string, tgtLang: string): GlossaryEntry[] =>
+    glossary
+      .filter((g) => g.sourceLang === srcLang && g.targetLang === tgtLang)
+      .map(({ source, target }) => ({ source, target }));
+
+  /** 翻译记忆索引按（语言对、排除的条目）懒建立，历史记录变化时整体失效 */
+  const translationMemories = useMemo(() => new Map<string, TranslationMemory>(), [history]);
+  const translationMemoryFor = (srcLang: string, tgtLang: TargetLang, excludeId: string | null): TranslationMemory | null => {
+    if (srcLang === "aki" || tgtLang === "aki" || tgtLang === "morse") return null;
+    const key = `${srcLang}→${tgtLang}→${excludeId ?? ""}`;
+    let memory = translationMemories.get(key);
+    if (!memory) {
+      const entries: MemoryEntry[] = [];
+      for (const item of history) {
+        if (item.id === excludeId || (item.sourceLang ?? "en") !== srcLang) continue;
+        const itemTarget = item.targetLang ?? "zh";
+        if (itemTarget === tgtLang) {
+          for (const pair of item.content) {
+            entries.push({ source: getOriginalColumnText(pair, tgtLang), translation: getTranslatedColumnText(pair, tgtLang) });
+          }
+          continue;
+        }
+        // 该条目曾译成过本语言：原文取当前版本的原文栏，译文取 targets 中保存的版本
+        const stored = item.targets?.[tgtLang];
+        if (!stored) continue;
+        item.content.forEach((pair, i) => {
+          entries.push({ source: getOriginalColumnText(pair, itemTarget), translation: stored.translations[i] ?? "" });
+        });
+      }
+      memory = buildTranslationMemory(entries);
+      translationMemories.set(key, memory);
+    }
+    return memory;
+  };
+
+  /** 与历史段落相似（75%–99%）的新段落，随翻译请求作为参考发送 */
+  const memoryMatchesFor = (paragraphs: string[], srcLang: string, tgtLang: TargetLang): MemoryMatch[] => {
+    const memory = translationMemoryFor(srcLang, tgtLang, null);
+    if (!memory || memory.size === 0) return [];
+    const out: MemoryMatch[] = [];
+    for (const p of paragraphs) {
+      const m = memory.lookup(p);
+      if (m) out.push(m);
+      if (out.length >= MAX_MEMORY_MATCHES) break;
+    }
+    return out;
+  };
+
+  /** 429 配额错误：按本地时间生成提示，访客超额时弹出登录；不是配额错误时返回 null */
+  const quotaErrorFrom = (body: unknown): Error | null => {
+    const quota = readQuotaExceeded(body);
+    if (!quota) return null;
+    if (quota.role === "guest" && auth.mode === "clerk") auth.login();
+    return Object.assign(new Error(quotaExceededMessage(quota)), { quota, fatal: true });
+  };
+
+  /** 调用模型的接口附带会话 Token，服务端据此按用户记录用量 */
+  const llmRequestHeaders = async (): Promise<Record<string, string>> => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    const t = await auth.getApiToken();
+    if (t) headers.Authorization = `Bearer ${t}`;
+    return headers;
+  };
+
   const saveToHistory = (
     item: Omit<HistoryItem, "id" | "createdAt" | "username" | "sourceLang" | "targetLang">,
     langForRecord?: { sourceLang: SourceLang; targetLang: TargetLang }
@@ -742,8 +1309,20 @@ export default function App() {
     const createdAt = Date.now();
     const sl = langForRecord?.sourceLang ?? sourceLang;
     const tl = langForRecord?.targetLang ?? targetLang;
-    const entry: HistoryItem = { ...item, id, createdAt, username: auth.userId || undefined, sourceLang: sl, targetLang: tl };
+    const style = translationStyle;
+    const instructions = styleInstructions.trim() || undefined;
+    const entry: HistoryItem = {
+      ...item,
+      id,
+      createdAt,
+      username: auth.userId || undefined,
+      sourceLang: sl,
+      targetLang: tl,
+      style,
+      styleInstructions: instructions,
+    };
     setHistory((prev) => [entry, ...prev.slice(0, historyCap - 1)]);
+    setCurrentHistoryId(id);
 
     if (storageMode === "cloud") {
       (async () => {
@@ -753,7 +1332,16 @@ export default function App() {
         fetch("/api/history", {
           method: "POST",
           headers,
-          body: JSON.stringify({ ...item, id, createdAt, username: auth.userId || undefined, sourceLang: sl, targetLang: tl }),
+          body: JSON.stringify({
+            ...item,
+            id,
+            createdAt,
+            username: auth.userId || undefined,
+            sourceLang: sl,
+            targetLang: tl,
+            style,
+            styleInstructions: instructions,
+          }),
         }).catch(() => {});
       })();
     }
@@ -761,6 +1349,7 @@ export default function App() {
 
   const loadFromHistory = (item: HistoryItem) => {
     setContent(item.content);
+    setUnalignedParagraphs(new Set());
     setAnalysis(normalizeAnalysis(item.analysis) ?? item.analysis ?? null);
     setTitle(item.title);
     setAuthor(item.author);
@@ -779,6 +1368,11 @@ export default function App() {
         item.sourceLang && ALL_SOURCE_LANGS.includes(item.sourceLang) ? item.sourceLang : "en"
       );
     }
+    // 沿用该条目翻译时的文体，之后重译保持一致；旧记录没有文体则保留当前选择
+    if (item.style) {
+      setTranslationStyle(normalizeTranslationStyle(item.style));
+      setStyleInstructions(item.styleInstructions ?? "");
+    }
     setAnnotations(item.annotations ?? []);
     setCurrentHistoryId(item.id);
     setActiveAnnotationId(null);
@@ -787,6 +1381,23 @@ export default function App() {
     setHistoryOpen(false);
   };
 
+  /** 更新已存在的历史条目（本地 + 云端 upsert），用于补译等就地修改 */
+  const updateHistoryItem = (id: string, patch: Partial<Omit<HistoryItem, "id">>) => {
+    const existing = history.find((h) => h.id === id);
+    if (!existing) return;
+    const updated: HistoryItem = { ...existing, ...patch };
+    setHistory((prev) => prev.map((h) => (h.id === id ? updated : h)));
+
+    if (storageMode === "cloud") {
+      (async () => {
+        const headers: Record<string, string> = { "Content-Type": "application/json" };
+        const t = await auth.getApiToken();
+        if (t) headers.Authorization = `Bearer ${t}`;
+        fetch("/api/history", { method: "POST", headers, body: JSON.stringify(updated) }).catch(() => {});
+      })();
+    }
+  };
+
   const removeFromHistory = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
     setHistory((prev) => prev.filter((h) => h.id !== id));
@@ -883,26 +1494,28 @@ export default function App() {
     setActiveAnnotationId(null);
   };
 
-  // Render paragraph text with annotation highlights
-  const renderAnnotatedText = (text: string, paraIndex: number) => {
-    const paraAnns = getParaAnnotations(paraIndex);
+  // Render paragraph text with annotation highlights（from / to 限定范围，诗节逐行渲染时使用）
+  const renderAnnotatedText = (text: string, paraIndex: number, from: number = 0, to: number = text.length) => {
+    const paraAnns = getParaAnnotations(paraIndex).filter((ann) => ann.startOffset < to && ann.endOffset > from);
     if (paraAnns.length === 0) {
-      return <span>{renderSearchHighlightedText(text, paraIndex, pairLayoutOriginalField)}</span>;
+      return <span>{renderSentenceText(text.slice(from, to), paraIndex, pairLayoutOriginalField, from)}</span>;
     }
 
     const segments: React.ReactNode[] = [];
-    let lastEnd = 0;
+    let lastEnd = from;
 
     paraAnns.forEach((ann) => {
+      const start = Math.max(ann.startOffset, from);
+      const end = Math.min(ann.endOffset, to);
       // Add plain text before this annotation (with search highlight)
-      if (ann.startOffset > lastEnd) {
-        segments.push(<span key={`t-${lastEnd}`}>{renderSearchHighlightedText(text.slice(lastEnd, ann.startOffset), paraIndex, pairLayoutOriginalField, lastEnd)}</span>);
+      if (start > lastEnd) {
+        segments.push(<span key={`t-${lastEnd}`}>{renderSentenceText(text.slice(lastEnd, start), paraIndex, pairLayoutOriginalField, lastEnd)}</span>);
       }
       // Add highlighted annotation span
       const isActive = activeAnnotationId === ann.id;
       segments.push(
         <span
-          key={ann.id}
+          key={`${ann.id}-${start}`}
           className={`bg-vibrant-1/15 border-b-2 border-vibrant-1/40 cursor-pointer transition-colors rounded-sm ${
             isActive ? "bg-vibrant-1/30 ring-1 ring-vibrant-1/40" : "hover:bg-vibrant-1/25"
           }`}
@@ -919,102 +1532,213 @@ export default function App() {
             }
           }}
         >
-          {text.slice(ann.startOffset, ann.endOffset)}
+          {text.slice(start, end)}
         </span>
       );
-      lastEnd = ann.endOffset;
+      lastEnd = end;
     });
 
     // Add remaining text (with search highlight)
-    if (lastEnd < text.length) {
-      segments.push(<span key={`t-${lastEnd}`}>{renderSearchHighlightedText(text.slice(lastEnd), paraIndex, pairLayoutOriginalField, lastEnd)}</span>);
+    if (lastEnd < to) {
+      segments.push(<span key={`t-${lastEnd}`}>{renderSentenceText(text.slice(lastEnd, to), paraIndex, pairLayoutOriginalField, lastEnd)}</span>);
     }
 
     return <>{segments}</>;
   };
 
+  /** 诗节在宽屏下按行对齐：各栏第 n 行放进网格第 n 行（样式见 index.css 的 verse-*） */
+  const verseCellStyle = (row: number, column: number) => ({ "--verse-row": row, "--verse-col": column }) as React.CSSProperties;
+
+  /** 把一栏诗节拆成逐行的网格单元；行间换行放在隐藏元素里，选字批注的偏移仍与整段文本一致 */
+  const renderVerseLines = (text: string, column: number, renderRange: (from: number, to: number) => React.ReactNode) => {
+    const lines = text.split("\n");
+    let offset = 0;
+    return lines.map((line, i) => {
+      const from = offset;
+      offset += line.length + 1;
+      return (
+        <div key={i} className="verse-cell" style={verseCellStyle(i + 1, column)}>
+          {renderRange(from, from + line.length)}
+          {i < lines.length - 1 && <span className="hidden">{"\n"}</span>}
+        </div>
+      );
+    });
+  };
+
   const handleExportDocx = async () => {
     const { exportToDocx } = await import("./exportDocx");
     await exportToDocx({ title, author, content, annotations, analysis, originalDocx, targetLang: contentPairTargetLang });
   };
 
-  type TranslateResult = { translation: ParagraphPair[]; analysis: ArticleAnalysis; title?: { en: string; zh: string }; author?: { en: string; zh: string } };
+  const markupRequestFields = () => (markupLinksRef.current ? { markup: true, links: markupLinksRef.current } : {});
+  const verseRequestFields = () => (verseRequestRef.current ? { verse: true, verseNotes: verseNotesMode } : {});
+
+  /** 由正文重建带格式标签的原文并换上对应的链接表（补译、换译文语言时重发原文用）；诗节仍按诗歌模式重发 */
+  const originalsWithMarkup = (pairs: ParagraphPair[], indexes: number[], layoutLang: TargetLang): string[] => {
+    verseRequestRef.current = indexes.some((i) => pairs[i]?.verse !== undefined);
+    const links: string[] = [];
+    const sources = indexes.map((i) =>
+      serializeInlineMarkup(getOriginalColumnText(pairs[i]!, layoutLang), pairs[i]!.marks?.source, links)
+    );
+    markupLinksRef.current = sources.some(hasInlineMarkup) ? links : null;
+    return sources;
+  };
+
+  type FailedChunk = { offset: number; count: number; message: string };
+  type TranslateResult = { translation: ParagraphPair[]; analysis: ArticleAnalysis; title?: { en: string; zh: string }; author?: { en: string; zh: string }; failedChunks?: FailedChunk[]; unalignedParagraphs?: number[]; usage?: UsageSummary };
 
   const translateAndAnalyzeStream = async (
     paragraphs: string[],
     onProgress: (p: { percent: number; step: string }) => void,
     srcLang: string = "en",
     tgtLang: TargetLang = "zh",
-    onChunkDone?: (partial: { pairs: ParagraphPair[]; chunkIndex: number; title?: { en: string; zh: string }; author?: { en: string; zh: string }; analysis?: ArticleAnalysis | null }) => void
+    onChunkDone?: (partial: { pairs: ParagraphPair[]; chunkIndex: number; offset: number; unaligned: number[]; title?: { en: string; zh: string }; author?: { en: string; zh: string }; analysis?: ArticleAnalysis | null }) => void,
+    onStart?: (plan: { sources: string[]; extraTargets: TargetLang[] }) => void,
+    onChunkError?: (failed: FailedChunk) => void,
+    onChunkPartial?: (partial: { offset: number; texts: string[] }) => void,
+    signal?: AbortSignal
   ): Promise<TranslateResult> => {
-    const res = await fetch("/api/translate-stream", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ paragraphs, sourceLang: srcLang, sourceLangFull: srcLang, targetLang: tgtLang }),
-    });
-
-    if (!res.ok || !res.body) {
-      const errText = await res.text().catch(() => "");
-      let msg = `流式接口不可用 (${res.status})`;
-      try {
-        const j = errText ? JSON.parse(errText) : {};
-        if (j && typeof j.error === "string" && j.error) msg = j.error;
-      } catch {
-        /* ignore */
-      }
-      throw new Error(msg);
-    }
-
-    const reader = res.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = "";
+    const requestBody = {
+      paragraphs,
+      sourceLang: srcLang,
+      sourceLangFull: srcLang,
+      targetLang: tgtLang,
+      extraTargetLangs: extraTargetsFor(tgtLang),
+      glossary: glossaryEntriesFor(srcLang, tgtLang),
+      consistency: consistencyMode,
+      memory: memoryMatchesFor(paragraphs, srcLang, tgtLang),
+      style: translationStyle,
+      styleInstructions: styleInstructions.trim(),
+      ...markupRequestFields(),
+      ...verseRequestFields(),
+    };
+    /** 服务端返回的任务 ID；连接中断后带着它续传，已完成的块由服务端直接重放 */
+    let jobId: string | null = null;
+    let lastPercent = 0;
 
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split("\n");
-      buffer = lines.pop() ?? "";
+    /** 读取一次 NDJSON 流；服务端明确报错时标记 fatal，不再续传 */
+    const readStream = async (body: object): Promise<TranslateResult> => {
+      const res = await fetch("/api/translate-stream", {
+        method: "POST",
+        signal,
+        headers: await llmRequestHeaders(),
+        body: JSON.stringify(body),
+      });
 
-      for (const line of lines) {
-        const trimmed = line.trim();
-        if (!trimmed) continue;
-        let msg: { type: string; percent?: number; step?: string; result?: TranslateResult; message?: string; chunkIndex?: number; pairs?: ParagraphPair[]; title?: { en: string; zh: string }; author?: { en: string; zh: string }; analysis?: ArticleAnalysis | null };
+      if (!res.ok || !res.body) {
+        const errText = await res.text().catch(() => "");
+        let msg = `流式接口不可用 (${res.status})`;
+        let j: unknown = {};
         try {
-          msg = JSON.parse(trimmed);
+          j = errText ? JSON.parse(errText) : {};
         } catch {
-          continue;
+          /* ignore */
         }
-        if (msg.type === "progress") {
-          onProgress({ percent: msg.percent ?? 0, step: msg.step ?? "" });
-        } else if (msg.type === "chunk_done" && onChunkDone && msg.pairs) {
-          onChunkDone({
-            pairs: msg.pairs,
-            chunkIndex: msg.chunkIndex ?? 0,
-            title: msg.title,
-            author: msg.author,
-            analysis: msg.analysis ?? null,
-          });
-        } else if (msg.type === "done") {
-          if (msg.result) return msg.result;
-          throw new Error("模型返回格式异常，请重试");
-        } else if (msg.type === "error") {
-          throw new Error(msg.message ?? "翻译失败");
+        const quotaErr = quotaErrorFrom(j);
+        if (quotaErr) throw quotaErr;
+        const serverMsg = (j as { error?: unknown } | null)?.error;
+        if (typeof serverMsg === "string" && serverMsg) msg = serverMsg;
+        throw Object.assign(new Error(msg), { fatal: true });
+      }
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed) continue;
+          let msg: { type: string; jobId?: string; percent?: number; step?: string; result?: TranslateResult; message?: string; chunkIndex?: number; offset?: number; count?: number; pairs?: ParagraphPair[]; unaligned?: number[]; sources?: string[]; texts?: string[]; extraTargets?: TargetLang[]; title?: { en: string; zh: string }; author?: { en: string; zh: string }; analysis?: ArticleAnalysis | null };
+          try {
+            msg = JSON.parse(trimmed);
+          } catch {
+            continue;
+          }
+          if (msg.type === "start") {
+            jobId = msg.jobId ?? null;
+            if (onStart && Array.isArray(msg.sources)) onStart({ sources: msg.sources, extraTargets: msg.extraTargets ?? [] });
+          } else if (msg.type === "progress") {
+            lastPercent = msg.percent ?? 0;
+            onProgress({ percent: msg.percent ?? 0, step: msg.step ?? "" });
+          } else if (msg.type === "chunk_done" && onChunkDone && msg.pairs) {
+            onChunkDone({
+              pairs: msg.pairs,
+              chunkIndex: msg.chunkIndex ?? 0,
+              offset: msg.offset ?? 0,
+              unaligned: msg.unaligned ?? [],
+              title: msg.title,
+              author: msg.author,
+              analysis: msg.analysis ?? null,
+            });
+          } else if (msg.type === "chunk_partial" && Array.isArray(msg.texts)) {
+            onChunkPartial?.({ offset: msg.offset ?? 0, texts: msg.texts });
+          } else if (msg.type === "chunk_error") {
+            onChunkError?.({ offset: msg.offset ?? 0, count: msg.count ?? 0, message: msg.message ?? "" });
+          } else if (msg.type === "done") {
+            if (msg.result) return msg.result;
+            throw Object.assign(new Error("模型返回格式异常，请重试"), { fatal: true });
+          } else if (msg.type === "error") {
+            throw Object.assign(new Error(msg.message ?? "翻译失败"), { fatal: true });
+          }
         }
       }
+      throw new Error("连接中断，翻译未完成");
+    };
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await readStream(jobId ? { jobId } : requestBody);
+      } catch (err: unknown) {
+        // 仅在拿到任务 ID、且是网络中断（非服务端报错、非用户取消）时续传
+        const fatal = (err as { fatal?: boolean } | null)?.fatal === true;
+        if (!jobId || fatal || isAbortError(err) || attempt >= STREAM_RESUME_DELAYS_MS.length) throw err;
+        onProgress({ percent: lastPercent, step: `连接中断，正在续传（第 ${attempt + 1} 次）...` });
+        await new Promise((resolve) => setTimeout(resolve, STREAM_RESUME_DELAYS_MS[attempt]));
+        signal?.throwIfAborted();
+      }
     }
-    throw new Error("模型返回格式异常，请重试");
   };
 
-  const translateAndAnalyze = async (paragraphs: string[], srcLang: string = "en", tgtLang: TargetLang = "zh"): Promise<TranslateResult> => {
+  const translateAndAnalyze = async (
+    paragraphs: string[],
+    srcLang: string = "en",
+    tgtLang: TargetLang = "zh",
+    skipAnalysis = false,
+    extraLangs: TargetLang[] = extraTargetsFor(tgtLang),
+    signal?: AbortSignal
+  ): Promise<TranslateResult> => {
     let res: Response;
     try {
       res = await fetch("/api/translate", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ paragraphs, sourceLang: srcLang, sourceLangFull: srcLang, targetLang: tgtLang }),
+        signal,
+        headers: await llmRequestHeaders(),
+        body: JSON.stringify({
+          paragraphs,
+          sourceLang: srcLang,
+          sourceLangFull: srcLang,
+          targetLang: tgtLang,
+          extraTargetLangs: extraLangs,
+          skipAnalysis,
+          glossary: glossaryEntriesFor(srcLang, tgtLang),
+          memory: memoryMatchesFor(paragraphs, srcLang, tgtLang),
+          style: translationStyle,
+          styleInstructions: styleInstructions.trim(),
+          // 补译只涉及零散段落，不再提炼全文上下文
+          consistency: consistencyMode && !skipAnalysis,
+          ...markupRequestFields(),
+          ...verseRequestFields(),
+        }),
       });
     } catch (err: unknown) {
+      if (isAbortError(err)) throw err;
       const msg = err instanceof Error ? err.message : String(err);
       if (/fetch|network|failed/i.test(msg) || msg === "Load failed") {
         const h = typeof window !== "undefined" ? window.location?.hostname ?? "" : "";
@@ -1030,6 +1754,8 @@ export default function App() {
       const text = await res.text();
       let data: { error?: string; detail?: string } = {};
       try { data = text ? JSON.parse(text) : {}; } catch {}
+      const quotaErr = quotaErrorFrom(data);
+      if (quotaErr) throw quotaErr;
       const serverMsg = data.error || data.detail;
       const h = typeof window !== "undefined" ? window.location?.hostname ?? "" : "";
       const isLocal = /^localhost$|^127\.0\.0\.1$/i.test(h) && !/vercel|netlify|cloudflarepages/i.test(h);
@@ -1046,7 +1772,7 @@ export default function App() {
     }
 
     const text = await res.text();
-    let result: { translation: ParagraphPair[]; analysis: ArticleAnalysis; title?: { en: string; zh: string }; author?: { en: string; zh: string } };
+    let result: TranslateResult;
     try { result = JSON.parse(text); } catch {
       try { result = JSON5.parse(text); } catch {
         throw new Error('模型返回格式异常，请重试');
@@ -1056,19 +1782,52 @@ export default function App() {
   };
 
   /** 对已分段的原文调用翻译（不自动识别语言；用于重新翻译或粘贴流程的后半段） */
-  const runTranslationCore = async (paragraphs: string[], apiSourceLang: SourceLang, usedTargetLang: TargetLang) => {
+  const runTranslationCore = async (
+    paragraphs: string[],
+    apiSourceLang: SourceLang,
+    usedTargetLang: TargetLang,
+    extendHistory?: { id: string; targets: NonNullable<HistoryItem["targets"]> },
+    signal?: AbortSignal
+  ) => {
     if (paragraphs.length === 0) {
       throw new Error("文档内容为空");
     }
 
+    /** 切换译文语言时并入原历史条目（批注沿用，旧语言版本存入 targets），否则新建条目 */
+    const saveResult = (
+      item: Omit<HistoryItem, "id" | "createdAt" | "username" | "sourceLang" | "targetLang">,
+      langForRecord: { sourceLang: SourceLang; targetLang: TargetLang }
+    ) => {
+      if (!extendHistory) {
+        saveToHistory(item, langForRecord);
+        return;
+      }
+      const { annotations: _annotations, ...rest } = item;
+      updateHistoryItem(extendHistory.id, {
+        ...rest,
+        usage: mergeUsage(history.find((h) => h.id === extendHistory.id)?.usage, item.usage),
+        ...langForRecord,
+        style: translationStyle,
+        styleInstructions: styleInstructions.trim() || undefined,
+        targets: Object.fromEntries(
+          Object.entries(extendHistory.targets).filter(([lang]) => lang !== langForRecord.targetLang)
+        ) as HistoryItem["targets"],
+      });
+    };
+
     setContent([]);
+    setUnalignedParagraphs(new Set());
+    setOpenMemoryPara(null);
 
     // AKI码 快捷路径：任何语言→AKI 直接前端编码，不走翻译 API（动态梗走 /api/aki-meme 或 VITE_AKI_MEME_API）
     if (usedTargetLang === "aki") {
+      // 前端编码不处理格式标签
+      paragraphs = paragraphs.map(stripInlineMarkup);
       setProgress({ percent: 40, step: "正在翻译..." });
       const memeUrl = getAkiMemeApiUrl();
       const memeErrState: AkiMemeErrorState = { reported: false };
-      const fetchMeme = (t: string) => fetchAkiMemeApi(memeUrl, t, setError, memeErrState);
+      const memeHeaders = await llmRequestHeaders();
+      const fetchMeme = (t: string) => fetchAkiMemeApi(memeUrl, t, setError, memeErrState, signal, memeHeaders);
       const sessionHkuConsumed = hkuStaticEggConsumedRef.current;
       const sessionMeijiConsumed = meijiStaticEggConsumedRef.current;
       const sessionZhongXiConsumed = zhongXiStaticEggConsumedRef.current;
@@ -1117,6 +1876,7 @@ export default function App() {
       if (showedStaticZhongXiThisJob) {
         zhongXiStaticEggConsumedRef.current = true;
       }
+      signal?.throwIfAborted();
       const result: TranslateResult = {
         title: { en: "—", zh: "—" },
         author: { en: "—", zh: "—" },
@@ -1130,10 +1890,10 @@ export default function App() {
       setAnalysis(null);
       setTitle(newTitle);
       setAuthor(newAuthor);
-      setAnnotations([]);
+      if (!extendHistory) setAnnotations([]);
       setActiveAnnotationId(null);
       setPendingSelection(null);
-      saveToHistory(
+      saveResult(
         { title: newTitle, author: newAuthor, content: result.translation, analysis: null, annotations: [] },
         { sourceLang: apiSourceLang, targetLang: usedTargetLang }
       );
@@ -1151,60 +1911,547 @@ export default function App() {
         apiSourceLang,
         usedTargetLang,
         (partial) => {
-          if (partial.chunkIndex === 1) {
-            setContent(partial.pairs);
-            if (partial.title) setTitle({ zh: partial.title.zh || "—", en: partial.title.en || "—" });
-            if (partial.author) setAuthor({ zh: partial.author.zh || "—", en: partial.author.en || "—" });
-            if (partial.analysis) setAnalysis(normalizeAnalysis(partial.analysis) ?? partial.analysis);
-          } else {
-            setContent((prev) => [...prev, ...partial.pairs]);
+          // 按 offset 放入对应槽位：各块并行完成，到达顺序与文档顺序无关
+          setContent((prev) => {
+            const next = prev.slice();
+            partial.pairs.forEach((pair, i) => {
+              next[partial.offset + i] = pair;
+            });
+            return next;
+          });
+          setPendingParagraphs((prev) => {
+            const next = new Set(prev);
+            for (let i = 0; i < partial.pairs.length; i++) next.delete(partial.offset + i);
+            return next;
+          });
+          if (partial.unaligned.length > 0) {
+            setUnalignedParagraphs((prev) => new Set([...prev, ...partial.unaligned]));
           }
-        }
+          if (partial.title) setTitle({ zh: partial.title.zh || "—", en: partial.title.en || "—" });
+          if (partial.author) setAuthor({ zh: partial.author.zh || "—", en: partial.author.en || "—" });
+          if (partial.analysis) setAnalysis(normalizeAnalysis(partial.analysis) ?? partial.analysis);
+        },
+        ({ sources, extraTargets }) => {
+          // 先按原文生成占位行，译文栏（含附加语言栏）留空，待对应块完成后填入
+          setContentPairSourceLang(apiSourceLang);
+          setContentPairTargetLang(usedTargetLang);
+          const extra = extraTargets.length > 0 ? Object.fromEntries(extraTargets.map((l) => [l, ""])) : undefined;
+          setContent(
+            sources.map((src) => ({
+              ...(pairLayoutFor(usedTargetLang) === "to_en" ? { en: "", zh: src } : { en: src, zh: "" }),
+              ...(extra ? { extra } : {}),
+              ...(verseRequestRef.current ? { verse: {} } : {}),
+            }))
+          );
+          setPendingParagraphs(new Set(sources.map((_, i) => i)));
+          setStreamingTexts(new Map());
+        },
+        (failed) => {
+          // 失败块保留原文占位，译文栏留空，稍后可用「重试失败段落」补译
+          setPendingParagraphs((prev) => {
+            const next = new Set(prev);
+            for (let i = 0; i < failed.count; i++) next.delete(failed.offset + i);
+            return next;
+          });
+        },
+        ({ offset, texts }) => {
+          // 模型边生成边推送，先显示在待译段落里，块完成后由 chunk_done 的译文替换
+          setStreamingTexts((prev) => {
+            const next = new Map(prev);
+            texts.forEach((text, i) => {
+              if (text.trim()) next.set(offset + i, text);
+            });
+            return next;
+          });
+        },
+        signal
       );
     } catch (streamErr: unknown) {
+      setPendingParagraphs(new Set());
+      setStreamingTexts(new Map());
+      setContent([]);
+      // 用户取消或配额用尽时不再退回非流式接口
+      if (isAbortError(streamErr) || isQuotaError(streamErr)) throw streamErr;
       let fallbackPercent = 20;
       const fallbackTimer = setInterval(() => {
         fallbackPercent = Math.min(fallbackPercent + 8, 85);
         setProgress({ percent: fallbackPercent, step: "翻译中..." });
       }, 1500);
       try {
-        result = await translateAndAnalyze(paragraphs, apiSourceLang, usedTargetLang);
+        result = await translateAndAnalyze(paragraphs, apiSourceLang, usedTargetLang, false, extraTargetsFor(usedTargetLang), signal);
       } finally {
         clearInterval(fallbackTimer);
       }
     }
 
     setProgress({ percent: 95, step: "正在保存..." });
+    setPendingParagraphs(new Set());
+    setStreamingTexts(new Map());
+    setUnalignedParagraphs(new Set(result.unalignedParagraphs ?? []));
     const newTitle = { zh: (result.title?.zh || "").trim() || "—", en: (result.title?.en || "").trim() || "—" };
     const newAuthor = { zh: (result.author?.zh || "").trim() || "—", en: (result.author?.en || "").trim() || "—" };
     setContent(result.translation);
     setAnalysis(normalizeAnalysis(result.analysis) ?? result.analysis ?? null);
     setTitle(newTitle);
     setAuthor(newAuthor);
-    setAnnotations([]);
+    if (!extendHistory) setAnnotations([]);
     setActiveAnnotationId(null);
     setPendingSelection(null);
-    saveToHistory(
-      { title: newTitle, author: newAuthor, content: result.translation, analysis: result.analysis, annotations: [] },
+    saveResult(
+      {
+        title: newTitle,
+        author: newAuthor,
+        content: result.translation,
+        analysis: result.analysis,
+        annotations: [],
+        usage: result.usage,
+      },
       { sourceLang: apiSourceLang, targetLang: usedTargetLang }
     );
     setContentPairSourceLang(apiSourceLang);
     setContentPairTargetLang(usedTargetLang);
+    const failedCount = (result.failedChunks ?? []).reduce((n, f) => n + f.count, 0);
+    if (failedCount > 0) {
+      setError(`有 ${failedCount} 段翻译失败（${result.failedChunks![0]!.message}），已保留原文，可点击「重试失败段落」补译。`);
+    }
     setProgress({ percent: 100, step: "完成" });
   };
 
-  /** 顶栏切换译文语言时：用左栏原文 + 新选语言整篇重译（沿用 Import 中的原文语言） */
+  /** 原文非空但译文为空的段落（分块失败或模型漏译）；AKI 相关布局由前端编码，不参与补译 */
+  const missingParagraphIndexes = useMemo(() => {
+    if (akiDecodeLayout || contentPairTargetLang === "aki") return [];
+    const out: number[] = [];
+    content.forEach((pair, i) => {
+      if (pendingParagraphs.has(i)) return;
+      if (getOriginalColumnText(pair, contentPairTargetLang).trim() && !getTranslatedColumnText(pair, contentPairTargetLang).trim()) {
+        out.push(i);
+      }
+    });
+    return out;
+  }, [content, contentPairTargetLang, akiDecodeLayout, pendingParagraphs]);
+  const missingParagraphSet = useMemo(() => new Set(missingParagraphIndexes), [missingParagraphIndexes]);
+
+  /** 当前正文带有的附加译文语言（来自任务或历史记录中各段的 extra） */
+  const contentExtraLangs = useMemo(() => {
+    const langs = new Set<TargetLang>();
+    for (const pair of content) {
+      for (const lang of Object.keys(pair.extra ?? {})) {
+        if (isExtraTargetLanguage(lang) && lang !== contentPairTargetLang) langs.add(lang);
+      }
+    }
+    return [...langs];
+  }, [content, contentPairTargetLang]);
+  const showSourceColumn = !hiddenColumns.has("source");
+  const showTargetColumn = !hiddenColumns.has(contentPairTargetLang);
+  const visibleExtraLangs = contentExtraLangs.filter((l) => !hiddenColumns.has(l));
+  const readerColumnCount = Math.max(1, Number(showSourceColumn) + Number(showTargetColumn) + visibleExtraLangs.length);
+  const readerGridClass = `grid grid-cols-1 ${READER_GRID_COLS[readerColumnCount] ?? "md:grid-cols-4"} ${
+    readerColumnCount > 2 ? "md:gap-10" : "md:gap-24"
+  }`;
+
+  /** 未按术语表译出的段落；与服务端同一检查，历史记录打开或补译后也能标出 */
+  const glossaryIssuesByPara = useMemo(() => {
+    const byPara = new Map<number, GlossaryIssue[]>();
+    if (akiDecodeLayout || contentPairTargetLang === "aki" || contentPairTargetLang === "morse") return byPara;
+    const entries = glossaryEntriesFor(contentPairSourceLang ?? sourceLang, contentPairTargetLang);
+    const issues = checkGlossaryCompliance(
+      content.map((pair, i) => ({
+        source: getOriginalColumnText(pair, contentPairTargetLang),
+        translation: pendingParagraphs.has(i) ? "" : getTranslatedColumnText(pair, contentPairTargetLang),
+      })),
+      entries
+    );
+    for (const issue of issues) {
+      byPara.set(issue.paraIndex, [...(byPara.get(issue.paraIndex) ?? []), issue]);
+    }
+    return byPara;
+  }, [content, glossary, contentPairSourceLang, contentPairTargetLang, sourceLang, akiDecodeLayout, pendingParagraphs]);
+
+  /** 网址、代码、带单位的数字等应原样出现在译文中；模型丢掉或改写了的逐段列出 */
+  const unpreservedSpansByPara = useMemo(() => {
+    const byPara = new Map<number, string[]>();
+    if (akiDecodeLayout || contentPairTargetLang === "aki" || contentPairTargetLang === "morse") return byPara;
+    content.forEach((pair, i) => {
+      const translation = getTranslatedColumnText(pair, contentPairTargetLang);
+      if (pendingParagraphs.has(i) || !translation.trim()) return;
+      const spans = findUnpreservedSpans(getOriginalColumnText(pair, contentPairTargetLang), translation);
+      if (spans.length > 0) byPara.set(i, spans);
+    });
+    return byPara;
+  }, [content, contentPairTargetLang, akiDecodeLayout, pendingParagraphs]);
+
+  /** 与其他历史条目中相似段落的匹配（不含当前条目自身），在译文下方显示匹配度 */
+  const memoryMatchesByPara = useMemo(() => {
+    const byPara = new Map<number, MemoryMatch>();
+    if (akiDecodeLayout) return byPara;
+    const memory = translationMemoryFor(contentPairSourceLang ?? sourceLang, contentPairTargetLang, currentHistoryId);
+    if (!memory || memory.size === 0) return byPara;
+    content.forEach((pair, i) => {
+      const m = memory.lookup(getOriginalColumnText(pair, contentPairTargetLang));
+      if (m) byPara.set(i, m);
+    });
+    return byPara;
+  }, [translationMemories, content, contentPairSourceLang, contentPairTargetLang, sourceLang, akiDecodeLayout, currentHistoryId]);
+
+  /** 用翻译记忆中的旧译文替换本段译文，并写回当前历史条目 */
+  const adoptMemoryTranslation = (paraIndex: number, match: MemoryMatch) => {
+    replaceParagraphTranslation(paraIndex, match.translation);
+    setOpenMemoryPara(null);
+  };
+
+  /** 替换某段的主译文，并写回当前历史条目；原译文压入该段的撤销栈 */
+  const replaceParagraphTranslation = (paraIndex: number, translation: string) => {
+    const previous = getTranslatedColumnText(content[paraIndex]!, contentPairTargetLang);
+    if (previous === translation) return;
+    setParagraphUndo((prev) => new Map(prev).set(paraIndex, [...(prev.get(paraIndex) ?? []), previous]));
+    writeParagraphTranslation(paraIndex, translation);
+  };
+
+  const writeParagraphTranslation = (paraIndex: number, translation: string) => {
+    const next = content.slice();
+    // 旧的句子对齐、译文格式与格律说明随译文失效；对齐由 sentenceAlignments 重算
+    const { marks, verse } = next[paraIndex]!;
+    next[paraIndex] = {
+      ...next[paraIndex]!,
+      [pairLayoutTranslatedField]: translation,
+      sentences: undefined,
+      marks: marks && { ...marks, target: [] },
+      verse: verse && {},
+    };
+    setContent(next);
+    if (currentHistoryId) updateHistoryItem(currentHistoryId, { content: next });
+  };
+
+  /** 恢复该段上一次被替换前的译文 */
+  const undoParagraphTranslation = (paraIndex: number) => {
+    const stack = paragraphUndo.get(paraIndex);
+    if (!stack || stack.length === 0) return;
+    const next = new Map(paragraphUndo);
+    if (stack.length > 1) next.set(paraIndex, stack.slice(0, -1));
+    else next.delete(paraIndex);
+    setParagraphUndo(next);
+    writeParagraphTranslation(paraIndex, stack[stack.length - 1]!);
+  };
+
+  /**
+   * 只重发未译出的段落，译文就地并入正文与当前历史条目。所有段落合成一次请求（只扣一次配额），
+   * 由服务端照常分块；返回的 translation 与发送顺序一一对应，失败块的段落译文为空，仍算未译出
+   */
+  const retryFailedParagraphs = async () => {
+    if (isTranslating || missingParagraphIndexes.length === 0) return;
+    const apiSourceLang: SourceLang =
+      contentPairSourceLang && contentPairSourceLang !== "aki" ? contentPairSourceLang : sourceLang;
+    const usedTargetLang = contentPairTargetLang;
+    const indexes = missingParagraphIndexes.slice();
+
+    const signal = beginTranslationAbort();
+    setIsTranslating(true);
+    setError(null);
+    setPendingParagraphs(new Set(indexes));
+    setProgress({ percent: 0, step: `正在补译 ${indexes.length} 段` });
+    try {
+      const sources = originalsWithMarkup(content, indexes, usedTargetLang);
+      let result: TranslateResult;
+      try {
+        result = await translateAndAnalyze(sources, apiSourceLang, usedTargetLang, true, contentExtraLangs, signal);
+      } catch (err: unknown) {
+        if (isAbortError(err)) {
+          setError(`${TRANSLATION_CANCELLED_MESSAGE}，已译出的段落已保留。`);
+        } else {
+          const message = err instanceof Error ? err.message : String(err);
+          setError(`仍有 ${indexes.length} 段未译出（${message}），可稍后再试。`);
+        }
+        return;
+      }
+      const merged = content.slice();
+      let stillMissing = 0;
+      indexes.forEach((paraIndex, j) => {
+        const pair = result.translation?.[j];
+        if (pair && getTranslatedColumnText(pair, usedTargetLang).trim()) merged[paraIndex] = pair;
+        else stillMissing++;
+      });
+      setContent(merged);
+      const retryUnaligned = (result.unalignedParagraphs ?? []).map((j) => indexes[j]).filter((i) => i !== undefined);
+      setUnalignedParagraphs((prev) => {
+        const nextSet = new Set(prev);
+        indexes.forEach((i) => nextSet.delete(i));
+        retryUnaligned.forEach((i) => nextSet.add(i));
+        return nextSet;
+      });
+      if (currentHistoryId) {
+        const existingUsage = history.find((h) => h.id === currentHistoryId)?.usage;
+        updateHistoryItem(currentHistoryId, { content: merged, usage: mergeUsage(existingUsage, result.usage) });
+      }
+      if (stillMissing > 0) {
+        const lastError = result.failedChunks?.[result.failedChunks.length - 1]?.message ?? "";
+        setError(`仍有 ${stillMissing} 段未译出${lastError ? `（${lastError}）` : ""}，可稍后再试。`);
+      }
+    } finally {
+      setPendingParagraphs(new Set());
+      setIsTranslating(false);
+      setProgress(null);
+    }
+  };
+
+  /** 回译质检与单段改译需有原文语言，且译文不是摩斯 / AKI码等编码结果 */
+  const paragraphToolsSupported =
+    !akiDecodeLayout &&
+    contentPairSourceLang !== null &&
+    contentPairSourceLang !== "aki" &&
+    contentPairSourceLang !== contentPairTargetLang &&
+    isExtraTargetLanguage(contentPairTargetLang);
+  const canRunQa = content.length > 0 && paragraphToolsSupported;
+
+  /** 仍与当前译文一致的质检结果，按段落下标 */
+  const qaByPara = useMemo(() => {
+    const byPara = new Map<number, ParagraphQa>();
+    if (!qaResults) return byPara;
+    content.forEach((pair, i) => {
+      const qa = qaResults[i];
+      if (qa && qa.translation === getTranslatedColumnText(pair, contentPairTargetLang)) byPara.set(i, qa);
+    });
+    return byPara;
+  }, [qaResults, content, contentPairTargetLang]);
+
+  const qaSummary = useMemo(() => {
+    if (qaByPara.size === 0) return null;
+    const scores = [...qaByPara.values()].map((q) => q.score);
+    return {
+      average: Math.round(scores.reduce((a, b) => a + b, 0) / scores.length),
+      flagged: scores.filter((score) => score < QA_SCORE_GOOD).length,
+    };
+  }, [qaByPara]);
+
+  // 换了文章或译文语言时清空质检结果、改译面板与撤销记录
+  useEffect(() => {
+    setQaResults(null);
+    setQaLowOnly(false);
+    setOpenQaPara(null);
+    alternativesSeqRef.current++;
+    setAlternatives(null);
+    retranslateSeqRef.current++;
+    setRetranslating(null);
+    setParagraphUndo(new Map());
+  }, [currentHistoryId, contentPairTargetLang]);
+
+  /** 把译文逐段回译成原文语言并打分，结果显示在阅读器左侧色条 */
+  const runQualityCheck = async () => {
+    if (!canRunQa || qaRunning || isTranslating) return;
+    const pairs = content.map((p) => ({
+      source: getOriginalColumnText(p, contentPairTargetLang),
+      translation: getTranslatedColumnText(p, contentPairTargetLang),
+    }));
+    setQaRunning(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/back-translate", {
+        method: "POST",
+        headers: await llmRequestHeaders(),
+        body: JSON.stringify({ pairs, sourceLang: contentPairSourceLang, targetLang: contentPairTargetLang }),
+      });
+      const data = (await res.json().catch(() => ({}))) as {
+        scores?: (ParagraphQa | null)[];
+        usage?: UsageSummary;
+        error?: string;
+      };
+      if (!res.ok) {
+        throw quotaErrorFrom(data) ?? new Error(data.error || `回译质检失败 (${res.status})`);
+      }
+      const scores = Array.isArray(data.scores) ? data.scores : [];
+      setQaResults(pairs.map((p, i) => (scores[i] ? { ...scores[i]!, translation: p.translation } : null)));
+      if (currentHistoryId && data.usage) {
+        const existingUsage = history.find((h) => h.id === currentHistoryId)?.usage;
+        updateHistoryItem(currentHistoryId, { usage: mergeUsage(existingUsage, data.usage) });
+      }
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "回译质检失败");
+    } finally {
+      setQaRunning(false);
+    }
+  };
+
+  /** 单段改译请求的公共字段：本段原文与现有译文、前后段落、文体与术语表 */
+  const paragraphRevisionBody = (paraIndex: number) => {
+    const neighbour = (i: number) =>
+      content[i]
+        ? {
+            source: getOriginalColumnText(content[i]!, contentPairTargetLang),
+            translation: getTranslatedColumnText(content[i]!, contentPairTargetLang),
+          }
+        : null;
+    const srcLang = contentPairSourceLang ?? sourceLang;
+    const pair = content[paraIndex]!;
+    return {
+      source: getOriginalColumnText(pair, contentPairTargetLang),
+      current: getTranslatedColumnText(pair, contentPairTargetLang),
+      previous: neighbour(paraIndex - 1),
+      next: neighbour(paraIndex + 1),
+      sourceLang: srcLang,
+      targetLang: contentPairTargetLang,
+      style: translationStyle,
+      styleInstructions: styleInstructions.trim(),
+      glossary: glossaryEntriesFor(srcLang, contentPairTargetLang),
+      verse: pair.verse !== undefined,
+    };
+  };
+
+  /** 为单段请求候选译法（带前后段落作语境），结果在该段下方并排显示 */
+  const requestAlternatives = async (paraIndex: number, count: number) => {
+    if (!paragraphToolsSupported || isTranslating) return;
+    const seq = ++alternativesSeqRef.current;
+    closeRetranslate();
+    setAlternatives({ paraIndex, count, items: null });
+    setError(null);
+    try {
+      const res = await fetch("/api/alternatives", {
+        method: "POST",
+        headers: await llmRequestHeaders(),
+        body: JSON.stringify({ ...paragraphRevisionBody(paraIndex), count }),
+      });
+      const data = (await res.json().catch(() => ({}))) as {
+        alternatives?: AlternativeTranslation[];
+        usage?: UsageSummary;
+        error?: string;
+      };
+      if (!res.ok) {
+        throw quotaErrorFrom(data) ?? new Error(data.error || `候选译法生成失败 (${res.status})`);
+      }
+      if (currentHistoryId && data.usage) {
+        const existingUsage = history.find((h) => h.id === currentHistoryId)?.usage;
+        updateHistoryItem(currentHistoryId, { usage: mergeUsage(existingUsage, data.usage) });
+      }
+      if (seq !== alternativesSeqRef.current) return;
+      setAlternatives({ paraIndex, count, items: Array.isArray(data.alternatives) ? data.alternatives : [] });
+    } catch (err: unknown) {
+      if (seq !== alternativesSeqRef.current) return;
+      setAlternatives(null);
+      setError(err instanceof Error ? err.message : "候选译法生成失败");
+    }
+  };
+
+  const closeAlternatives = () => {
+    alternativesSeqRef.current++;
+    setAlternatives(null);
+  };
+
+  /** 采用候选译法：替换该段译文并写回历史 */
+  const adoptAlternative = (paraIndex: number, translation: string) => {
+    replaceParagraphTranslation(paraIndex, translation);
+    closeAlternatives();
+  };
+
+  const openRetranslate = (paraIndex: number) => {
+    closeAlternatives();
+    retranslateSeqRef.current++;
+    setRetranslating({ paraIndex, instruction: "", running: false });
+  };
+
+  const closeRetranslate = () => {
+    retranslateSeqRef.current++;
+    setRetranslating(null);
+  };
+
+  /** 按改译要求重译单段，新译文就地替换（旧译文可撤销） */
+  const retranslateParagraph = async (paraIndex: number, instruction: string) => {
+    if (!paragraphToolsSupported || isTranslating) return;
+    const seq = ++retranslateSeqRef.current;
+    setRetranslating({ paraIndex, instruction, running: true });
+    setError(null);
+    try {
+      const res = await fetch("/api/retranslate-paragraph", {
+        method: "POST",
+        headers: await llmRequestHeaders(),
+        body: JSON.stringify({ ...paragraphRevisionBody(paraIndex), instruction: instruction.trim() }),
+      });
+      const data = (await res.json().catch(() => ({}))) as { translation?: string; usage?: UsageSummary; error?: string };
+      if (!res.ok) {
+        throw quotaErrorFrom(data) ?? new Error(data.error || `重译失败 (${res.status})`);
+      }
+      if (currentHistoryId && data.usage) {
+        const existingUsage = history.find((h) => h.id === currentHistoryId)?.usage;
+        updateHistoryItem(currentHistoryId, { usage: mergeUsage(existingUsage, data.usage) });
+      }
+      if (seq !== retranslateSeqRef.current) return;
+      if (!data.translation?.trim()) throw new Error("模型没有返回译文，请重试");
+      replaceParagraphTranslation(paraIndex, data.translation);
+      setRetranslating(null);
+    } catch (err: unknown) {
+      if (seq !== retranslateSeqRef.current) return;
+      setRetranslating({ paraIndex, instruction, running: false });
+      setError(err instanceof Error ? err.message : "重译失败");
+    }
+  };
+
+  /** 当前正文的译文版本，切换译文语言前存入历史条目的 targets */
+  const currentTargetVersion = (): TargetVersion => ({
+    translations: content.map((p) => getTranslatedColumnText(p, contentPairTargetLang)),
+    title,
+    author,
+    analysis,
+  });
+
+  /**
+   * 切换到本条目已产出过的译文语言（历史条目的 targets 或「同时译成」的附加栏）：直接换栏，不调用接口。
+   * 返回 false 表示需要重新翻译。
+   */
+  const switchToProducedTarget = (nextTarget: TargetLang): boolean => {
+    if (akiDecodeLayout || !currentHistoryId) return false;
+    const item = history.find((h) => h.id === currentHistoryId);
+    if (!item) return false;
+    const originals = content.map((p) => getOriginalColumnText(p, contentPairTargetLang));
+    const stored = item.targets?.[nextTarget];
+    let version: TargetVersion | null = null;
+    if (stored && stored.translations.length === content.length) {
+      version = stored;
+    } else if (contentExtraLangs.includes(nextTarget)) {
+      // 附加栏只有正文译文：标题 / 作者的译文侧留空，没有导读分析
+      const originalTitle = getOriginalColumnText(title, contentPairTargetLang);
+      const originalAuthor = getOriginalColumnText(author, contentPairTargetLang);
+      version = {
+        translations: content.map((p) => p.extra?.[nextTarget] ?? ""),
+        title: pairWithColumns(originalTitle, "—", nextTarget),
+        author: pairWithColumns(originalAuthor, "—", nextTarget),
+        analysis: null,
+      };
+    }
+    if (!version) return false;
+
+    const nextContent = content.map((p, i) => pairWithColumns(originals[i]!, version.translations[i] ?? "", nextTarget, p.extra));
+    const targets = Object.fromEntries(
+      Object.entries({ ...item.targets, [contentPairTargetLang]: currentTargetVersion() }).filter(([lang]) => lang !== nextTarget)
+    ) as HistoryItem["targets"];
+    setContent(nextContent);
+    setTitle(version.title);
+    setAuthor(version.author);
+    setAnalysis(normalizeAnalysis(version.analysis) ?? version.analysis ?? null);
+    setContentPairTargetLang(nextTarget);
+    setUnalignedParagraphs(new Set());
+    setOpenMemoryPara(null);
+    updateHistoryItem(item.id, {
+      content: nextContent,
+      title: version.title,
+      author: version.author,
+      analysis: version.analysis,
+      targetLang: nextTarget,
+      targets,
+    });
+    return true;
+  };
+
+  /** 顶栏切换译文语言时：已产出过的语言直接换栏；否则用左栏原文 + 新选语言整篇重译（沿用 Import 中的原文语言） */
   const retranslateToTarget = async (nextTarget: TargetLang) => {
     if (content.length === 0 || nextTarget === contentPairTargetLang) return;
+    if (switchToProducedTarget(nextTarget)) return;
 
     const fromAkiDecode = contentPairSourceLang === "aki" && contentPairTargetLang === "zh";
     const apiSourceLang: SourceLang = fromAkiDecode ? "zh" : sourceLang;
 
-    const paragraphs = content
-      .map((p) =>
-        fromAkiDecode ? getTranslatedColumnText(p, "zh") : getOriginalColumnText(p, contentPairTargetLang)
-      )
-      .map((s) => s.trim());
+    if (fromAkiDecode) markupLinksRef.current = null;
+    const paragraphs = (
+      fromAkiDecode
+        ? content.map((p) => getTranslatedColumnText(p, "zh"))
+        : originalsWithMarkup(content, content.map((_, i) => i), contentPairTargetLang)
+    ).map((s) => s.trim());
     if (paragraphs.every((p) => !p)) {
       setError("无法从当前正文提取原文，请重新导入或粘贴后再试。");
       setTargetLang(contentPairTargetLang);
@@ -1216,19 +2463,10 @@ export default function App() {
       return;
     }
 
-    const loggedInRt = Boolean(auth.userId);
-    if (isGuestTranslationQuotaExceeded(loggedInRt)) {
-      setError(GUEST_TRANSLATION_LIMIT_MESSAGE);
-      if (auth.mode === "clerk") auth.login();
-      setTargetLang(contentPairTargetLang);
-      try {
-        localStorage.setItem(TARGET_LANG_KEY, contentPairTargetLang);
-      } catch {
-        /* ignore */
-      }
-      return;
-    }
-
+    const previousVersion = currentTargetVersion();
+    const previousContent = content;
+    const previousPair = { sourceLang: contentPairSourceLang, targetLang: contentPairTargetLang };
+    const signal = beginTranslationAbort();
     setIsTranslating(true);
     setError(null);
     setAnalysis(null);
@@ -1238,11 +2476,25 @@ export default function App() {
       if (fromAkiDecode) {
         setSourceLang("zh");
       }
-      await runTranslationCore(paragraphs, apiSourceLang, nextTarget);
-      incrementGuestTranslationSuccessIfVisitor(loggedInRt);
+      // 同一原文的新语言版本并入当前历史条目；AKI 解码记录换了原文，仍新建条目
+      const item = !fromAkiDecode && currentHistoryId ? history.find((h) => h.id === currentHistoryId) : undefined;
+      const extendHistory = item
+        ? { id: item.id, targets: { ...item.targets, [contentPairTargetLang]: previousVersion } }
+        : undefined;
+      await runTranslationCore(paragraphs, apiSourceLang, nextTarget, extendHistory, signal);
     } catch (err: unknown) {
       const msg = err instanceof Error ? err.message : String(err);
-      setError(msg || "重新翻译失败");
+      if (isAbortError(err)) {
+        // 取消后恢复切换前的译文
+        setContent(previousContent);
+        setTitle(previousVersion.title);
+        setAuthor(previousVersion.author);
+        setAnalysis(previousVersion.analysis);
+        setContentPairSourceLang(previousPair.sourceLang);
+        setContentPairTargetLang(previousPair.targetLang);
+        if (fromAkiDecode) setSourceLang(sourceLang);
+      }
+      setError(isAbortError(err) ? TRANSLATION_CANCELLED_MESSAGE : msg || "重新翻译失败");
       setTargetLang(contentPairTargetLang);
       try {
         localStorage.setItem(TARGET_LANG_KEY, contentPairTargetLang);
@@ -1269,25 +2521,20 @@ export default function App() {
   };
 
   // Shared: parse text into paragraphs and run translation（新稿：自动识别原文语言）
-  const runTranslation = async (text: string) => {
-    const textForJob = stripUrlsForTranslation(text);
+  const runTranslation = async (text: string, signal?: AbortSignal) => {
+    const textForJob = normalizeTranslationInput(text);
     if (!textForJob.trim()) {
       throw new Error("文档内容为空");
     }
 
-    const loggedIn = Boolean(auth.userId);
-    if (isGuestTranslationQuotaExceeded(loggedIn)) {
-      setError(GUEST_TRANSLATION_LIMIT_MESSAGE);
-      if (auth.mode === "clerk") auth.login();
-      throw new Error(GUEST_TRANSLATION_LIMIT_MESSAGE);
-    }
-
     const usedTargetLang = targetLang;
     setProgress({ percent: 15, step: "正在提取段落..." });
 
     // AKI码 解码快捷路径：检测到 AKI码 输入时，直接前端解码，不走 API
-    if (isProbablyAkiCipher(textForJob)) {
-      const akiImport = prepareAkiImportText(textForJob);
+    // 从本站复制的 AKI码 末尾带站点链接，检测与解码前去掉网址
+    const akiText = stripInlineMarkup(stripUrlsForTranslation(text));
+    if (isProbablyAkiCipher(akiText)) {
+      const akiImport = prepareAkiImportText(akiText);
       let paragraphs = akiImport.split(/\n\s*\n/).map(p => p.trim()).filter(p => p.length > 0);
       if (paragraphs.length <= 1) {
         const byLines = akiImport.split(/\n/).map(p => p.trim()).filter(p => p.length > 0);
@@ -1308,8 +2555,9 @@ export default function App() {
         try {
           const res = await fetch("/api/refine-zh", {
             method: "POST",
-            headers: { "Content-Type": "application/json" },
+            headers: await llmRequestHeaders(),
             body: JSON.stringify({ paragraphs: roughMains }),
+            signal,
           });
           if (res.ok) {
             const data = (await res.json()) as { paragraphs?: unknown };
@@ -1317,7 +2565,8 @@ export default function App() {
               refinedMains = mergeRefinedParagraphs(roughMains, data.paragraphs);
             }
           }
-        } catch {
+        } catch (err: unknown) {
+          if (isAbortError(err)) throw err;
           /* 离线或未配置 API：保留本地拼音还原结果 */
         }
       }
@@ -1326,7 +2575,9 @@ export default function App() {
       setProgress({ percent: 68, step: "加载中…" });
       const memeUrl = getAkiMemeApiUrl();
       const decodeMemeErrState: AkiMemeErrorState = { reported: false };
-      const fetchMemeForDecode = (t: string) => fetchAkiMemeApi(memeUrl, t, setError, decodeMemeErrState);
+      const memeHeaders = await llmRequestHeaders();
+      const fetchMemeForDecode = (t: string) =>
+        fetchAkiMemeApi(memeUrl, t, setError, decodeMemeErrState, signal, memeHeaders);
       const sessionHkuDec = hkuStaticEggConsumedRef.current;
       const sessionMeijiDec = meijiStaticEggConsumedRef.current;
       const sessionZhongXiDec = zhongXiStaticEggConsumedRef.current;
@@ -1377,6 +2628,7 @@ export default function App() {
         return isLegacyZhongXiInput(p) && !skip;
       });
       if (showedStaticZhongXiDecode) zhongXiStaticEggConsumedRef.current = true;
+      signal?.throwIfAborted();
 
       const translation = paragraphs.map((p, i) => ({
         en: p,
@@ -1405,12 +2657,15 @@ export default function App() {
         { sourceLang: "aki", targetLang: "zh" }
       );
       setProgress({ percent: 100, step: "完成" });
-      incrementGuestTranslationSuccessIfVisitor(loggedIn);
       return;
     }
 
-    let paragraphs = textForJob.split(/\n\s*\n/).map(p => p.trim()).filter(p => p.length > 0);
-    if (paragraphs.length <= 1 || paragraphs.some(p => p.length > 5000)) {
+    // 诗歌模式按原始文本的空行分节，节内保留换行
+    verseRequestRef.current = verseMode;
+    let paragraphs = verseMode
+      ? splitVerseStanzas(text)
+      : textForJob.split(/\n\s*\n/).map(p => p.trim()).filter(p => p.length > 0);
+    if (!verseMode && (paragraphs.length <= 1 || paragraphs.some(p => p.length > 5000))) {
       const byLines = textForJob.split(/\n/).map(p => p.trim()).filter(p => p.length > 0);
       if (byLines.length > paragraphs.length) paragraphs = byLines;
     }
@@ -1419,13 +2674,12 @@ export default function App() {
       throw new Error("文档内容为空");
     }
 
-    const detected = detectSourceLang(textForJob);
+    const detected = detectSourceLang(stripInlineMarkup(textForJob));
     changeSourceLang(detected);
     const apiSourceLang = detected;
 
     setProgress({ percent: 18, step: "正在翻译..." });
-    await runTranslationCore(paragraphs, apiSourceLang, usedTargetLang);
-    incrementGuestTranslationSuccessIfVisitor(loggedIn);
+    await runTranslationCore(paragraphs, apiSourceLang, usedTargetLang, undefined, signal);
   };
 
   const handleFileUpload = async (event: ChangeEvent<HTMLInputElement>) => {
@@ -1439,6 +2693,7 @@ export default function App() {
       return;
     }
 
+    const signal = beginTranslationAbort();
     setIsTranslating(true);
     setError(null);
     setAnalysis(null);
@@ -1447,27 +2702,35 @@ export default function App() {
       setProgress({ percent: 5, step: "正在解析文档..." });
 
       setOriginalDocx(null); // reset
+      markupLinksRef.current = null;
       let text = "";
+      let marked: MarkedText | null = null;
       if (ext === "pdf") {
         const arrayBuffer = await file.arrayBuffer();
-        text = await extractPdfText(arrayBuffer);
+        marked = await extractPdfText(arrayBuffer);
       } else if (ext === "docx") {
         const arrayBuffer = await file.arrayBuffer();
         setOriginalDocx(arrayBuffer.slice(0)); // keep a copy
-        const result = await mammoth.extractRawText({ arrayBuffer });
-        text = result.value;
+        // 转成 HTML 而不是纯文本，才能拿到加粗、斜体、链接与脚注引用
+        const result = await mammoth.convertToHtml({ arrayBuffer });
+        marked = docxHtmlToMarkup(result.value);
       } else {
         const formData = new FormData();
         formData.append("file", file);
-        const resp = await fetch("/api/extract-text", { method: "POST", body: formData });
+        const resp = await fetch("/api/extract-text", { method: "POST", body: formData, signal });
         if (!resp.ok) throw new Error("旧版 .doc 文件解析失败，建议另存为 .docx 后重试");
         const data = await resp.json();
         text = data.text;
       }
 
-      await runTranslation(text);
+      if (marked) {
+        text = marked.text;
+        if (hasInlineMarkup(text)) markupLinksRef.current = marked.links;
+      }
+      signal.throwIfAborted();
+      await runTranslation(text, signal);
     } catch (err: any) {
-      setError(err.message || "文件处理出错");
+      setError(isAbortError(err) ? TRANSLATION_CANCELLED_MESSAGE : err.message || "文件处理出错");
     } finally {
       setIsTranslating(false);
       setProgress(null);
@@ -1478,17 +2741,19 @@ export default function App() {
     const text = textInput.trim();
     if (!text) return;
 
+    const signal = beginTranslationAbort();
     setIsTranslating(true);
     setError(null);
     setAnalysis(null);
     setOriginalDocx(null); // text input has no original docx
+    markupLinksRef.current = null;
 
     try {
       setProgress({ percent: 10, step: "正在准备翻译..." });
-      await runTranslation(text);
+      await runTranslation(text, signal);
       setTextInput("");
     } catch (err: any) {
-      setError(err.message || "翻译出错");
+      setError(isAbortError(err) ? TRANSLATION_CANCELLED_MESSAGE : err.message || "翻译出错");
     } finally {
       setIsTranslating(false);
       setProgress(null);
@@ -1557,7 +2822,7 @@ export default function App() {
                 value={targetLang}
                 onChange={(e) => changeTargetLang(e.target.value as TargetLang)}
                 disabled={isTranslating}
-                title={`译文语言：${TARGET_LANG_LABELS[targetLang]}。新导入/粘贴的翻译使用该语言；若已有正文，切换语言后将按左栏原文自动重新翻译。`}
+                title={`译文语言：${TARGET_LANG_LABELS[targetLang]}。新导入/粘贴的翻译使用该语言；若已有正文，切换语言后将按左栏原文自动重新翻译（本条目已译过的语言直接切换，不再请求）。`}
                 aria-label={`译文 ${TARGET_LANG_LABELS[targetLang]}`}
                 className="appearance-none bg-transparent pl-7 pr-6 py-1.5 text-[11px] sm:text-xs font-sans font-medium text-ink/60 hover:text-ink cursor-pointer outline-none border border-ink/10 rounded-full hover:border-ink/20 transition-colors disabled:opacity-40 disabled:pointer-events-none max-w-full min-w-0"
               >
@@ -1570,6 +2835,140 @@ export default function App() {
               <Globe className="absolute left-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-ink/40 pointer-events-none" />
               <ChevronDown className="absolute right-1.5 top-1/2 -translate-y-1/2 w-3 h-3 text-ink/30 pointer-events-none" />
             </div>
+            <div className="relative shrink-0">
+              <button
+                onClick={() => setExtraTargetsMenuOpen((o) => !o)}
+                disabled={isTranslating}
+                className={`flex items-center gap-1 px-2.5 py-1.5 text-[11px] sm:text-xs font-sans font-medium rounded-full border transition-colors disabled:opacity-40 touch-manipulation ${
+                  extraTargetsFor(targetLang).length > 0
+                    ? "border-vibrant-1/40 text-vibrant-1 bg-vibrant-1/5"
+                    : "border-ink/10 text-ink/40 hover:text-ink hover:border-ink/20"
+                }`}
+                title="同时译成其他语言：一次任务产出多种译文，阅读器并排显示"
+                aria-label="同时译成其他语言"
+                aria-expanded={extraTargetsMenuOpen}
+              >
+                <Columns3 className="w-3.5 h-3.5" />
+                {extraTargetsFor(targetLang).length > 0 ? `+${extraTargetsFor(targetLang).length}` : null}
+              </button>
+              {extraTargetsMenuOpen && (
+                <div className="absolute right-0 top-full mt-2 w-56 z-[60] p-4 bg-white/95 backdrop-blur-2xl border border-ink/10 rounded-2xl shadow-xl">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="font-sans text-xs font-medium text-ink/60">同时译成</span>
+                    <button onClick={() => setExtraTargetsMenuOpen(false)} className="p-1 -m-1 rounded-full hover:bg-ink/5" aria-label="关闭">
+                      <X className="w-3.5 h-3.5 text-ink/40" />
+                    </button>
+                  </div>
+                  <div className="max-h-64 overflow-y-auto space-y-1">
+                    {ALL_TARGET_LANGS.filter((l) => isExtraTargetLanguage(l) && l !== targetLang).map((l) => (
+                      <label key={l} className="flex items-center gap-2 font-sans text-sm text-ink/70 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={extraTargetLangs.includes(l)}
+                          onChange={() => toggleExtraTargetLang(l)}
+                          className="accent-vibrant-1"
+                        />
+                        {TARGET_LANG_LABELS[l]}
+                      </label>
+                    ))}
+                  </div>
+                  <p className="mt-2 font-sans text-[10px] text-ink/40">
+                    最多 {MAX_EXTRA_TARGETS} 种，随下次导入 / 重译生效；译成 AKI码 时不可用
+                  </p>
+                </div>
+              )}
+            </div>
+            <div className="relative shrink-0">
+              <div className="flex items-center border border-ink/10 rounded-full hover:border-ink/20 transition-colors">
+                <select
+                  value={translationStyle}
+                  onChange={(e) => changeTranslationStyle(e.target.value as TranslationStyle)}
+                  disabled={isTranslating}
+                  title="译文文体：决定用词与语体（新翻译与重译时生效）"
+                  aria-label={`译文文体 ${TRANSLATION_STYLES[translationStyle].label}`}
+                  className="appearance-none bg-transparent pl-3 pr-1 py-1.5 text-[11px] sm:text-xs font-sans font-medium text-ink/60 hover:text-ink cursor-pointer outline-none disabled:opacity-40 disabled:pointer-events-none"
+                >
+                  {(Object.entries(TRANSLATION_STYLES) as [TranslationStyle, { label: string }][]).map(([k, v]) => (
+                    <option key={k} value={k}>
+                      {v.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setStyleMenuOpen((o) => !o)}
+                  disabled={isTranslating}
+                  className={`pl-1 pr-2.5 py-1.5 transition-colors disabled:opacity-40 touch-manipulation ${
+                    styleInstructions.trim() ? "text-vibrant-1" : "text-ink/30 hover:text-ink"
+                  }`}
+                  title="自定义翻译要求"
+                  aria-label="自定义翻译要求"
+                  aria-expanded={styleMenuOpen}
+                >
+                  <SlidersHorizontal className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              {styleMenuOpen && (
+                <div className="absolute right-0 top-full mt-2 w-72 z-[60] p-4 bg-white/95 backdrop-blur-2xl border border-ink/10 rounded-2xl shadow-xl">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="font-sans text-xs font-medium text-ink/60">自定义翻译要求</span>
+                    <button onClick={() => setStyleMenuOpen(false)} className="p-1 -m-1 rounded-full hover:bg-ink/5" aria-label="关闭">
+                      <X className="w-3.5 h-3.5 text-ink/40" />
+                    </button>
+                  </div>
+                  <textarea
+                    value={styleInstructions}
+                    onChange={(e) => changeStyleInstructions(e.target.value)}
+                    placeholder="例如：人名保留英文原文；对白用北京口语"
+                    maxLength={MAX_STYLE_INSTRUCTIONS_CHARS}
+                    className="w-full min-h-[84px] bg-transparent resize-y outline-none font-sans text-sm text-ink/80 placeholder:text-ink/30 border border-ink/10 rounded-xl p-2.5 focus:border-ink/30"
+                  />
+                  <p className="mt-1.5 font-sans text-[10px] text-ink/40">与所选文体一起随翻译请求发送，并保存到历史记录</p>
+                </div>
+              )}
+            </div>
+            <button
+              onClick={toggleConsistencyMode}
+              disabled={isTranslating}
+              className={`px-2.5 py-1.5 text-[11px] sm:text-xs font-sans font-medium rounded-full border transition-colors disabled:opacity-40 touch-manipulation ${
+                consistencyMode ? "border-vibrant-1/40 text-vibrant-1 bg-vibrant-1/5" : "border-ink/10 text-ink/40 hover:text-ink hover:border-ink/20"
+              }`}
+              title="一致性模式：长文翻译前先提炼全文摘要与人名、专名的统一译法，各部分共享，减少分段处的称谓与语气漂移（稍慢）"
+              aria-pressed={consistencyMode}
+            >
+              统一译名
+            </button>
+            <button
+              onClick={toggleVerseMode}
+              disabled={isTranslating}
+              className={`px-2.5 py-1.5 text-[11px] sm:text-xs font-sans font-medium rounded-full border transition-colors disabled:opacity-40 touch-manipulation ${
+                verseMode ? "border-vibrant-1/40 text-vibrant-1 bg-vibrant-1/5" : "border-ink/10 text-ink/40 hover:text-ink hover:border-ink/20"
+              }`}
+              title="诗歌模式：按空行分节，节内逐行对应翻译，阅读器按行对齐显示（适合诗歌、歌词）"
+              aria-pressed={verseMode}
+            >
+              诗歌
+            </button>
+            {verseMode && (
+              <button
+                onClick={toggleVerseNotesMode}
+                disabled={isTranslating}
+                className={`px-2.5 py-1.5 text-[11px] sm:text-xs font-sans font-medium rounded-full border transition-colors disabled:opacity-40 touch-manipulation ${
+                  verseNotesMode ? "border-vibrant-1/40 text-vibrant-1 bg-vibrant-1/5" : "border-ink/10 text-ink/40 hover:text-ink hover:border-ink/20"
+                }`}
+                title="格律说明：为每节附上原文与译文的韵式、格律或节奏说明"
+                aria-pressed={verseNotesMode}
+              >
+                格律
+              </button>
+            )}
+            <button
+              onClick={() => setGlossaryOpen(true)}
+              className="p-2 -m-2 rounded-full hover:bg-ink/5 transition-colors touch-manipulation"
+              title="术语表"
+              aria-label="术语表"
+            >
+              <BookMarked className="w-5 h-5 hover:text-vibrant-1 transition-colors" />
+            </button>
             <button
               onClick={handleExportDocx}
               className="p-2 -m-2 rounded-full hover:bg-ink/5 transition-colors disabled:opacity-30 touch-manipulation"
@@ -1676,10 +3075,22 @@ export default function App() {
               <span className="text-xs font-sans text-ink/40 shrink-0 tabular-nums min-w-[3rem] text-center">
                 {searchQuery.trim()
                   ? searchMatches.length > 0
-                    ? `${currentMatchIndex + 1}/${searchMatches.length}`
+                    ? searchBySentence
+                      ? `${currentSentenceStop + 1}/${searchSentenceStops.length} 句`
+                      : `${currentMatchIndex + 1}/${searchMatches.length}`
                     : "0/0"
                   : ""}
               </span>
+              <button
+                onClick={() => setSearchBySentence((v) => !v)}
+                className={`px-2 py-1 rounded-lg text-[11px] font-sans transition-colors ${
+                  searchBySentence ? "bg-ink/10 text-ink/70" : "text-ink/40 hover:bg-ink/5"
+                }`}
+                aria-pressed={searchBySentence}
+                title="按句跳转：同一句及其对应译句中的多处匹配只停一次，并高亮两栏的对应句"
+              >
+                按句
+              </button>
               <button
                 onClick={goToPrevMatch}
                 disabled={searchMatches.length === 0}
@@ -1730,7 +3141,7 @@ export default function App() {
                 <textarea
                   value={textInput}
                   onChange={(e) => setTextInput(e.target.value)}
-                  placeholder="输入学校 / 城市 / 专业 / 电影 / 歌手以触发彩蛋，或粘贴全文翻译…"
+                  placeholder="输入学校 / 城市 / 专业 / 电影 / 歌手以触发彩蛋，或粘贴全文翻译（不译的名称可用 {{ }} 包住）…"
                   className="w-full min-h-[160px] bg-transparent resize-y outline-none font-serif text-sm leading-relaxed text-ink/80 placeholder:text-ink/20"
                   autoFocus
                 />
@@ -1799,8 +3210,8 @@ export default function App() {
                   <div>
                     <h3 className="font-bold text-ink/90 text-xs uppercase tracking-widest mb-2">支持语言</h3>
                     <p>
-                      源语言由正文自动识别，无需手选。常见源文：英文、法文、德文、阿拉伯文、日文、繁体中文等。
-                      目标语可选：简体中文、繁体中文、English、日本語、法语、德语、阿拉伯语；亦可译为<strong>摩斯密码</strong>或<strong> AKI 码</strong>。
+                      源语言由正文自动识别，无需手选。支持英文、法文、德文、西班牙文、俄文、阿拉伯文、日文、韩文、繁体中文等二十种常见源文。
+                      目标语可选上述任一语言（「译成」下拉框）；亦可译为<strong>摩斯密码</strong>或<strong> AKI 码</strong>。
                     </p>
                   </div>
 
@@ -1810,6 +3221,10 @@ export default function App() {
                       <li className="flex gap-2"><span className="text-vibrant-1 font-bold shrink-0">·</span>翻译 — 顶栏「译成」选择目标语言；原文语种由正文自动识别</li>
                       <li className="flex gap-2"><span className="text-vibrant-1 font-bold shrink-0">·</span>文学分析 — 目标为自然语言时，自动生成双语摘要、叙事分析、核心主题、剧情梗概、人物介绍、写作优缺点</li>
                       <li className="flex gap-2"><span className="text-vibrant-1 font-bold shrink-0">·</span>批注 — 选中原文段落中的任意文本，添加批注（类似 Word 批注）</li>
+                      <li className="flex gap-2"><span className="text-vibrant-1 font-bold shrink-0">·</span>术语表 — 按语言对指定人名、地名等术语的译法，翻译时强制使用；未按术语表译出的段落会在译文下方标出</li>
+                      <li className="flex gap-2"><span className="text-vibrant-1 font-bold shrink-0">·</span>文体 — 「译成」旁可选文学、学术、技术、法律、口语、儿童等文体，并可填写自定义要求；随历史记录保存</li>
+                      <li className="flex gap-2"><span className="text-vibrant-1 font-bold shrink-0">·</span>多语译文 — 「译成」旁的分栏按钮可勾选最多两种附加语言，一次任务同时产出，阅读器并排显示，各栏可单独隐藏</li>
+                      <li className="flex gap-2"><span className="text-vibrant-1 font-bold shrink-0">·</span>翻译记忆 — 与历史记录中相似（75%–99%）的段落会参考旧译文翻译，并在译文下方显示匹配度，可一键采用旧译文</li>
                       <li className="flex gap-2"><span className="text-vibrant-1 font-bold shrink-0">·</span>导出 — 一键导出为 Word（.docx），批注保留为 Word 原生批注</li>
                       <li className="flex gap-2"><span className="text-vibrant-1 font-bold shrink-0">·</span>历史记录 — 自动保存，支持本地或云端同步</li>
                     </ul>
@@ -1904,6 +3319,13 @@ export default function App() {
                           <p className="font-serif-zh font-medium text-ink truncate">{item.title.zh || item.title.en || "无标题"}</p>
                           <p className="text-xs text-ink/50 mt-0.5 font-sans">
                             {item.author.zh || item.author.en || "—"} · {new Date(item.createdAt).toLocaleDateString("zh-CN")}
+                            {item.usage ? (
+                              <span
+                                title={`输入 ${item.usage.promptTokens} · 输出 ${item.usage.completionTokens} tokens，共 ${item.usage.calls} 次模型调用`}
+                              >
+                                {" "}· {formatTokenCount(item.usage.totalTokens)} tokens
+                              </span>
+                            ) : null}
                             {isHistoryAdmin && item.username && (
                               <span
                                 className="block text-[10px] text-ink/35 truncate mt-0.5"
@@ -1992,6 +3414,14 @@ export default function App() {
                   {progress?.percent ?? 0}%
                 </p>
               ) : null}
+              <button
+                type="button"
+                onClick={cancelTranslation}
+                className="mt-6 mx-auto flex items-center gap-1.5 px-4 py-1.5 rounded-full border border-ink/15 font-sans text-xs text-ink/60 hover:text-ink hover:border-ink/30 transition-colors"
+              >
+                <X className="w-3.5 h-3.5" />
+                取消翻译
+              </button>
             </div>
           </div>
         )}
@@ -2007,11 +3437,22 @@ export default function App() {
                 transition={{ duration: 0.3, ease: "easeOut" }}
               />
             </div>
-            <p className="mt-2 font-sans text-xs text-ink/50 text-center">
-              {progress?.step?.includes("加载中")
-                ? progress?.step ?? "加载中…"
-                : `${progress?.step ?? "翻译中..."} ${progress?.percent ?? 0}%`}
-            </p>
+            <div className="mt-2 flex items-center justify-center gap-3">
+              <p className="font-sans text-xs text-ink/50 text-center">
+                {progress?.step?.includes("加载中")
+                  ? progress?.step ?? "加载中…"
+                  : `${progress?.step ?? "翻译中..."} ${progress?.percent ?? 0}%`}
+              </p>
+              <button
+                type="button"
+                onClick={cancelTranslation}
+                className="flex items-center gap-1 font-sans text-xs text-ink/40 hover:text-ink transition-colors"
+                title="停止翻译，服务端剩余的分块也不再调用模型"
+              >
+                <X className="w-3 h-3" />
+                取消
+              </button>
+            </div>
           </div>
         )}
 
@@ -2026,35 +3467,137 @@ export default function App() {
               </h2>
             </div>
 
+            {!isTranslating && missingParagraphIndexes.length > 0 && (
+              <div className="mb-8 p-4 bg-white/60 backdrop-blur-md border border-red-200 rounded-2xl flex flex-wrap items-center justify-between gap-3 font-sans text-sm text-red-800">
+                <span className="flex items-center gap-2">
+                  <AlertCircle className="w-4 h-4 text-red-500" />
+                  {missingParagraphIndexes.length} 段未译出，已保留原文
+                </span>
+                <button
+                  type="button"
+                  onClick={() => void retryFailedParagraphs()}
+                  className="px-3 py-1.5 rounded-full border border-red-300 text-red-700 hover:bg-red-50 transition-colors"
+                >
+                  重试失败段落
+                </button>
+              </div>
+            )}
+
+            {canRunQa && !isTranslating && (
+              <div className="mb-8 flex flex-wrap items-center gap-3 font-sans text-xs text-ink/50">
+                <button
+                  type="button"
+                  onClick={() => void runQualityCheck()}
+                  disabled={qaRunning}
+                  className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full border border-ink/15 text-ink/70 hover:bg-ink/5 transition-colors disabled:opacity-50"
+                  title="把译文逐段译回原文语言，与原文比对相似度（chrF），找出可能漏译、误译的段落"
+                >
+                  {qaRunning ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <ShieldCheck className="w-3.5 h-3.5" />}
+                  {qaRunning ? "质检中…" : qaSummary ? "重新质检" : "回译质检"}
+                </button>
+                {qaSummary && (
+                  <>
+                    <span>
+                      平均相似度 {qaSummary.average} · {qaSummary.flagged} 段低于 {QA_SCORE_GOOD}
+                    </span>
+                    <label className="inline-flex items-center gap-1.5 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={qaLowOnly}
+                        onChange={(e) => setQaLowOnly(e.target.checked)}
+                        className="accent-current"
+                      />
+                      只看低分段落
+                    </label>
+                  </>
+                )}
+              </div>
+            )}
+
             <article className="space-y-10 md:space-y-16">
-              {/* Column labels */}
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 sm:gap-12 md:gap-24 mb-2">
-                <div>
-                  <span className="font-sans text-[10px] uppercase tracking-[0.4em] font-bold opacity-30">
-                    {akiDecodeLayout ? "AKI码" : SOURCE_LANG_LABELS[contentPairSourceLang ?? sourceLang] || "Source"}
-                  </span>
-                </div>
-                <div className="flex items-center justify-between gap-3 min-h-[1.25rem]">
-                  <span className="font-sans text-[10px] uppercase tracking-[0.4em] font-bold opacity-30 shrink-0">
-                    {akiDecodeLayout ? "简体中文" : TARGET_LANG_LABELS[contentPairTargetLang]}
-                  </span>
-                  {contentPairTargetLang === "aki" && content.length > 0 ? (
-                    <button
-                      type="button"
-                      onClick={() => void copyFullAkiColumn()}
-                      className="shrink-0 px-3 py-1.5 bg-ink text-paper text-[10px] font-sans font-bold uppercase tracking-wider rounded-full hover:bg-vibrant-1 transition-colors"
-                      title="复制 AKI 密文与本站链接（不含彩蛋说明文字）"
-                      aria-label="复制 AKI 密文与网站链接"
-                    >
-                      复制
-                    </button>
-                  ) : null}
+              {/* 多语译文时可逐栏显示 / 隐藏，至少保留一栏 */}
+              {contentExtraLangs.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 font-sans text-[11px] -mb-4 md:-mb-8">
+                  <Columns3 className="w-3.5 h-3.5 text-ink/30" />
+                  {[
+                    { key: "source", label: SOURCE_LANG_LABELS[contentPairSourceLang ?? sourceLang] || "Source" },
+                    { key: contentPairTargetLang as string, label: TARGET_LANG_LABELS[contentPairTargetLang] },
+                    ...contentExtraLangs.map((l) => ({ key: l as string, label: TARGET_LANG_LABELS[l] })),
+                  ].map(({ key, label }) => {
+                    const shown = !hiddenColumns.has(key);
+                    return (
+                      <button
+                        key={key}
+                        type="button"
+                        onClick={() => toggleColumn(key)}
+                        disabled={shown && readerColumnCount === 1}
+                        className={`px-2.5 py-1 rounded-full border transition-colors disabled:cursor-not-allowed ${
+                          shown ? "border-ink/20 text-ink/70 bg-ink/5" : "border-ink/10 text-ink/30 line-through hover:text-ink/60"
+                        }`}
+                        aria-pressed={shown}
+                        title={shown ? `隐藏「${label}」栏` : `显示「${label}」栏`}
+                      >
+                        {label}
+                      </button>
+                    );
+                  })}
                 </div>
+              )}
+              {/* Column labels */}
+              <div className={`${readerGridClass} gap-6 sm:gap-12 mb-2`}>
+                {showSourceColumn && (
+                  <div>
+                    <span className="font-sans text-[10px] uppercase tracking-[0.4em] font-bold opacity-30">
+                      {akiDecodeLayout ? "AKI码" : SOURCE_LANG_LABELS[contentPairSourceLang ?? sourceLang] || "Source"}
+                    </span>
+                  </div>
+                )}
+                {showTargetColumn && (
+                  <div className="flex items-center justify-between gap-3 min-h-[1.25rem]">
+                    <span className="font-sans text-[10px] uppercase tracking-[0.4em] font-bold opacity-30 shrink-0">
+                      {akiDecodeLayout ? "简体中文" : TARGET_LANG_LABELS[contentPairTargetLang]}
+                    </span>
+                    {contentPairTargetLang === "aki" && content.length > 0 ? (
+                      <button
+                        type="button"
+                        onClick={() => void copyFullAkiColumn()}
+                        className="shrink-0 px-3 py-1.5 bg-ink text-paper text-[10px] font-sans font-bold uppercase tracking-wider rounded-full hover:bg-vibrant-1 transition-colors"
+                        title="复制 AKI 密文与本站链接（不含彩蛋说明文字）"
+                        aria-label="复制 AKI 密文与网站链接"
+                      >
+                        复制
+                      </button>
+                    ) : null}
+                  </div>
+                )}
+                {visibleExtraLangs.map((lang) => (
+                  <div key={lang}>
+                    <span className="font-sans text-[10px] uppercase tracking-[0.4em] font-bold opacity-30">
+                      {TARGET_LANG_LABELS[lang]}
+                    </span>
+                  </div>
+                ))}
               </div>
               {content.map((pair, paraIndex) => {
                 const paraAnns = getParaAnnotations(paraIndex);
                 const activeAnn = activeAnnotationId ? annotations.find((a) => a.id === activeAnnotationId && a.paraIndex === paraIndex) : null;
                 const hasPending = pendingSelection?.paraIndex === paraIndex;
+                const memoryMatch = pendingParagraphs.has(paraIndex) ? undefined : memoryMatchesByPara.get(paraIndex);
+                const qa = qaByPara.get(paraIndex);
+                if (qaLowOnly && qaSummary && !(qa && qa.score < QA_SCORE_GOOD)) return null;
+                const sourceText = getOriginalColumnText(pair, contentPairTargetLang);
+                const targetText = getTranslatedColumnText(pair, contentPairTargetLang);
+                // 诗节按行对齐：行数取各栏最多者，页脚（提示与工具）放在最后一行之后
+                const verseRowCount =
+                  pair.verse && !pendingParagraphs.has(paraIndex) && !missingParagraphSet.has(paraIndex)
+                    ? Math.max(
+                        ...[sourceText, targetText, ...visibleExtraLangs.map((lang) => pair.extra?.[lang] ?? "")].map(
+                          (t) => t.split("\n").length
+                        )
+                      )
+                    : 0;
+                const sourceColumn = showSourceColumn ? 1 : 0;
+                const targetColumn = sourceColumn + (showTargetColumn ? 1 : 0);
 
                 return (
                 <motion.div
@@ -2064,39 +3607,335 @@ export default function App() {
                   viewport={{ once: true, margin: "-50px" }}
                   transition={{ duration: 1.5, ease: [0.22, 1, 0.36, 1] }}
                 >
-                  <div className="relative grid grid-cols-1 md:grid-cols-2 gap-8 sm:gap-12 md:gap-24 items-start">
+                  <div className={`relative ${readerGridClass} gap-8 sm:gap-12 items-start${verseRowCount ? " verse-stanza" : ""}`}>
+                    {/* 回译质检色条 */}
+                    {qa && (
+                      <button
+                        type="button"
+                        onClick={() => setOpenQaPara(openQaPara === paraIndex ? null : paraIndex)}
+                        className={`absolute -left-3 md:-left-6 top-1 bottom-1 w-1.5 rounded-full hover:w-2 transition-all ${QA_GUTTER_CLASS[qaLevel(qa.score)]}`}
+                        title={`回译相似度 ${qa.score}（chrF），点击查看回译`}
+                        aria-label={`回译相似度 ${qa.score}`}
+                        aria-expanded={openQaPara === paraIndex}
+                      />
+                    )}
                     {/* 原文 — 选字批注 */}
-                    <div
-                      className={`content-text whitespace-pre-wrap text-ink/80 ${akiDecodeLayout ? "font-mono text-sm tracking-tight" : ""}`}
-                      data-para-original={paraIndex}
-                      onMouseUp={() => handleTextSelect(paraIndex)}
-                    >
-                      {renderAnnotatedText(
-                        getOriginalColumnText(pair, contentPairTargetLang),
-                        paraIndex
+                    {showSourceColumn && (
+                      <div
+                        className={`content-text whitespace-pre-wrap text-ink/80 ${akiDecodeLayout ? "font-mono text-sm tracking-tight" : ""}${
+                          verseRowCount ? " verse-column" : ""
+                        }`}
+                        data-para-original={paraIndex}
+                        onMouseUp={() => handleTextSelect(paraIndex)}
+                      >
+                        {verseRowCount
+                          ? renderVerseLines(sourceText, sourceColumn, (from, to) => renderAnnotatedText(sourceText, paraIndex, from, to))
+                          : renderAnnotatedText(sourceText, paraIndex)}
+                      </div>
+                    )}
+
+                    {/* 译文 */}
+                    {showTargetColumn && (
+                      <div
+                        className={`content-text whitespace-pre-wrap ${
+                          akiDecodeLayout
+                            ? "content-text-zh"
+                            : contentPairTargetLang === "morse" || contentPairTargetLang === "aki"
+                              ? "font-mono text-sm tracking-tight"
+                              : "content-text-zh"
+                        }${unalignedParagraphs.has(paraIndex) ? " border-l-2 border-orange-300/70 pl-3" : ""}${verseRowCount ? " verse-column" : ""}`}
+                        dir={isRtlLanguage(contentPairTargetLang) ? "rtl" : undefined}
+                        data-aki-translated={contentPairTargetLang === "aki" ? "1" : undefined}
+                        onCopy={handleAkiTranslatedCopy}
+                      >
+                        {pendingParagraphs.has(paraIndex) && streamingTexts.get(paraIndex) ? (
+                          <span className="text-ink/60">
+                            {streamingTexts.get(paraIndex)}
+                            <Loader2 className="inline-block w-3 h-3 ml-1.5 align-baseline animate-spin text-ink/30" />
+                          </span>
+                        ) : pendingParagraphs.has(paraIndex) ? (
+                          <span className="inline-flex items-center gap-2 font-sans text-xs text-ink/30 animate-pulse">
+                            <Loader2 className="w-3 h-3 animate-spin" />
+                            翻译中…
+                          </span>
+                        ) : missingParagraphSet.has(paraIndex) ? (
+                          <span className="inline-flex items-center gap-2 font-sans text-xs text-red-400">
+                            <AlertCircle className="w-3 h-3" />
+                            本段未译出
+                          </span>
+                        ) : verseRowCount ? (
+                          renderVerseLines(targetText, targetColumn, (from, to) =>
+                            renderSentenceText(targetText.slice(from, to), paraIndex, pairLayoutTranslatedField, from)
+                          )
+                        ) : (
+                          renderSentenceText(targetText, paraIndex, pairLayoutTranslatedField)
+                        )}
+                        <div
+                          className={verseRowCount ? "verse-cell" : undefined}
+                          style={verseRowCount ? verseCellStyle(verseRowCount + 1, targetColumn) : undefined}
+                        >
+                          {unalignedParagraphs.has(paraIndex) && !missingParagraphSet.has(paraIndex) && (
+                            <span className="mt-2 flex items-start gap-1.5 font-sans text-[11px] leading-snug text-orange-700/80" dir="ltr">
+                              <AlertCircle className="w-3 h-3 mt-0.5 shrink-0" />
+                              {pair.verse
+                                ? "逐行对应存疑：本节译文的行数与原文不符，部分诗行可能错位"
+                                : "段落对齐存疑：模型返回的段落数或长度异常，本段译文可能与原文错位"}
+                            </span>
+                          )}
+                          {(pair.verse?.rhyme || pair.verse?.meter) && !pendingParagraphs.has(paraIndex) && (
+                            <span className="mt-2 flex items-start gap-1.5 font-sans text-[11px] leading-snug text-ink/40" dir="ltr">
+                              <Music className="w-3 h-3 mt-0.5 shrink-0" />
+                              {[pair.verse.rhyme && `韵式 ${pair.verse.rhyme}`, pair.verse.meter && `格律 ${pair.verse.meter}`]
+                                .filter(Boolean)
+                                .join(" · ")}
+                            </span>
+                          )}
+                          {glossaryIssuesByPara.has(paraIndex) && (
+                            <span className="mt-2 flex items-start gap-1.5 font-sans text-[11px] leading-snug text-amber-700/80" dir="ltr">
+                              <BookMarked className="w-3 h-3 mt-0.5 shrink-0" />
+                              术语未按术语表译出：
+                              {glossaryIssuesByPara
+                                .get(paraIndex)!
+                                .map((g) => `${g.source} → ${g.target}`)
+                                .join("；")}
+                            </span>
+                          )}
+                          {unpreservedSpansByPara.has(paraIndex) && (
+                            <span className="mt-2 flex items-start gap-1.5 font-sans text-[11px] leading-snug text-amber-700/80 break-all" dir="ltr">
+                              <Lock className="w-3 h-3 mt-0.5 shrink-0" />
+                              以下内容未原样保留：{unpreservedSpansByPara.get(paraIndex)!.join("；")}
+                            </span>
+                          )}
+                          {memoryMatch && (
+                            <span className="mt-2 block font-sans text-[11px] leading-snug text-sky-700/80" dir="ltr">
+                              <button
+                                type="button"
+                                onClick={() => setOpenMemoryPara(openMemoryPara === paraIndex ? null : paraIndex)}
+                                className="inline-flex items-center gap-1.5 hover:text-sky-900 transition-colors"
+                                aria-expanded={openMemoryPara === paraIndex}
+                              >
+                                <HistoryIcon className="w-3 h-3 shrink-0" />
+                                翻译记忆 {Math.round(memoryMatch.score * 100)}%
+                              </button>
+                              {openMemoryPara === paraIndex && (
+                                <span className="mt-2 block rounded-xl border border-sky-200/70 bg-sky-50/60 p-3 whitespace-pre-wrap text-ink/70">
+                                  <span className="block text-ink/40">旧原文</span>
+                                  {memoryMatch.source}
+                                  <span className="mt-2 block text-ink/40">旧译文</span>
+                                  {memoryMatch.translation}
+                                  <button
+                                    type="button"
+                                    onClick={() => adoptMemoryTranslation(paraIndex, memoryMatch)}
+                                    className="mt-3 block px-3 py-1 rounded-full bg-ink text-paper hover:bg-vibrant-1 transition-colors"
+                                  >
+                                    采用旧译文
+                                  </button>
+                                </span>
+                              )}
+                            </span>
+                          )}
+                          {paragraphToolsSupported &&
+                            !isTranslating &&
+                            !pendingParagraphs.has(paraIndex) &&
+                            !missingParagraphSet.has(paraIndex) &&
+                            alternatives?.paraIndex !== paraIndex &&
+                            retranslating?.paraIndex !== paraIndex && (
+                              <span className="mt-2 flex flex-wrap gap-x-4 gap-y-1 font-sans text-[11px] leading-snug text-ink/30" dir="ltr">
+                                <button
+                                  type="button"
+                                  onClick={() => void requestAlternatives(paraIndex, DEFAULT_ALTERNATIVES)}
+                                  className="inline-flex items-center gap-1.5 hover:text-ink/70 transition-colors"
+                                  title="结合前后段落生成几种不同译法，并排比较后择一替换"
+                                >
+                                  <Columns3 className="w-3 h-3 shrink-0" />
+                                  候选译法
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={() => openRetranslate(paraIndex)}
+                                  className="inline-flex items-center gap-1.5 hover:text-ink/70 transition-colors"
+                                  title="只重译这一段，可附改译要求"
+                                >
+                                  <PenLine className="w-3 h-3 shrink-0" />
+                                  改译此段
+                                </button>
+                                {(paragraphUndo.get(paraIndex)?.length ?? 0) > 0 && (
+                                  <button
+                                    type="button"
+                                    onClick={() => undoParagraphTranslation(paraIndex)}
+                                    className="inline-flex items-center gap-1.5 hover:text-ink/70 transition-colors"
+                                    title="恢复替换前的译文"
+                                  >
+                                    <Undo2 className="w-3 h-3 shrink-0" />
+                                    撤销改译
+                                  </button>
+                                )}
+                              </span>
+                            )}
+                        </div>
+                      </div>
+                    )}
+
+                    {/* 附加译文（同时译成） */}
+                    {visibleExtraLangs.map((lang, k) => (
+                      <div
+                        key={lang}
+                        className={`content-text content-text-zh whitespace-pre-wrap${verseRowCount ? " verse-column" : ""}`}
+                        dir={isRtlLanguage(lang) ? "rtl" : undefined}
+                      >
+                        {pendingParagraphs.has(paraIndex) ? (
+                          <span className="inline-flex items-center gap-2 font-sans text-xs text-ink/30 animate-pulse">
+                            <Loader2 className="w-3 h-3 animate-spin" />
+                            翻译中…
+                          </span>
+                        ) : pair.extra?.[lang]?.trim() ? (
+                          verseRowCount ? (
+                            renderVerseLines(pair.extra[lang], targetColumn + k + 1, (from, to) => pair.extra![lang]!.slice(from, to))
+                          ) : (
+                            pair.extra[lang]
+                          )
+                        ) : (
+                          <span
+                            className={`font-sans text-xs text-ink/25${verseRowCount ? " verse-cell" : ""}`}
+                            style={verseRowCount ? verseCellStyle(1, targetColumn + k + 1) : undefined}
+                          >
+                            —
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+
+                  {alternatives?.paraIndex === paraIndex && (
+                    <div className="mt-4 p-4 bg-white/60 backdrop-blur-md border border-ink/10 rounded-2xl font-sans">
+                      <div className="mb-3 flex flex-wrap items-center gap-2 text-[11px] text-ink/50">
+                        <span className="font-bold uppercase tracking-wider text-ink/40">候选译法</span>
+                        {Array.from({ length: MAX_ALTERNATIVES - MIN_ALTERNATIVES + 1 }, (_, i) => MIN_ALTERNATIVES + i).map((n) => (
+                          <button
+                            key={n}
+                            type="button"
+                            onClick={() => void requestAlternatives(paraIndex, n)}
+                            disabled={alternatives.items === null}
+                            className={`px-2 py-0.5 rounded-full border transition-colors disabled:opacity-40 ${
+                              alternatives.count === n ? "border-ink/30 bg-ink/5 text-ink/70" : "border-ink/10 hover:text-ink/70"
+                            }`}
+                            title={`生成 ${n} 种译法`}
+                          >
+                            {n} 种
+                          </button>
+                        ))}
+                        <button
+                          type="button"
+                          onClick={() => void requestAlternatives(paraIndex, alternatives.count)}
+                          disabled={alternatives.items === null}
+                          className="px-2 py-0.5 rounded-full border border-ink/10 hover:text-ink/70 transition-colors disabled:opacity-40"
+                        >
+                          换一批
+                        </button>
+                        <button
+                          type="button"
+                          onClick={closeAlternatives}
+                          className="ml-auto p-1 text-ink/30 hover:text-ink transition-colors"
+                          aria-label="关闭候选译法"
+                        >
+                          <X className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                      {alternatives.items === null ? (
+                        <span className="inline-flex items-center gap-2 text-xs text-ink/40">
+                          <Loader2 className="w-3 h-3 animate-spin" />
+                          正在生成候选译法…
+                        </span>
+                      ) : (
+                        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+                          <div className="p-3 rounded-xl border border-dashed border-ink/15 text-sm text-ink/60">
+                            <span className="block mb-1 text-[10px] text-ink/35">现有译文</span>
+                            <span className="block whitespace-pre-wrap" dir={isRtlLanguage(contentPairTargetLang) ? "rtl" : undefined}>
+                              {getTranslatedColumnText(pair, contentPairTargetLang)}
+                            </span>
+                          </div>
+                          {alternatives.items.map((alt, i) => (
+                            <div key={i} className="p-3 rounded-xl border border-ink/10 bg-white/70 text-sm text-ink/80 flex flex-col gap-2">
+                              {alt.note && <span className="text-[10px] text-ink/40">{alt.note}</span>}
+                              <span className="block whitespace-pre-wrap flex-1" dir={isRtlLanguage(contentPairTargetLang) ? "rtl" : undefined}>
+                                {alt.translation}
+                              </span>
+                              <button
+                                type="button"
+                                onClick={() => adoptAlternative(paraIndex, alt.translation)}
+                                className="self-start px-3 py-1 rounded-full bg-ink text-paper text-[11px] hover:bg-vibrant-1 transition-colors"
+                              >
+                                采用
+                              </button>
+                            </div>
+                          ))}
+                        </div>
                       )}
                     </div>
+                  )}
 
-                    {/* 译文 */}
-                    <div
-                      className={`content-text whitespace-pre-wrap ${
-                        akiDecodeLayout
-                          ? "content-text-zh"
-                          : contentPairTargetLang === "morse" || contentPairTargetLang === "aki"
-                            ? "font-mono text-sm tracking-tight"
-                            : "content-text-zh"
-                      }`}
-                      dir={contentPairTargetLang === "ar" ? "rtl" : undefined}
-                      data-aki-translated={contentPairTargetLang === "aki" ? "1" : undefined}
-                      onCopy={handleAkiTranslatedCopy}
+                  {retranslating?.paraIndex === paraIndex && (
+                    <form
+                      className="mt-4 p-4 bg-white/60 backdrop-blur-md border border-ink/10 rounded-2xl font-sans"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        void retranslateParagraph(paraIndex, retranslating.instruction);
+                      }}
                     >
-                      {renderSearchHighlightedText(
-                        getTranslatedColumnText(pair, contentPairTargetLang),
-                        paraIndex,
-                        pairLayoutTranslatedField
-                      )}
+                      <div className="mb-3 flex flex-wrap items-center gap-2 text-[11px] text-ink/50">
+                        <span className="font-bold uppercase tracking-wider text-ink/40">改译此段</span>
+                        {RETRANSLATE_PRESETS.map((preset) => (
+                          <button
+                            key={preset}
+                            type="button"
+                            onClick={() => setRetranslating({ ...retranslating, instruction: preset })}
+                            disabled={retranslating.running}
+                            className={`px-2 py-0.5 rounded-full border transition-colors disabled:opacity-40 ${
+                              retranslating.instruction === preset ? "border-ink/30 bg-ink/5 text-ink/70" : "border-ink/10 hover:text-ink/70"
+                            }`}
+                          >
+                            {preset}
+                          </button>
+                        ))}
+                        <button
+                          type="button"
+                          onClick={closeRetranslate}
+                          className="ml-auto p-1 text-ink/30 hover:text-ink transition-colors"
+                          aria-label="关闭改译"
+                        >
+                          <X className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <input
+                          value={retranslating.instruction}
+                          onChange={(e) => setRetranslating({ ...retranslating, instruction: e.target.value })}
+                          maxLength={MAX_REVISION_INSTRUCTION_CHARS}
+                          disabled={retranslating.running}
+                          placeholder="改译要求（可留空），如：保留原文的双关"
+                          className="flex-1 min-w-0 bg-transparent border-b border-ink/10 py-1 outline-none text-sm text-ink/80 placeholder:text-ink/30 disabled:opacity-50"
+                          autoFocus
+                        />
+                        <button
+                          type="submit"
+                          disabled={retranslating.running}
+                          className="inline-flex items-center gap-1.5 px-3 py-1 rounded-full bg-ink text-paper text-[11px] hover:bg-vibrant-1 transition-colors disabled:opacity-50"
+                        >
+                          {retranslating.running && <Loader2 className="w-3 h-3 animate-spin" />}
+                          {retranslating.running ? "重译中…" : "重译"}
+                        </button>
+                      </div>
+                    </form>
+                  )}
+
+                  {qa && openQaPara === paraIndex && (
+                    <div className="mt-4 rounded-xl border border-ink/10 bg-white/60 p-3 font-sans text-[11px] leading-snug text-ink/70 whitespace-pre-wrap">
+                      <span className="block mb-1 text-ink/40">
+                        回译（{SOURCE_LANG_LABELS[contentPairSourceLang ?? sourceLang]}）· 相似度 {qa.score}
+                      </span>
+                      {qa.backTranslation}
                     </div>
-                  </div>
+                  )}
 
                   {/* New annotation panel — after selecting text */}
                   <AnimatePresence>
@@ -2264,12 +4103,30 @@ export default function App() {
         <div className="mt-24 sm:mt-40 md:mt-48" />
       </main>
 
+      <GlossaryPanel
+        open={glossaryOpen}
+        onClose={() => setGlossaryOpen(false)}
+        terms={glossary}
+        sourceLangOptions={Object.fromEntries(ALL_SOURCE_LANGS.map((l) => [l, SOURCE_LANG_LABELS[l]]))}
+        targetLangOptions={Object.fromEntries(
+          ALL_TARGET_LANGS.filter((l) => !getLanguage(l)?.pivot).map((l) => [l, TARGET_LANG_LABELS[l]])
+        )}
+        defaultSourceLang={content.length > 0 && contentPairSourceLang && contentPairSourceLang !== "aki" ? contentPairSourceLang : sourceLang}
+        defaultTargetLang={(() => {
+          const t = content.length > 0 ? contentPairTargetLang : targetLang;
+          return t === "morse" || t === "aki" ? "zh" : t;
+        })()}
+        onAdd={addGlossaryTerm}
+        onRemove={removeGlossaryTerm}
+      />
+
       <FloatingTextFollowup
         hasContent={content.length > 0}
         content={content}
         analysis={analysis}
         title={title}
         author={author}
+        getApiToken={auth.getApiToken}
       />
     </div>
   );
@@ -5,6 +5,7 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { MessageSquarePlus, X, Send, Bot, AlertCircle, Minimize2 } from 'lucide-react';
+import { quotaExceededMessage, readQuotaExceeded } from '../lib/quota';
 
 export interface Message {
   id: string;
@@ -20,6 +21,8 @@ export interface FloatingTextFollowupProps {
   analysis: unknown;
   title: { en: string; zh: string };
   author: { en: string; zh: string };
+  /** 返回当前会话 Token，用于服务端按用户记录用量 */
+  getApiToken?: () => Promise<string | null>;
 }
 
 export const FloatingTextFollowup: React.FC<FloatingTextFollowupProps> = ({
@@ -28,6 +31,7 @@ export const FloatingTextFollowup: React.FC<FloatingTextFollowupProps> = ({
   analysis,
   title,
   author,
+  getApiToken,
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [inputValue, setInputValue] = useState('');
@@ -77,9 +81,12 @@ export const FloatingTextFollowup: React.FC<FloatingTextFollowupProps> = ({
             : { role: 'assistant' as const, zh: m.zh, en: m.en }
         )
         .slice(-16);
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      const token = getApiToken ? await getApiToken() : null;
+      if (token) headers.Authorization = `Bearer ${token}`;
       const res = await fetch('/api/text-followup', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers,
         body: JSON.stringify({
           question: userText,
           content,
@@ -92,7 +99,8 @@ export const FloatingTextFollowup: React.FC<FloatingTextFollowupProps> = ({
 
       const data = (await res.json().catch(() => ({}))) as { reply?: { zh: string; en: string }; error?: string };
       if (!res.ok) {
-        throw new Error(data.error || `请求失败 (${res.status})`);
+        const quota = readQuotaExceeded(data);
+        throw new Error(quota ? quotaExceededMessage(quota) : data.error || `请求失败 (${res.status})`);
       }
       const zh = data.reply?.zh?.trim() || '';
       const en = data.reply?.en?.trim() || '';
@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { X, Trash2, Plus } from 'lucide-react';
+import type { GlossaryTerm } from '../lib/glossary';
+
+export interface GlossaryPanelProps {
+  open: boolean;
+  onClose: () => void;
+  terms: GlossaryTerm[];
+  sourceLangOptions: Record<string, string>;
+  targetLangOptions: Record<string, string>;
+  /** 打开时默认展示的语言对（当前正文或顶栏选择） */
+  defaultSourceLang: string;
+  defaultTargetLang: string;
+  onAdd: (term: { sourceLang: string; targetLang: string; source: string; target: string }) => void;
+  onRemove: (id: string) => void;
+}
+
+export const GlossaryPanel: React.FC<GlossaryPanelProps> = ({
+  open,
+  onClose,
+  terms,
+  sourceLangOptions,
+  targetLangOptions,
+  defaultSourceLang,
+  defaultTargetLang,
+  onAdd,
+  onRemove,
+}) => {
+  const [pair, setPair] = useState<{ sourceLang: string; targetLang: string } | null>(null);
+  const [sourceTerm, setSourceTerm] = useState('');
+  const [targetTerm, setTargetTerm] = useState('');
+
+  const sourceLang = pair?.sourceLang ?? defaultSourceLang;
+  const targetLang = pair?.targetLang ?? defaultTargetLang;
+  const visible = terms.filter((t) => t.sourceLang === sourceLang && t.targetLang === targetLang);
+
+  const handleAdd = () => {
+    const source = sourceTerm.trim();
+    const target = targetTerm.trim();
+    if (!source || !target) return;
+    onAdd({ sourceLang, targetLang, source, target });
+    setSourceTerm('');
+    setTargetTerm('');
+  };
+
+  const handleClose = () => {
+    setPair(null);
+    onClose();
+  };
+
+  const selectClass =
+    'appearance-none bg-transparent px-3 py-1.5 text-xs font-sans text-ink/70 border border-ink/10 rounded-full outline-none hover:border-ink/20';
+  const inputClass =
+    'min-w-0 flex-1 bg-white/70 px-3 py-2 text-sm font-sans text-ink border border-ink/10 rounded-xl outline-none focus:border-ink/30';
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <>
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={handleClose}
+            className="fixed inset-0 bg-ink/20 backdrop-blur-sm z-[80]"
+          />
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            transition={{ duration: 0.3, ease: [0.22, 1, 0.36, 1] }}
+            className="fixed inset-0 z-[90] flex items-center justify-center p-3 sm:p-6 pointer-events-none"
+          >
+            <div className="pointer-events-auto w-full max-w-lg max-h-[min(85dvh,36rem)] sm:max-h-[80vh] overflow-y-auto bg-white/95 backdrop-blur-2xl border border-ink/10 rounded-3xl sm:rounded-[2.5rem] shadow-2xl p-6 sm:p-10">
+              <div className="flex justify-between items-start mb-6">
+                <div>
+                  <h2 className="font-serif text-2xl font-bold text-ink">术语表</h2>
+                  <p className="font-sans text-xs text-ink/50 mt-1 tracking-wide">
+                    翻译时按指定译法处理人名、地名等术语；未按术语表译出的段落会在正文中标出
+                  </p>
+                </div>
+                <button onClick={handleClose} className="p-2 -m-2 rounded-full hover:bg-ink/5" aria-label="关闭">
+                  <X className="w-5 h-5 text-ink/40" />
+                </button>
+              </div>
+
+              <div className="flex items-center gap-2 mb-5 font-sans text-xs text-ink/50">
+                <select
+                  value={sourceLang}
+                  onChange={(e) => setPair({ sourceLang: e.target.value, targetLang })}
+                  className={selectClass}
+                  aria-label="原文语言"
+                >
+                  {Object.entries(sourceLangOptions).map(([k, v]) => (
+                    <option key={k} value={k}>
+                      {v}
+                    </option>
+                  ))}
+                </select>
+                <span>→</span>
+                <select
+                  value={targetLang}
+                  onChange={(e) => setPair({ sourceLang, targetLang: e.target.value })}
+                  className={selectClass}
+                  aria-label="译文语言"
+                >
+                  {Object.entries(targetLangOptions).map(([k, v]) => (
+                    <option key={k} value={k}>
+                      {v}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex items-center gap-2 mb-6">
+                <input
+                  value={sourceTerm}
+                  onChange={(e) => setSourceTerm(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                  placeholder="原文术语"
+                  className={inputClass}
+                />
+                <input
+                  value={targetTerm}
+                  onChange={(e) => setTargetTerm(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                  placeholder="指定译法"
+                  className={inputClass}
+                />
+                <button
+                  onClick={handleAdd}
+                  disabled={!sourceTerm.trim() || !targetTerm.trim()}
+                  className="p-2 bg-ink text-paper rounded-full hover:bg-vibrant-1 transition-colors disabled:opacity-30"
+                  aria-label="添加术语"
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              </div>
+
+              {visible.length === 0 ? (
+                <p className="font-sans text-sm text-ink/40 text-center py-6">该语言对暂无术语</p>
+              ) : (
+                <ul className="divide-y divide-ink/5">
+                  {visible.map((t) => (
+                    <li key={t.id} className="flex items-center justify-between gap-3 py-2.5 font-sans text-sm">
+                      <span className="min-w-0 truncate text-ink/80">{t.source}</span>
+                      <span className="text-ink/30 shrink-0">→</span>
+                      <span className="min-w-0 flex-1 truncate text-ink">{t.target}</span>
+                      <button
+                        onClick={() => onRemove(t.id)}
+                        className="p-1.5 rounded-full hover:bg-red-50 text-ink/30 hover:text-red-500 transition-colors"
+                        aria-label={`删除术语 ${t.source}`}
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default GlossaryPanel;
@@ -10,12 +10,16 @@ import {
   CommentReference,
   convertInchesToTwip,
   LineRuleType,
+  ExternalHyperlink,
 } from "docx";
 import { saveAs } from "file-saver";
+import { pairLayoutFor, type TargetLanguageCode } from "../lib/languages";
+import { splitByInlineMarks, type InlineMark, type InlineMarks } from "../lib/inlineMarkup";
 
 interface ParagraphPair {
   en: string;
   zh: string;
+  marks?: InlineMarks;
 }
 
 interface Annotation {
@@ -31,7 +35,7 @@ interface Annotation {
 
 type Annotations = Annotation[];
 
-type ExportTargetLang = "zh" | "zh-TW" | "en" | "ja" | "fr" | "de" | "ar" | "morse" | "aki";
+type ExportTargetLang = TargetLanguageCode;
 
 interface ExportOptions {
   title: { en: string; zh: string };
@@ -44,7 +48,7 @@ interface ExportOptions {
 }
 
 function originalColumnForExport(pair: ParagraphPair, targetLang: ExportTargetLang): string {
-  return targetLang === "en" ? pair.zh : pair.en;
+  return pairLayoutFor(targetLang) === "to_en" ? pair.zh : pair.en;
 }
 
 // ─── Original .docx injection path ───
@@ -55,6 +59,24 @@ const CT_NS = "http://schemas.openxmlformats.org/package/2006/content-types";
 const COMMENTS_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.comments+xml";
 const COMMENTS_REL_TYPE = "http://schemas.openxmlformats.org/officeDocument/2006/relationships/comments";
 
+/** 段内格式 → 追加到 <w:rPr> 的属性；原文档中的链接关系不在此重建，只保留链接样式 */
+function markRunProps(marks: InlineMark[]): string {
+  const has = (t: InlineMark["type"]) => marks.some((m) => m.type === t);
+  const link = has("a");
+  return [
+    has("b") ? "<w:b/>" : "",
+    has("i") ? "<w:i/>" : "",
+    has("u") || link ? '<w:u w:val="single"/>' : "",
+    link ? '<w:color w:val="0563C1"/>' : "",
+    has("sup") || has("fn") ? '<w:vertAlign w:val="superscript"/>' : has("sub") ? '<w:vertAlign w:val="subscript"/>' : "",
+  ].join("");
+}
+
+function withRunProps(rPr: string, extra: string): string {
+  if (!extra) return rPr;
+  return rPr ? rPr.replace(/<\/w:rPr>$/, `${extra}</w:rPr>`) : `<w:rPr>${extra}</w:rPr>`;
+}
+
 function escapeXml(s: string): string {
   return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
 }
@@ -76,7 +98,7 @@ ${comments}
  * that contain at least one <w:t> (text node). For matching paragraphs with annotations,
  * split <w:r>/<w:t> runs at annotation boundaries and inject comment markers.
  */
-function injectCommentsIntoDocXml(docXml: string, annotations: Annotations): string {
+function injectCommentsIntoDocXml(docXml: string, annotations: Annotations, content: ParagraphPair[], targetLang: ExportTargetLang): string {
   if (annotations.length === 0) return docXml;
 
   // Group annotations by paraIndex
@@ -247,6 +269,13 @@ function injectCommentsIntoDocXml(docXml: string, annotations: Annotations): str
     });
     points.add(0);
     points.add(fullText.length);
+    // 重建的段落只沿用第一个 run 的格式，段内加粗、斜体等按导入时记下的格式补回
+    const pair = content[textParaIndex];
+    const marks = pair && originalColumnForExport(pair, targetLang) === fullText ? pair.marks?.source ?? [] : [];
+    marks.forEach((m) => {
+      points.add(m.start);
+      points.add(m.end);
+    });
     const sorted = [...points].sort((a, b) => a - b);
 
     for (let si = 0; si < sorted.length - 1; si++) {
@@ -272,7 +301,8 @@ function injectCommentsIntoDocXml(docXml: string, annotations: Annotations): str
       });
 
       // Output the text run
-      newParts.push(`<w:r>${rPr}<w:t xml:space="preserve">${escapeXml(seg.text)}</w:t></w:r>`);
+      const segRPr = withRunProps(rPr, markRunProps(marks.filter((m) => m.start <= segStart && m.end >= segEnd)));
+      newParts.push(`<w:r>${segRPr}<w:t xml:space="preserve">${escapeXml(seg.text)}</w:t></w:r>`);
 
       // Insert commentRangeEnd + commentReference after this segment if any annotation ends here
       annList.forEach((a) => {
@@ -295,6 +325,8 @@ function injectCommentsIntoDocXml(docXml: string, annotations: Annotations): str
 async function exportWithOriginal(
   docxBuffer: ArrayBuffer,
   annotations: Annotations,
+  content: ParagraphPair[],
+  targetLang: ExportTargetLang,
   filename: string,
 ): Promise<void> {
   const zip = await JSZip.loadAsync(docxBuffer);
@@ -305,7 +337,7 @@ async function exportWithOriginal(
 
     // 2. Inject comment markers into word/document.xml
     const docXmlRaw = await zip.file("word/document.xml")!.async("string");
-    const docXmlNew = injectCommentsIntoDocXml(docXmlRaw, annotations);
+    const docXmlNew = injectCommentsIntoDocXml(docXmlRaw, annotations, content, targetLang);
     zip.file("word/document.xml", docXmlNew);
 
     // 3. Ensure [Content_Types].xml has comments content type
@@ -357,31 +389,48 @@ function makeFallbackDoc(content: ParagraphPair[], annotations: Annotations, tar
   const paraSpacing = { after: PARA_AFTER, line: LINE_SPACING, lineRule: LineRuleType.AUTO };
   const children: Paragraph[] = [];
 
+  /** 按段内格式生成 run；链接包成超链接 */
+  const markedRun = (text: string, marks: InlineMark[]): TextRun | ExternalHyperlink => {
+    const has = (t: InlineMark["type"]) => marks.some((m) => m.type === t);
+    const link = marks.find((m) => m.type === "a" && m.href);
+    const run = new TextRun({
+      text,
+      size: FONT_SIZE,
+      font: FONT,
+      bold: has("b") || undefined,
+      italics: has("i") || undefined,
+      underline: has("u") || link ? {} : undefined,
+      color: link ? "0563C1" : undefined,
+      superScript: has("sup") || has("fn") || undefined,
+      subScript: has("sub") || undefined,
+    });
+    return link ? new ExternalHyperlink({ link: link.href!, children: [run] }) : run;
+  };
+
   content.forEach((pair, pi) => {
     const text = originalColumnForExport(pair, targetLang);
-    const anns = paraAnns.get(pi);
-
-    if (anns && anns.length > 0) {
-      const runs: (TextRun | CommentRangeStart | CommentRangeEnd | CommentReference)[] = [];
-      let lastEnd = 0;
-      anns.forEach((a) => {
-        if (a.startOffset > lastEnd)
-          runs.push(new TextRun({ text: text.slice(lastEnd, a.startOffset), size: FONT_SIZE, font: FONT }));
-        runs.push(new CommentRangeStart(a.numId));
-        runs.push(new TextRun({ text: text.slice(a.startOffset, a.endOffset), size: FONT_SIZE, font: FONT }));
-        runs.push(new CommentRangeEnd(a.numId));
-        runs.push(new CommentReference(a.numId));
-        lastEnd = a.endOffset;
-      });
-      if (lastEnd < text.length)
-        runs.push(new TextRun({ text: text.slice(lastEnd), size: FONT_SIZE, font: FONT }));
-      children.push(new Paragraph({ children: runs, spacing: paraSpacing }));
-    } else {
+    const anns = paraAnns.get(pi) ?? [];
+    const marks = pair.marks?.source ?? [];
+
+    if (anns.length === 0 && marks.length === 0) {
       children.push(new Paragraph({
         children: [new TextRun({ text, size: FONT_SIZE, font: FONT })],
         spacing: paraSpacing,
       }));
+      return;
+    }
+    // 在批注与格式的边界处切分 run
+    const runs: (TextRun | ExternalHyperlink | CommentRangeStart | CommentRangeEnd | CommentReference)[] = [];
+    const breaks = anns.flatMap((a) => [a.startOffset, a.endOffset]);
+    for (const seg of splitByInlineMarks(marks, 0, text.length, breaks)) {
+      anns.filter((a) => a.startOffset === seg.start).forEach((a) => runs.push(new CommentRangeStart(a.numId)));
+      runs.push(markedRun(text.slice(seg.start, seg.end), seg.marks));
+      anns.filter((a) => a.endOffset === seg.end).forEach((a) => {
+        runs.push(new CommentRangeEnd(a.numId));
+        runs.push(new CommentReference(a.numId));
+      });
     }
+    children.push(new Paragraph({ children: runs, spacing: paraSpacing }));
   });
 
   const docComments = commentEntries.map((c) => ({
@@ -426,7 +475,7 @@ export async function exportToDocx(options: ExportOptions): Promise<void> {
 
   if (originalDocx) {
     // Preserve original formatting, just inject comments
-    await exportWithOriginal(originalDocx, annotations, filename);
+    await exportWithOriginal(originalDocx, annotations, content, targetLang, filename);
   } else {
     // Fallback: build new document
     const doc = makeFallbackDoc(content, annotations, targetLang);
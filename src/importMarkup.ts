@@ -0,0 +1,104 @@
+/**
+ * 导入文档时保留段内格式：把 mammoth 转出的 HTML、PDF 文本项写成带占位标签的段落文本
+ * （标签与链接表的约定见 lib/inlineMarkup.ts），段落之间以空行分隔，与纯文本导入的分段方式一致。
+ */
+import { MAX_INLINE_LINKS, stripInlineMarkup } from "../lib/inlineMarkup";
+
+export type MarkedText = { text: string; links: string[] };
+
+const BLOCK_TAGS = ["P", "H1", "H2", "H3", "H4", "H5", "H6", "LI", "TD", "TH", "BLOCKQUOTE", "PRE"];
+const BLOCK_SELECTOR = BLOCK_TAGS.join(",").toLowerCase();
+
+function linkTag(href: string, links: string[]): string | null {
+  if (!/^(https?:\/\/|mailto:)/i.test(href)) return null;
+  let n = links.indexOf(href);
+  if (n === -1) {
+    if (links.length >= MAX_INLINE_LINKS) return null;
+    n = links.push(href) - 1;
+  }
+  return `a${n + 1}`;
+}
+
+function serializeInline(node: Node, links: string[]): string {
+  if (node.nodeType === Node.TEXT_NODE) return node.textContent ?? "";
+  if (node.nodeType !== Node.ELEMENT_NODE) return "";
+  const el = node as Element;
+  if (el.tagName === "BR") return "\n";
+  const inner = Array.from(el.childNodes, (c) => serializeInline(c, links)).join("");
+  if (!inner.trim()) return inner;
+  switch (el.tagName) {
+    case "STRONG":
+    case "B":
+      return `<b>${inner}</b>`;
+    case "EM":
+    case "I":
+      return `<i>${inner}</i>`;
+    case "U":
+      return `<u>${inner}</u>`;
+    case "SUB":
+      return `<sub>${inner}</sub>`;
+    case "SUP":
+      // mammoth 把脚注 / 尾注引用写成 <sup><a href="#footnote-1">[1]</a></sup>
+      return el.querySelector('a[href^="#footnote"], a[href^="#endnote"]')
+        ? `<fn>${stripInlineMarkup(inner)}</fn>`
+        : `<sup>${inner}</sup>`;
+    case "A": {
+      const href = el.getAttribute("href") ?? "";
+      // 脚注正文末尾指回引用处的「↑」
+      if (/^#(footnote|endnote)-ref/.test(href)) return "";
+      const tag = linkTag(href, links);
+      return tag ? `<${tag}>${inner}</${tag}>` : inner;
+    }
+    default:
+      return inner;
+  }
+}
+
+function collectBlocks(el: Element, out: Element[]): void {
+  for (const child of Array.from(el.children)) {
+    if (BLOCK_TAGS.includes(child.tagName) && !child.querySelector(BLOCK_SELECTOR)) out.push(child);
+    else collectBlocks(child, out);
+  }
+}
+
+/** mammoth.convertToHtml 的结果 → 带格式标签的段落文本（脚注正文作为文末段落保留） */
+export function docxHtmlToMarkup(html: string): MarkedText {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  const blocks: Element[] = [];
+  collectBlocks(doc.body, blocks);
+  const links: string[] = [];
+  const paragraphs = blocks
+    .map((block) => serializeInline(block, links).trim())
+    .filter((p) => stripInlineMarkup(p).trim());
+  return { text: paragraphs.join("\n\n"), links };
+}
+
+/** PDF 文本项及其字体样式、所在链接区域 */
+export type PdfTextItem = { str: string; bold: boolean; italic: boolean; href: string | null };
+
+/** 同一页的文本项 → 一段带格式标签的文本；相邻且格式相同的文本项合并进同一对标签 */
+export function pdfItemsToMarkup(items: PdfTextItem[], links: string[]): string {
+  let out = "";
+  let open: string[] = [];
+  const close = () => {
+    for (const tag of [...open].reverse()) out += `</${tag}>`;
+    open = [];
+  };
+  items.forEach((item, i) => {
+    const tags = [
+      ...(item.href ? [linkTag(item.href, links)] : []),
+      ...(item.bold ? ["b"] : []),
+      ...(item.italic ? ["i"] : []),
+    ].filter((t): t is string => t !== null);
+    const same = tags.length === open.length && tags.every((t, k) => t === open[k]);
+    if (!same) close();
+    if (i > 0) out += " ";
+    if (!same && item.str.trim()) {
+      tags.forEach((t) => (out += `<${t}>`));
+      open = tags;
+    }
+    out += item.str;
+  });
+  close();
+  return out;
+}